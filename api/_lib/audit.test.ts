@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { diffSnapshots } from './audit';
+
+describe('diffSnapshots', () => {
+  it('lists only the fields that changed, with both values', () => {
+    expect(diffSnapshots(
+      { companyName: 'Beacon', email: 'a@beacon.com', notes: null },
+      { companyName: 'Beacon Supply', email: 'a@beacon.com', notes: null },
+    )).toEqual({ companyName: { from: 'Beacon', to: 'Beacon Supply' } });
+  });
+
+  it('treats a missing field as null', () => {
+    expect(diffSnapshots({ notes: null }, {})).toEqual({});
+    expect(diffSnapshots({}, { notes: 'Call first' })).toEqual({ notes: { from: null, to: 'Call first' } });
+  });
+
+  it('compares nested JSON by value', () => {
+    const phones = [{ label: 'Office', number: '555-0100' }];
+    expect(diffSnapshots({ phones }, { phones: phones.map((phone) => ({ ...phone })) })).toEqual({});
+    expect(diffSnapshots({ categories: ['A', 'B'] }, { categories: ['B', 'A'] })).toEqual({
+      categories: { from: ['A', 'B'], to: ['B', 'A'] },
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { db } from './db';
+import { auditLog, type AuditFieldChange, type AuditLogEntry } from './schema';
+import { eq } from 'drizzle-orm';
+
+export type AuditEntityType = 'vendor' | 'representative' | 'category' | 'brand' | 'service' | 'proCustomer';
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = ['vendor', 'representative', 'category', 'brand', 'service', 'proCustomer'];
+
+// delete moves vendors, reps and pro customers to the trash; undelete takes
+// them out and purge removes them for good
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'undelete' | 'purge';
+
+// Bookkeeping and computed fields that never count as a change. A vendor's
+// categoryIds and unmatchedCategories are both derived from `categories`.
+const IGNORED_FIELDS = new Set([
+  'id', 'createdAt', 'updatedAt', 'deletedAt', 'vendorCount', 'score', 'categoryIds', 'unmatchedCategories',
+]);
+
+type Snapshot = Record<string, unknown>;
+
+// JSON-safe copy of a record as the API presents it, so dates and nested
+// JSON compare and store the way clients see them.
+function toSnapshot(record: unknown): Snapshot {
+  if (!record || typeof record !== 'object') return {};
+  const snapshot: Snapshot = {};
+  for (const [field, value] of Object.entries(JSON.parse(JSON.stringify(record)))) {
+    if (!IGNORED_FIELDS.has(field)) snapshot[field] = value;
+  }
+  return snapshot;
+}
+
+// Fields whose value differs between two snapshots; a missing field counts as
+// null.
+export function diffSnapshots(before: Snapshot, after: Snapshot): Record<string, AuditFieldChange> {
+  const changes: Record<string, AuditFieldChange> = {};
+  for (const field of Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))) {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+export interface AuditEvent {
+  entityType: AuditEntityType;
+  entityId: string;
+  entityName: string;
+  action: AuditAction;
+  // The record before and after, as presented; omitted for create and delete
+  before?: unknown;
+  after?: unknown;
+  // For a restore, the entry whose snapshot was put back
+  restoredFrom?: string;
+}
+
+// Records one change. It runs once the change itself is written, so a failure
+// here is logged rather than failing a request whose write went through. An
+// update or restore that changed nothing is not recorded.
+export async function recordAudit(event: AuditEvent): Promise<void> {
+  const before = toSnapshot(event.before);
+  const after = toSnapshot(event.after);
+  const changes = diffSnapshots(before, after);
+  if ((event.action === 'update' || event.action === 'restore') && Object.keys(changes).length === 0) {
+    return;
+  }
+
+  try {
+    await db.insert(auditLog).values({
+      entityType: event.entityType,
+      entityId: event.entityId,
+      entityName: event.entityName,
+      action: event.action,
+      changes,
+      snapshot: event.action === 'delete' || event.action === 'purge' ? before : after,
+      restoredFrom: event.restoredFrom ?? null,
+    });
+  } catch (error) {
+    console.error('Audit log write failed:', error);
+  }
+}
+
+export async function findAuditEntry(id: string): Promise<AuditLogEntry | undefined> {
+  const [entry] = await db.select().from(auditLog).where(eq(auditLog.id, id));
+  return entry;
+}
@@ -0,0 +1,179 @@
+import { createHmac, randomBytes, randomUUID, scrypt as scryptCallback, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { count, eq, getTableColumns, sql } from 'drizzle-orm';
+import { db, insertWhere } from './db';
+import { users, type InsertUser, type User } from './schema';
+import { HttpError } from './resource-handler';
+
+// Password hashing and the signed session cookie every api/ handler checks.
+//
+// A session is `<userId>.<expiresAt>.<signature>`, signed with SESSION_SECRET
+// and kept in an HttpOnly cookie. Nothing is stored server side: signing out
+// clears the cookie, and deleting the user ends their sessions because each
+// request loads the user again.
+
+const scrypt = promisify(scryptCallback) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const SESSION_COOKIE = 'session';
+const SESSION_DAYS = 14;
+const KEY_LENGTH = 64;
+
+// Every column but the password hash
+const { passwordHash: _passwordHash, ...userColumns } = getTableColumns(users);
+
+function sessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('SESSION_SECRET environment variable must be set to at least 32 characters');
+  }
+  return secret;
+}
+
+// scrypt$<salt>$<hash>, both base64
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Compared against when the email is unknown, so a miss takes as long as a
+// wrong password. Made on first use to keep it off every cold start.
+let decoyHash: Promise<string> | undefined;
+
+function sign(value: string): string {
+  return createHmac('sha256', sessionSecret()).update(value).digest('base64url');
+}
+
+function cookie(value: string, maxAgeSeconds: number): string {
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  return `${SESSION_COOKIE}=${value}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAgeSeconds}${secure}`;
+}
+
+export function startSession(res: VercelResponse, user: User) {
+  const expiresAt = Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000;
+  const payload = `${user.id}.${expiresAt}`;
+  res.setHeader('Set-Cookie', cookie(`${payload}.${sign(payload)}`, SESSION_DAYS * 24 * 60 * 60));
+}
+
+export function endSession(res: VercelResponse) {
+  res.setHeader('Set-Cookie', cookie('', 0));
+}
+
+// The user id from a valid, unexpired session cookie
+function sessionUserId(req: VercelRequest): string | null {
+  const token = req.cookies?.[SESSION_COOKIE];
+  const [userId, expiresAt, signature] = token?.split('.') ?? [];
+  if (!userId || !expiresAt || !signature) {
+    return null;
+  }
+  const expected = Buffer.from(sign(`${userId}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+  return Number(expiresAt) > Date.now() ? userId : null;
+}
+
+export async function sessionUser(req: VercelRequest): Promise<User | null> {
+  const userId = sessionUserId(req);
+  if (!userId) {
+    return null;
+  }
+  const [user] = await db.select(userColumns).from(users).where(eq(users.id, userId));
+  return user ?? null;
+}
+
+export async function requireUser(req: VercelRequest): Promise<User> {
+  const user = await sessionUser(req);
+  if (!user) {
+    throw new HttpError(401, 'Sign in to continue');
+  }
+  return user;
+}
+
+export async function requireAdmin(req: VercelRequest, action = 'manage accounts'): Promise<User> {
+  const user = await requireUser(req);
+  if (!user.isAdmin) {
+    throw new HttpError(403, `Only admins can ${action}`);
+  }
+  return user;
+}
+
+// Another copy of the app reads this one's export from a different site,
+// where the SameSite session cookie is never sent. It authenticates with
+// SYNC_TOKEN as a bearer token instead; without SYNC_TOKEN set, nothing does.
+export function hasSyncToken(req: VercelRequest): boolean {
+  const token = process.env.SYNC_TOKEN;
+  const header = req.headers.authorization;
+  if (!token || !header?.startsWith('Bearer ')) {
+    return false;
+  }
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(header.slice('Bearer '.length));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// The user for an email and password, or null when either is wrong
+export async function authenticate(email: string, password: string): Promise<User | null> {
+  const [row] = await db.select().from(users).where(eq(users.email, email));
+  if (!row) {
+    decoyHash ??= hashPassword(randomBytes(16).toString('hex'));
+    await verifyPassword(password, await decoyHash);
+    return null;
+  }
+  const { passwordHash, ...user } = row;
+  return (await verifyPassword(password, passwordHash)) ? user : null;
+}
+
+export async function hasUsers(): Promise<boolean> {
+  const [{ total }] = await db.select({ total: count() }).from(users);
+  return total > 0;
+}
+
+export async function listUsers(): Promise<User[]> {
+  return db.select(userColumns).from(users).orderBy(users.name);
+}
+
+export async function createUser(input: InsertUser): Promise<User> {
+  const [existing] = await db.select({ id: users.id }).from(users).where(eq(users.email, input.email));
+  if (existing) {
+    throw new HttpError(409, `An account for ${input.email} already exists`);
+  }
+  const [user] = await db
+    .insert(users)
+    .values({ email: input.email, name: input.name, isAdmin: input.isAdmin ?? false, passwordHash: await hashPassword(input.password) })
+    .returning(userColumns);
+  return user;
+}
+
+// The first account, an admin, or null when an account exists already. The
+// insert checks for that itself, and the table lock makes a concurrent setup
+// wait for this one and then find its account.
+export async function createFirstUser(input: InsertUser): Promise<User | null> {
+  const id = randomUUID();
+  const row = { id, email: input.email, name: input.name, isAdmin: true, passwordHash: await hashPassword(input.password) };
+  const [, , [user]] = await db.batch([
+    db.execute(sql`lock table ${users} in share row exclusive mode`),
+    insertWhere(users, [row], sql`not exists (select 1 from ${users})`),
+    db.select(userColumns).from(users).where(eq(users.id, id)),
+  ]);
+  return user ?? null;
+}
+
+export async function deleteUser(id: string) {
+  const [deleted] = await db.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+  if (!deleted) {
+    throw new HttpError(404, 'User not found');
+  }
+}
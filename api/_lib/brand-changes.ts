@@ -0,0 +1,497 @@
+import { createHash, randomUUID } from 'crypto';
+import { z } from 'zod';
+import { db, runBatch } from './db';
+import { brands, brandCategories, brandTemplates, brandTemplateVersions, categories, vendorBrands, vendorCategories } from './schema';
+import type { Brand, BrandTemplate, BrandImpactPreview } from './schema';
+import { HttpError, notFound } from './resource-handler';
+import {
+  buildCategoryRows, flattenTemplateCategories, insertCategoryRows, snapshotTemplateVersion,
+  type FlatTemplateCategory,
+} from './brand-templates';
+import { findVendorsWithPathPrefix, rewriteLegacyPathPrefix, setVendorCategoryPaths } from './vendor-categories';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { and, asc, eq, inArray, ne, sql } from 'drizzle-orm';
+
+// A brand's name, template and category list all show up in the
+// "<brand> > ..." paths vendors carry. A plan lists every vendor whose paths
+// a change would add or remove (BrandImpactPreview); applying it rewrites the
+// brand, its brandCategories, its branded categories and those vendors in one
+// batch. A plan's planVersion lets a confirmed preview be applied only while
+// it still holds.
+
+export const brandChangeSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  templateId: z.string().min(1).optional(),
+  // The brand's complete category list, as paths below the brand
+  // ("Roofing > Shingles"); parents are implied
+  categories: z.array(z.string().trim().min(1)).optional(),
+});
+
+export type BrandChange = z.infer<typeof brandChangeSchema>;
+
+export interface BrandChangePlan {
+  brandId: string;
+  brandName: string;
+  newName: string;
+  fromVersion: string | null;
+  toVersion: string | null;
+  adds: string[];
+  removes: string[];
+  vendors: BrandImpactPreview[];
+  // Fingerprint of everything above
+  planVersion: string;
+}
+
+interface ChangeContext {
+  plan: BrandChangePlan;
+  template: BrandTemplate | null;
+  rows: (typeof brandCategories.$inferInsert)[];
+  removeIds: string[];
+  vendorPaths: Map<string, string[]>;
+  // Branded categories created for paths vendors gain, and their ids by path
+  categoryRows: (typeof categories.$inferInsert)[];
+  categoryIds: Map<string, string>;
+}
+
+// Re-roots a path that starts with `from`; other paths pass through.
+function swapPrefix(path: string, from: string, to: string): string {
+  return path === from || path.startsWith(`${from} > `) ? `${to}${path.slice(from.length)}` : path;
+}
+
+// Flat rows for category paths given below the brand, parents first.
+function flattenCategoryPaths(brandName: string, paths: string[]): FlatTemplateCategory[] {
+  const flat = new Map<string, FlatTemplateCategory>();
+  for (const relative of paths) {
+    let parentPath: string | null = null;
+    relative.split('>').map((name) => name.trim()).filter(Boolean).forEach((name, index) => {
+      const path: string = `${parentPath ?? brandName} > ${name}`;
+      if (!flat.has(path)) {
+        flat.set(path, { name, description: null, level: index + 1, path, parentPath });
+      }
+      parentPath = path;
+    });
+  }
+  return Array.from(flat.values());
+}
+
+async function findTemplate(templateId: string): Promise<BrandTemplate> {
+  const [template] = await db.select().from(brandTemplates).where(eq(brandTemplates.id, templateId));
+  if (!template) {
+    throw notFound('Brand template');
+  }
+  return template;
+}
+
+async function assertNameAvailable(brand: Brand, name: string) {
+  const [taken] = await db.select({ id: brands.id }).from(brands)
+    .where(and(sql`lower(${brands.name}) = ${name.toLowerCase()}`, ne(brands.id, brand.id)));
+  if (taken) {
+    throw new HttpError(409, `A brand named ${name} already exists`);
+  }
+}
+
+// Whether a path goes with a change from `oldPaths` to `newPaths`: an old
+// path the new set lacks is dropped along with everything below it, except
+// what the new set still has.
+export function removedPaths(oldPaths: Set<string>, newPaths: Set<string>): (path: string) => boolean {
+  const droppedRoots = Array.from(oldPaths).filter((path) => !newPaths.has(path));
+  return (path) => !newPaths.has(path) && droppedRoots.some((root) => path === root || path.startsWith(`${root} > `));
+}
+
+// A vendor's paths after a change, under the brand's new name. Only branches
+// the vendor already carries grow: an added category (parents first) is
+// given to it when its parent is the brand itself or a path the vendor has.
+export function nextVendorPaths(
+  paths: string[],
+  rename: (path: string) => string,
+  isRemoved: (path: string) => boolean,
+  added: FlatTemplateCategory[],
+): string[] {
+  const next = paths.map(rename).filter((path) => !isRemoved(path));
+  for (const category of added) {
+    if (next.includes(category.path)) continue;
+    if (category.parentPath === null || next.includes(category.parentPath)) {
+      next.push(category.path);
+    }
+  }
+  return next;
+}
+
+// Vendors are linked to categories by id, so a path a vendor gains needs a
+// branded category. Those the brand has (under the new name) are reused and
+// the rest created with their missing parents, parents first as `flat`
+// lists them.
+async function buildBrandedCategories(
+  brand: Brand,
+  rename: (path: string) => string,
+  flat: FlatTemplateCategory[],
+  gained: Set<string>,
+): Promise<{ categoryRows: (typeof categories.$inferInsert)[]; categoryIds: Map<string, string> }> {
+  const categoryRows: (typeof categories.$inferInsert)[] = [];
+  const categoryIds = new Map<string, string>();
+  const byPath = new Map(flat.map((category) => [category.path, category]));
+  const needed = new Set<string>();
+  for (const path of Array.from(gained)) {
+    for (let category = byPath.get(path); category; category = category.parentPath ? byPath.get(category.parentPath) : undefined) {
+      needed.add(category.path);
+    }
+  }
+  if (needed.size === 0) return { categoryRows, categoryIds };
+
+  const existing = await db.select({ id: categories.id, path: categories.path })
+    .from(categories)
+    .where(eq(categories.brandId, brand.id));
+  const idsByPath = new Map(existing.filter((row) => row.path)
+    .map((row) => [rename(row.path as string).toLowerCase(), row.id]));
+
+  for (const category of flat) {
+    if (!needed.has(category.path) || idsByPath.has(category.path.toLowerCase())) continue;
+    const id = randomUUID();
+    idsByPath.set(category.path.toLowerCase(), id);
+    categoryIds.set(category.path, id);
+    categoryRows.push({
+      id,
+      name: category.name,
+      description: category.description,
+      categoryType: 'branded',
+      brandId: brand.id,
+      level: String(category.level),
+      parentId: category.parentPath ? idsByPath.get(category.parentPath.toLowerCase()) ?? null : null,
+      path: category.path,
+      subcategories: [],
+    });
+  }
+  return { categoryRows, categoryIds };
+}
+
+async function buildBrandChange(brand: Brand, change: BrandChange): Promise<ChangeContext> {
+  const newName = change.name ?? brand.name;
+  if (newName !== brand.name) {
+    await assertNameAvailable(brand, newName);
+  }
+  const rename = (path: string) => swapPrefix(path, brand.name, newName);
+  const template = change.templateId ? await findTemplate(change.templateId) : null;
+
+  const existing = await db.select({ id: brandCategories.id, path: brandCategories.path })
+    .from(brandCategories)
+    .where(eq(brandCategories.brandId, brand.id))
+    .orderBy(asc(brandCategories.path));
+
+  // Compared under the new name. The paths the brand was generated from are
+  // its current categories unless a template is being applied: then the old
+  // template version's snapshot stands in, when there is one.
+  let oldPaths = new Set(existing.map((row) => row.path).filter((path): path is string => !!path).map(rename));
+  let flat: FlatTemplateCategory[] | null = null;
+  if (template) {
+    flat = flattenTemplateCategories(newName, template.template?.categories ?? []);
+    if (brand.templateId && brand.templateVersion) {
+      const [snapshot] = await db.select().from(brandTemplateVersions)
+        .where(and(
+          eq(brandTemplateVersions.templateId, brand.templateId),
+          eq(brandTemplateVersions.version, brand.templateVersion),
+        ));
+      if (snapshot) {
+        oldPaths = new Set(flattenTemplateCategories(newName, snapshot.template?.categories ?? []).map((c) => c.path));
+      }
+    }
+  } else if (change.categories) {
+    flat = flattenCategoryPaths(newName, change.categories);
+  }
+
+  const isRemoved = removedPaths(oldPaths, flat ? new Set(flat.map((category) => category.path)) : oldPaths);
+
+  const idsByPath = new Map<string | null, string>(existing.map((row) => [row.path && rename(row.path), row.id]));
+  const rows = flat ? buildCategoryRows(brand, flat, idsByPath) : [];
+  const removed = existing.filter((row) => row.path && isRemoved(rename(row.path)));
+  const adds = rows.map((row) => row.path as string);
+  const added = (flat ?? []).filter((category) => adds.includes(category.path));
+
+  const vendorPaths = new Map<string, string[]>();
+  const impacts: BrandImpactPreview[] = [];
+  for (const vendor of await findVendorsWithPathPrefix(`${brand.name} > `)) {
+    const next = nextVendorPaths(vendor.paths, rename, isRemoved, added);
+    const vendorAdds = next.filter((path) => !vendor.paths.includes(path));
+    const vendorRemoves = vendor.paths.filter((path) => !next.includes(path));
+    if (vendorAdds.length > 0 || vendorRemoves.length > 0) {
+      vendorPaths.set(vendor.id, next);
+      impacts.push({ vendorId: vendor.id, vendorName: vendor.companyName, adds: vendorAdds, removes: vendorRemoves });
+    }
+  }
+
+  impacts.sort((a, b) => a.vendorName.localeCompare(b.vendorName) || a.vendorId.localeCompare(b.vendorId));
+  const { categoryRows, categoryIds } = await buildBrandedCategories(
+    brand, rename, flat ?? [], new Set(impacts.flatMap((impact) => impact.adds)),
+  );
+
+  const plan = {
+    brandId: brand.id,
+    brandName: brand.name,
+    newName,
+    fromVersion: template && brand.templateId !== template.id ? null : brand.templateVersion,
+    toVersion: template ? template.version : brand.templateVersion,
+    adds,
+    removes: removed.map((row) => row.path as string),
+    vendors: impacts,
+  };
+  return {
+    plan: { ...plan, planVersion: createHash('sha256').update(JSON.stringify(plan)).digest('hex') },
+    template,
+    rows,
+    removeIds: removed.map((row) => row.id),
+    vendorPaths,
+    categoryRows,
+    categoryIds,
+  };
+}
+
+export async function planBrandChange(brand: Brand, change: BrandChange): Promise<BrandChangePlan> {
+  return (await buildBrandChange(brand, change)).plan;
+}
+
+// Edits to the brand, its categories or its vendors since a preview change
+// the plan. The change is then refused with the plan as it stands now, for
+// a fresh confirm.
+function assertPlanUnchanged(plan: BrandChangePlan, planVersion: string | undefined) {
+  if (planVersion !== undefined && planVersion !== plan.planVersion) {
+    throw new HttpError(409, `${plan.brandName} has changed since this was previewed; review the change again`, { plan });
+  }
+}
+
+// Statements that drop the categories a change removes, rename the brand's
+// brandCategories and branded category paths, generate the new categories
+// and create the branded ones vendors gain. Vendors and the brand row are
+// left to the caller.
+function categoryStatements(
+  brand: Brand,
+  { plan, rows, removeIds, categoryRows }: ChangeContext,
+  now: Date,
+): BatchItem<'pg'>[] {
+  const { newName } = plan;
+  const prefix = `${brand.name} > `;
+  const queries: BatchItem<'pg'>[] = [];
+  if (removeIds.length > 0) {
+    queries.push(db.delete(brandCategories).where(inArray(brandCategories.id, removeIds)));
+  }
+  if (newName !== brand.name) {
+    queries.push(
+      db.update(brandCategories)
+        .set({ path: sql`${newName} || substr(${brandCategories.path}, ${brand.name.length + 1})`, updatedAt: now })
+        .where(and(eq(brandCategories.brandId, brand.id), sql`starts_with(${brandCategories.path}, ${prefix})`)),
+      // Vendors linked to these follow by id
+      db.update(categories)
+        .set({ path: sql`${newName} || substr(${categories.path}, ${brand.name.length + 1})`, updatedAt: now })
+        .where(and(eq(categories.brandId, brand.id), sql`starts_with(${categories.path}, ${prefix})`)),
+    );
+  }
+  if (rows.length > 0) {
+    queries.push(insertCategoryRows(rows));
+  }
+  if (categoryRows.length > 0) {
+    queries.push(db.insert(categories).values(categoryRows));
+    // Parents that gained children rebuild their subcategory lists
+    const parentIds = new Set(categoryRows.map((row) => row.parentId).filter((id): id is string => !!id));
+    for (const parentId of Array.from(parentIds)) {
+      queries.push(db.update(categories)
+        .set({
+          subcategories: sql`coalesce((
+            select json_agg(child.name order by child.name) from ${categories} child where child.parent_id = ${parentId}
+          ), '[]'::json)`,
+          updatedAt: now,
+        })
+        .where(eq(categories.id, parentId)));
+    }
+  }
+  return queries;
+}
+
+function updateBrand(brand: Brand, { plan, template }: ChangeContext, values: Record<string, unknown>, now: Date) {
+  return db.update(brands)
+    .set({
+      ...values,
+      name: plan.newName,
+      ...(template ? { templateId: template.id, templateVersion: template.version } : {}),
+      updatedAt: now,
+    })
+    .where(eq(brands.id, brand.id))
+    .returning();
+}
+
+// Applies a change in one batch: drops the categories it removes, renames
+// the brand's brandCategories and branded category paths, generates the new
+// categories, rewrites affected vendors and updates the brand row, along with
+// any other brand `values`. With a `planVersion`, only the plan it was
+// previewed as.
+export async function applyBrandChange(
+  brand: Brand,
+  change: BrandChange,
+  values: Record<string, unknown> = {},
+  planVersion?: string,
+): Promise<{ plan: BrandChangePlan; brand: Brand }> {
+  const context = await buildBrandChange(brand, change);
+  const { plan, template, vendorPaths, categoryIds } = context;
+  assertPlanUnchanged(plan, planVersion);
+  const now = new Date();
+
+  const queries: BatchItem<'pg'>[] = categoryStatements(brand, context, now);
+  // Vendor paths are matched to categories under the names they have now
+  queries.push(...await setVendorCategoryPaths(
+    vendorPaths,
+    (path) => swapPrefix(path, plan.newName, brand.name),
+    categoryIds,
+  ));
+  if (template) {
+    queries.push(snapshotTemplateVersion(template));
+  }
+  queries.push(updateBrand(brand, context, values, now));
+
+  const results = await runBatch(queries);
+  const [updated] = results[results.length - 1] as Brand[];
+  return { plan, brand: updated };
+}
+
+// Moving a brand to its template's current version is a change of template.
+export async function planBrandUpgrade(brand: Brand, template: BrandTemplate): Promise<BrandChangePlan> {
+  return planBrandChange(brand, { templateId: template.id });
+}
+
+// Upgrades the brands to the template's current version in one batch, so a
+// failure leaves none of them half upgraded. A vendor can carry paths under
+// several of the brands; each plan only rewrites the paths under its own
+// brand, so the vendor gets those parts of each. `planVersions` holds the
+// previewed planVersion of any brand upgraded from a preview.
+export async function upgradeBrands(
+  selected: Brand[],
+  template: BrandTemplate,
+  planVersions: Record<string, string> = {},
+): Promise<BrandChangePlan[]> {
+  const contexts: ChangeContext[] = [];
+  for (const brand of selected) {
+    const context = await buildBrandChange(brand, { templateId: template.id });
+    assertPlanUnchanged(context.plan, planVersions[brand.id]);
+    contexts.push(context);
+  }
+
+  const vendorPaths = new Map<string, string[]>();
+  const categoryIds = new Map(contexts.flatMap((context) => Array.from(context.categoryIds)));
+  for (const { plan, vendorPaths: changes } of contexts) {
+    const ownPath = (path: string) => path.startsWith(`${plan.brandName} > `);
+    for (const [vendorId, paths] of Array.from(changes)) {
+      const current = vendorPaths.get(vendorId);
+      vendorPaths.set(vendorId, current
+        ? [...current.filter((path) => !ownPath(path)), ...paths.filter(ownPath)]
+        : paths);
+    }
+  }
+
+  const now = new Date();
+  await runBatch([
+    ...contexts.flatMap((context, i) => categoryStatements(selected[i], context, now)),
+    ...await setVendorCategoryPaths(vendorPaths, undefined, categoryIds),
+    snapshotTemplateVersion(template),
+    ...contexts.map((context, i) => updateBrand(selected[i], context, {}, now)),
+  ]);
+  return contexts.map((context) => context.plan);
+}
+
+export type BrandDeleteMode = 'remove' | 'generic';
+export const BRAND_DELETE_MODES: BrandDeleteMode[] = ['remove', 'generic'];
+
+export interface BrandDeleteImpact {
+  vendors: number;
+  categories: number;
+  brandCategories: number;
+}
+
+// What deleting a brand would touch, for the 409 that asks for a mode.
+export async function getBrandDeleteImpact(brand: Brand): Promise<BrandDeleteImpact> {
+  const count = sql<number>`count(*)::int`;
+  const [assigned, withPaths, [branded], [generated]] = await Promise.all([
+    db.select({ vendorId: vendorBrands.vendorId }).from(vendorBrands).where(eq(vendorBrands.brandId, brand.id)),
+    findVendorsWithPathPrefix(`${brand.name} > `),
+    db.select({ count }).from(categories).where(eq(categories.brandId, brand.id)),
+    db.select({ count }).from(brandCategories).where(eq(brandCategories.brandId, brand.id)),
+  ]);
+  const vendorIds = new Set([...assigned.map((row) => row.vendorId), ...withPaths.map((vendor) => vendor.id)]);
+  return { vendors: vendorIds.size, categories: branded?.count ?? 0, brandCategories: generated?.count ?? 0 };
+}
+
+// Turns the brand's categories into generic ones with the brand prefix
+// dropped from their paths. One that lands on an existing generic path is
+// merged into it: its vendors and subcategories move over and it is deleted.
+async function convertCategoriesToGeneric(brand: Brand): Promise<BatchItem<'pg'>[]> {
+  const prefix = `${brand.name} > `;
+  const all = await db.select().from(categories);
+  const branded = all.filter((row) => row.brandId === brand.id)
+    .sort((a, b) => Number(a.level) - Number(b.level));
+  if (branded.length === 0) return [];
+
+  const genericByPath = new Map(all.filter((row) => row.categoryType === 'generic' && row.path)
+    .map((row) => [(row.path as string).toLowerCase(), row.id]));
+  const mergedInto = new Map<string, string>();
+  const parents = new Set<string>();
+  const now = new Date();
+
+  const queries: BatchItem<'pg'>[] = [];
+  for (const category of branded) {
+    const current = category.path ?? category.name;
+    const path = current.startsWith(prefix) ? current.slice(prefix.length) : current;
+    const parentId = category.parentId ? mergedInto.get(category.parentId) ?? category.parentId : null;
+    const target = genericByPath.get(path.toLowerCase());
+    if (target) {
+      mergedInto.set(category.id, target);
+      continue;
+    }
+    genericByPath.set(path.toLowerCase(), category.id);
+    if (parentId) parents.add(parentId);
+    queries.push(db.update(categories)
+      .set({ categoryType: 'generic', brandId: null, path, parentId, updatedAt: now })
+      .where(eq(categories.id, category.id)));
+  }
+
+  const mergedIds = Array.from(mergedInto.keys());
+  if (mergedIds.length > 0) {
+    const links = await db.select({ vendorId: vendorCategories.vendorId, categoryId: vendorCategories.categoryId })
+      .from(vendorCategories)
+      .where(inArray(vendorCategories.categoryId, mergedIds));
+    if (links.length > 0) {
+      queries.push(db.insert(vendorCategories)
+        .values(links.map((link) => ({ vendorId: link.vendorId, categoryId: mergedInto.get(link.categoryId) as string })))
+        .onConflictDoNothing());
+    }
+    queries.push(db.delete(categories).where(inArray(categories.id, mergedIds)));
+  }
+
+  // Parents that gained or kept children rebuild their subcategory lists
+  for (const parentId of Array.from(parents)) {
+    queries.push(db.update(categories)
+      .set({
+        subcategories: sql`coalesce((
+          select json_agg(child.name order by child.name) from ${categories} child where child.parent_id = ${parentId}
+        ), '[]'::json)`,
+        updatedAt: now,
+      })
+      .where(eq(categories.id, parentId)));
+  }
+  return queries;
+}
+
+// remove: deletes the brand's categories and drops its paths from every
+//   vendor.
+// generic: keeps the categories as generic ones, and vendors keep them with
+//   the brand prefix dropped.
+// Either way the brand's generated brandCategories and vendor assignments go
+// with it, in one batch.
+export async function deleteBrand(brand: Brand, mode: BrandDeleteMode): Promise<void> {
+  const prefix = `${brand.name} > `;
+  const queries: BatchItem<'pg'>[] = [db.delete(brandCategories).where(eq(brandCategories.brandId, brand.id))];
+  if (mode === 'remove') {
+    queries.push(
+      db.delete(categories).where(eq(categories.brandId, brand.id)),
+      rewriteLegacyPathPrefix(prefix, null),
+    );
+  } else {
+    queries.push(...await convertCategoriesToGeneric(brand), rewriteLegacyPathPrefix(prefix, ''));
+  }
+  queries.push(db.delete(brands).where(eq(brands.id, brand.id)));
+  await runBatch(queries);
+}
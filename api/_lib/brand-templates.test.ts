@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { buildCategoryRows, flattenTemplateCategories, type TemplateCategoryNode } from './brand-templates';
+import { nextVendorPaths, removedPaths } from './brand-changes';
+import type { Brand } from './schema';
+
+const V1: TemplateCategoryNode[] = [
+  {
+    name: 'Roofing',
+    subcategories: [
+      { name: 'Shingles', subcategories: [{ name: 'Asphalt' }] },
+      { name: 'Underlayment' },
+    ],
+  },
+  { name: 'Siding' },
+];
+
+// v2 drops Underlayment and Siding, and adds Ridge Caps and Gutters
+const V2: TemplateCategoryNode[] = [
+  {
+    name: 'Roofing',
+    subcategories: [
+      { name: 'Shingles', subcategories: [{ name: 'Asphalt' }] },
+      { name: 'Ridge Caps' },
+    ],
+  },
+  { name: 'Gutters', subcategories: [{ name: 'Guards' }] },
+];
+
+const paths = (nodes: TemplateCategoryNode[]) => flattenTemplateCategories('GAF', nodes).map((category) => category.path);
+
+describe('flattenTemplateCategories', () => {
+  it('prefixes paths with the brand and lists parents before children', () => {
+    expect(flattenTemplateCategories('GAF', V1)).toEqual([
+      { name: 'Roofing', description: null, level: 1, path: 'GAF > Roofing', parentPath: null },
+      { name: 'Shingles', description: null, level: 2, path: 'GAF > Roofing > Shingles', parentPath: 'GAF > Roofing' },
+      {
+        name: 'Asphalt',
+        description: null,
+        level: 3,
+        path: 'GAF > Roofing > Shingles > Asphalt',
+        parentPath: 'GAF > Roofing > Shingles',
+      },
+      { name: 'Underlayment', description: null, level: 2, path: 'GAF > Roofing > Underlayment', parentPath: 'GAF > Roofing' },
+      { name: 'Siding', description: null, level: 1, path: 'GAF > Siding', parentPath: null },
+    ]);
+  });
+
+  it('collapses repeated sibling names and trims them', () => {
+    expect(paths([{ name: ' Roofing ' }, { name: 'Roofing', subcategories: [{ name: 'Vents' }] }])).toEqual([
+      'GAF > Roofing',
+      'GAF > Roofing > Vents',
+    ]);
+  });
+});
+
+describe('buildCategoryRows', () => {
+  it('skips paths the brand has and links new rows to existing parents', () => {
+    const brand = { id: 'gaf' } as Brand;
+    const idsByPath = new Map<string | null, string>([['GAF > Roofing', 'roofing']]);
+    const rows = buildCategoryRows(brand, flattenTemplateCategories('GAF', V2), idsByPath);
+
+    expect(rows.map((row) => row.path)).toEqual([
+      'GAF > Roofing > Shingles',
+      'GAF > Roofing > Shingles > Asphalt',
+      'GAF > Roofing > Ridge Caps',
+      'GAF > Gutters',
+      'GAF > Gutters > Guards',
+    ]);
+    const byPath = new Map(rows.map((row) => [row.path, row]));
+    expect(byPath.get('GAF > Roofing > Ridge Caps')?.parentId).toBe('roofing');
+    expect(byPath.get('GAF > Gutters > Guards')?.parentId).toBe(byPath.get('GAF > Gutters')?.id);
+    expect(byPath.get('GAF > Gutters')?.parentId).toBeNull();
+  });
+});
+
+describe('template upgrade diff', () => {
+  const isRemoved = removedPaths(new Set(paths(V1)), new Set(paths(V2)));
+  const added = flattenTemplateCategories('GAF', V2).filter((category) => !paths(V1).includes(category.path));
+  const same = (path: string) => path;
+
+  it('removes dropped categories with everything below them', () => {
+    expect(paths(V1).filter(isRemoved)).toEqual(['GAF > Roofing > Underlayment', 'GAF > Siding']);
+    expect(isRemoved('GAF > Siding > Vinyl')).toBe(true);
+    expect(isRemoved('GAF > Roofing > Shingles')).toBe(false);
+    expect(isRemoved('Owens Corning > Siding')).toBe(false);
+  });
+
+  it('keeps a path the new version still has below a dropped one', () => {
+    const moved = removedPaths(new Set(['GAF > Roofing', 'GAF > Roofing > Vents']), new Set(['GAF > Roofing > Vents']));
+    expect(moved('GAF > Roofing')).toBe(true);
+    expect(moved('GAF > Roofing > Vents')).toBe(false);
+    expect(moved('GAF > Roofing > Flashing')).toBe(true);
+  });
+
+  it('only grows the branches a vendor already carries', () => {
+    expect(nextVendorPaths(
+      ['GAF > Roofing', 'GAF > Roofing > Underlayment', 'GAF > Siding', 'Lumber'],
+      same,
+      isRemoved,
+      added,
+    )).toEqual(['GAF > Roofing', 'Lumber', 'GAF > Roofing > Ridge Caps', 'GAF > Gutters', 'GAF > Gutters > Guards']);
+  });
+
+  it('carries a rename into the vendor paths', () => {
+    const rename = (path: string) => path.replace(/^GAF > /, 'GAF Materials > ');
+    expect(nextVendorPaths(['GAF > Roofing > Shingles', 'Lumber'], rename, () => false, [])).toEqual([
+      'GAF Materials > Roofing > Shingles',
+      'Lumber',
+    ]);
+  });
+});
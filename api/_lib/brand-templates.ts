@@ -0,0 +1,154 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { db, runBatch } from './db';
+import { brands, brandCategories, brandTemplateVersions, insertBrandTemplateSchema } from './schema';
+import type { Brand, BrandCategory, BrandTemplate } from './schema';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { eq } from 'drizzle-orm';
+
+export interface TemplateCategoryNode {
+  name: string;
+  description?: string;
+  subcategories?: TemplateCategoryNode[];
+}
+
+const templateCategorySchema: z.ZodType<TemplateCategoryNode> = z.lazy(() =>
+  z.object({
+    name: z.string().trim().min(1, 'Template category name is required'),
+    description: z.string().optional(),
+    subcategories: z.array(templateCategorySchema).optional(),
+  })
+);
+
+// The generated insert schema only knows `template` as arbitrary JSON, so
+// swap in the real nested category shape before anything reaches the table.
+export const brandTemplateBodySchema = insertBrandTemplateSchema.extend({
+  template: z.object({ categories: z.array(templateCategorySchema) }),
+});
+
+export interface FlatTemplateCategory {
+  name: string;
+  description: string | null;
+  level: number;
+  path: string;
+  parentPath: string | null;
+}
+
+// Walks the nested template depth-first, producing brand-prefixed paths in the
+// same "GAF > Roofing > Shingles" form vendors store. Parents always come
+// before their children, and repeated sibling names collapse into one path.
+export function flattenTemplateCategories(
+  brandName: string,
+  categories: TemplateCategoryNode[],
+  parentPath: string | null = null,
+  level: number = 1,
+  seen: Set<string> = new Set(),
+): FlatTemplateCategory[] {
+  const result: FlatTemplateCategory[] = [];
+
+  for (const category of categories) {
+    const path = `${parentPath ?? brandName} > ${category.name.trim()}`;
+    if (!seen.has(path)) {
+      seen.add(path);
+      result.push({
+        name: category.name.trim(),
+        description: category.description ?? null,
+        level,
+        path,
+        parentPath,
+      });
+    }
+
+    if (category.subcategories?.length) {
+      result.push(...flattenTemplateCategories(brandName, category.subcategories, path, level + 1, seen));
+    }
+  }
+
+  return result;
+}
+
+// Records the template's current version in the history table. Safe to call
+// repeatedly; an existing snapshot for the same version is left alone.
+export function snapshotTemplateVersion(template: BrandTemplate, notes?: string) {
+  return db.insert(brandTemplateVersions)
+    .values({
+      templateId: template.id,
+      version: template.version ?? '1.0',
+      template: template.template,
+      notes: notes ?? null,
+    })
+    .onConflictDoNothing({ target: [brandTemplateVersions.templateId, brandTemplateVersions.version] });
+}
+
+// Assigns ids to the template categories a brand doesn't have yet. Ids are
+// generated up front so parent links can be resolved without a round trip
+// per level; existing rows are reused as parents.
+export function buildCategoryRows(
+  brand: Brand,
+  flat: FlatTemplateCategory[],
+  idsByPath: Map<string | null, string>,
+): (typeof brandCategories.$inferInsert)[] {
+  const rows: (typeof brandCategories.$inferInsert)[] = [];
+
+  for (const category of flat) {
+    if (idsByPath.has(category.path)) {
+      continue;
+    }
+    const id = randomUUID();
+    idsByPath.set(category.path, id);
+    rows.push({
+      id,
+      brandId: brand.id,
+      name: category.name,
+      description: category.description,
+      level: category.level,
+      parentId: category.parentPath ? idsByPath.get(category.parentPath) ?? null : null,
+      path: category.path,
+    });
+  }
+
+  return rows;
+}
+
+export function insertCategoryRows(rows: (typeof brandCategories.$inferInsert)[]) {
+  return db.insert(brandCategories)
+    .values(rows)
+    .onConflictDoNothing({ target: [brandCategories.brandId, brandCategories.path] })
+    .returning();
+}
+
+function setBrandTemplate(brand: Brand, template: BrandTemplate) {
+  return db.update(brands)
+    .set({ templateId: template.id, templateVersion: template.version, updatedAt: new Date() })
+    .where(eq(brands.id, brand.id))
+    .returning();
+}
+
+export interface ApplyTemplateResult {
+  brand: Brand;
+  created: BrandCategory[];
+  skipped: string[];
+}
+
+// Materializes a template's category tree as brandCategories rows for a brand.
+// Paths the brand already has are kept, so applying the same template twice
+// is a no-op.
+export async function applyTemplateToBrand(brand: Brand, template: BrandTemplate): Promise<ApplyTemplateResult> {
+  const flat = flattenTemplateCategories(brand.name, template.template?.categories ?? []);
+
+  const existing = await db.select({ id: brandCategories.id, path: brandCategories.path })
+    .from(brandCategories)
+    .where(eq(brandCategories.brandId, brand.id));
+  const idsByPath = new Map(existing.map((row) => [row.path, row.id]));
+
+  const skipped = flat.filter((category) => idsByPath.has(category.path)).map((category) => category.path);
+  const rows = buildCategoryRows(brand, flat, idsByPath);
+
+  const queries: BatchItem<'pg'>[] = [setBrandTemplate(brand, template), snapshotTemplateVersion(template)];
+  if (rows.length > 0) {
+    queries.push(insertCategoryRows(rows));
+  }
+  const [[updatedBrand], , created = []] = await runBatch(queries) as [Brand[], unknown, BrandCategory[]?];
+
+  return { brand: updatedBrand, created, skipped };
+}
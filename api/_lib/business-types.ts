@@ -0,0 +1,39 @@
+import { db } from './db';
+import { proCustomers } from './schema';
+import { and, isNull, sql } from 'drizzle-orm';
+
+// proCustomers.businessTypes stores business type *names*, so usage, renames
+// and merges all work against the array contents rather than an FK.
+
+export async function getBusinessTypeUsage(): Promise<Map<string, number>> {
+  const rows = await db.select({
+    name: sql<string>`t.name`,
+    count: sql<number>`count(*)::int`,
+  })
+    .from(sql`${proCustomers}, unnest(${proCustomers.businessTypes}) as t(name)`)
+    .where(isNull(proCustomers.deletedAt))
+    .groupBy(sql`t.name`);
+
+  return new Map(rows.map((row) => [row.name, row.count]));
+}
+
+export async function countBusinessTypeUsage(name: string): Promise<number> {
+  const [row] = await db.select({ count: sql<number>`count(*)::int` })
+    .from(proCustomers)
+    .where(and(sql`${name} = any(${proCustomers.businessTypes})`, isNull(proCustomers.deletedAt)));
+  return row?.count ?? 0;
+}
+
+// Replaces `from` with `to` in every customer's businessTypes array, keeping
+// the original order and dropping the duplicate when a customer had both.
+export function replaceBusinessTypeName(from: string, to: string) {
+  return db.update(proCustomers)
+    .set({
+      businessTypes: sql`array(
+        select u.name from unnest(array_replace(${proCustomers.businessTypes}, ${from}, ${to})) with ordinality as u(name, ord)
+        group by u.name order by min(u.ord)
+      )`,
+      updatedAt: new Date(),
+    })
+    .where(sql`${from} = any(${proCustomers.businessTypes})`);
+}
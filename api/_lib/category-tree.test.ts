@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { buildCategoryTree, planCategoryChange, type CategoryTree } from './category-tree';
+import type { Category } from './schema';
+
+function category(id: string, name: string, parentId: string | null, path: string, extra: Partial<Category> = {}): Category {
+  return {
+    id,
+    name,
+    description: null,
+    categoryType: 'generic',
+    brandId: null,
+    level: String(path.split(' > ').length),
+    parentId,
+    path,
+    subcategories: [],
+    createdAt: null,
+    updatedAt: null,
+    ...extra,
+  };
+}
+
+// Roofing > Shingles > Asphalt, Roofing > Vents, Siding, and GAF > Roofing
+function tree(): CategoryTree {
+  return buildCategoryTree([
+    category('roofing', 'Roofing', null, 'Roofing', { subcategories: ['Shingles', 'Vents'] }),
+    category('shingles', 'Shingles', 'roofing', 'Roofing > Shingles', { subcategories: ['Asphalt'] }),
+    category('asphalt', 'Asphalt', 'shingles', 'Roofing > Shingles > Asphalt'),
+    category('vents', 'Vents', 'roofing', 'Roofing > Vents'),
+    category('siding', 'Siding', null, 'Siding'),
+    category('gaf-roofing', 'Roofing', null, 'GAF > Roofing', { categoryType: 'branded', brandId: 'gaf', level: '1' }),
+  ], [{ id: 'gaf', name: 'GAF' }]);
+}
+
+async function plan(id: string, data: Record<string, unknown>) {
+  const loaded = tree();
+  const updates = await planCategoryChange(loaded.byId.get(id)!, data, loaded);
+  return Object.fromEntries(updates.map((update) => [update.id, update.values]));
+}
+
+describe('planCategoryChange', () => {
+  it('carries a rename down the subtree and into the parent list', async () => {
+    expect(await plan('shingles', { name: 'Shakes' })).toEqual({
+      shingles: { name: 'Shakes', path: 'Roofing > Shakes', level: '2' },
+      asphalt: { path: 'Roofing > Shakes > Asphalt', level: '3' },
+      roofing: { subcategories: ['Shakes', 'Vents'] },
+    });
+  });
+
+  it('recomputes paths and levels when a subtree moves', async () => {
+    expect(await plan('shingles', { parentId: 'siding' })).toEqual({
+      shingles: { parentId: 'siding', path: 'Siding > Shingles', level: '2' },
+      asphalt: { path: 'Siding > Shingles > Asphalt', level: '3' },
+      roofing: { subcategories: ['Vents'] },
+      siding: { subcategories: ['Shingles'] },
+    });
+    expect(await plan('shingles', { parentId: null })).toEqual({
+      shingles: { parentId: null, path: 'Shingles', level: '1' },
+      asphalt: { path: 'Shingles > Asphalt', level: '2' },
+      roofing: { subcategories: ['Vents'] },
+    });
+  });
+
+  it('ignores derived fields sent by the client', async () => {
+    expect(await plan('vents', { path: 'Elsewhere', level: '9', subcategories: ['X'] })).toEqual({
+      vents: { path: 'Roofing > Vents', level: '2' },
+    });
+  });
+
+  it('refuses to move a category under itself or its subcategories', async () => {
+    await expect(plan('roofing', { parentId: 'roofing' })).rejects.toThrow('cannot be moved under itself');
+    await expect(plan('roofing', { parentId: 'asphalt' })).rejects.toThrow('cannot be moved under itself');
+  });
+
+  it('keeps generic and branded trees apart', async () => {
+    await expect(plan('vents', { parentId: 'gaf-roofing' })).rejects.toThrow('Generic categories can only have generic parents');
+    await expect(plan('siding', { categoryType: 'branded', brandId: 'gaf', parentId: 'gaf-roofing' })).resolves.toEqual({
+      siding: {
+        categoryType: 'branded',
+        brandId: 'gaf',
+        parentId: 'gaf-roofing',
+        path: 'GAF > Roofing > Siding',
+        level: '2',
+      },
+      'gaf-roofing': { subcategories: ['Siding'] },
+    });
+  });
+
+  it('refuses to change the type of a category with subcategories', async () => {
+    await expect(plan('roofing', { categoryType: 'branded', brandId: 'gaf' })).rejects.toThrow('Move or remove its subcategories');
+  });
+});
@@ -0,0 +1,177 @@
+import { db, runBatch } from './db';
+import { brands, categories, type Category } from './schema';
+import { HttpError } from './resource-handler';
+import { eq } from 'drizzle-orm';
+
+// categories.path, level and subcategories are denormalized from parentId
+// and the names along the way. They are only computed here: a rename or
+// move rewrites the whole subtree in one batch, and every parent follows the
+// generic/branded rules in the schema comment.
+
+type Placement = Pick<Category, 'name' | 'categoryType' | 'brandId' | 'parentId'>;
+type Values = Record<string, unknown>;
+
+// Fields the server owns; anything a client sends for them is replaced
+const DERIVED_FIELDS = ['path', 'level', 'subcategories'] as const;
+
+export interface CategoryTree {
+  byId: Map<string, Category>;
+  brandNames: Map<string, string>;
+}
+
+export function buildCategoryTree(rows: Category[], brandRows: { id: string; name: string }[]): CategoryTree {
+  return {
+    byId: new Map(rows.map((row) => [row.id, row])),
+    brandNames: new Map(brandRows.map((brand) => [brand.id, brand.name])),
+  };
+}
+
+async function loadTree(): Promise<CategoryTree> {
+  const [rows, brandRows] = await Promise.all([
+    db.select().from(categories),
+    db.select({ id: brands.id, name: brands.name }).from(brands),
+  ]);
+  return buildCategoryTree(rows, brandRows);
+}
+
+function childrenOf(tree: CategoryTree, parentId: string): Category[] {
+  return Array.from(tree.byId.values()).filter((row) => row.parentId === parentId);
+}
+
+function depth(tree: CategoryTree, category: Category): number {
+  let level = 1;
+  for (let parent = category.parentId ? tree.byId.get(category.parentId) : undefined; parent;
+    parent = parent.parentId ? tree.byId.get(parent.parentId) : undefined) {
+    level++;
+  }
+  return level;
+}
+
+// The parent a category may be placed under, or null for a top-level one.
+function checkParent(tree: CategoryTree, node: Placement, id?: string): Category | null {
+  if (!node.parentId) return null;
+  const parent = tree.byId.get(node.parentId);
+  if (!parent) {
+    throw new HttpError(400, 'Parent category not found');
+  }
+  for (let ancestor: Category | undefined = parent; ancestor;
+    ancestor = ancestor.parentId ? tree.byId.get(ancestor.parentId) : undefined) {
+    if (ancestor.id === id) {
+      throw new HttpError(400, 'A category cannot be moved under itself or one of its subcategories');
+    }
+  }
+  if (node.categoryType === 'generic' && parent.categoryType !== 'generic') {
+    throw new HttpError(400, 'Generic categories can only have generic parents');
+  }
+  if (node.categoryType === 'branded' && (parent.categoryType !== 'branded' || parent.brandId !== node.brandId)) {
+    throw new HttpError(400, 'Branded categories can only have branded parents of the same brand');
+  }
+  return parent;
+}
+
+function pathFor(tree: CategoryTree, node: Placement, parent: Category | null): string {
+  if (parent) {
+    return `${parent.path ?? parent.name} > ${node.name}`;
+  }
+  if (node.categoryType === 'branded' && node.brandId) {
+    const brandName = tree.brandNames.get(node.brandId);
+    if (!brandName) {
+      throw new HttpError(400, 'Brand not found');
+    }
+    return `${brandName} > ${node.name}`;
+  }
+  return node.name;
+}
+
+function withoutDerived(data: Values): Values {
+  const values = { ...data };
+  for (const field of DERIVED_FIELDS) delete values[field];
+  return values;
+}
+
+// Path and level for a category about to be created.
+export async function placeNewCategory(data: Values): Promise<Values> {
+  const tree = await loadTree();
+  // The column defaults to generic; apply that before the parent checks
+  const values = { ...withoutDerived(data), categoryType: data.categoryType ?? 'generic' };
+  const node = values as unknown as Placement;
+  const parent = checkParent(tree, node);
+  return {
+    ...values,
+    path: pathFor(tree, node, parent),
+    level: String(parent ? depth(tree, parent) + 1 : 1),
+  };
+}
+
+export interface CategoryUpdate {
+  id: string;
+  values: Values;
+}
+
+// Every row a change to one category rewrites: the category itself, the
+// paths and levels below it, and the subcategory lists of its old and new
+// parents. The category's own update comes first. Works on the stored tree
+// unless given one.
+export async function planCategoryChange(existing: Category, data: Values, loaded?: CategoryTree): Promise<CategoryUpdate[]> {
+  const tree = loaded ?? await loadTree();
+  const values = withoutDerived(data);
+  const next = { ...existing, ...values } as Category;
+
+  const typeChanged = next.categoryType !== existing.categoryType || (next.brandId ?? null) !== (existing.brandId ?? null);
+  if (typeChanged && childrenOf(tree, existing.id).length > 0) {
+    throw new HttpError(409, 'Move or remove its subcategories before changing the category type or brand');
+  }
+
+  const parent = checkParent(tree, next, existing.id);
+  next.path = pathFor(tree, next, parent);
+  next.level = String(parent ? depth(tree, parent) + 1 : 1);
+  tree.byId.set(next.id, next);
+
+  const updates: CategoryUpdate[] = [{ id: next.id, values: { ...values, path: next.path, level: next.level } }];
+
+  const descend = (node: Category) => {
+    for (const child of childrenOf(tree, node.id)) {
+      const path = `${node.path ?? node.name} > ${child.name}`;
+      const level = String(Number(node.level) + 1);
+      const moved = { ...child, path, level };
+      tree.byId.set(child.id, moved);
+      if (path !== child.path || level !== child.level) {
+        updates.push({ id: child.id, values: { path, level } });
+      }
+      descend(moved);
+    }
+  };
+  descend(next);
+
+  const parentIds = new Set([existing.parentId, next.parentId].filter((id): id is string => !!id));
+  for (const parentId of Array.from(parentIds)) {
+    const names = childrenOf(tree, parentId).map((child) => child.name).sort((a, b) => a.localeCompare(b));
+    const current = tree.byId.get(parentId)?.subcategories ?? [];
+    if (names.join('\n') !== current.join('\n')) {
+      updates.push({ id: parentId, values: { subcategories: names } });
+    }
+  }
+
+  return updates;
+}
+
+// Applies a plan in one transaction and returns the changed category.
+export async function applyCategoryChange(updates: CategoryUpdate[]): Promise<Category> {
+  const now = new Date();
+  const [[updated]] = await runBatch(updates.map(({ id, values }) =>
+    db.update(categories).set({ ...values, updatedAt: now }).where(eq(categories.id, id)).returning(),
+  )) as Category[][];
+  return updated;
+}
+
+// Rewrites a parent's subcategory list after a child is added or removed.
+export async function refreshSubcategories(parentId: string | null, exceptId?: string): Promise<void> {
+  if (!parentId) return;
+  const children = await db.select({ id: categories.id, name: categories.name })
+    .from(categories)
+    .where(eq(categories.parentId, parentId));
+  const names = children.filter((child) => child.id !== exceptId)
+    .map((child) => child.name)
+    .sort((a, b) => a.localeCompare(b));
+  await db.update(categories).set({ subcategories: names, updatedAt: new Date() }).where(eq(categories.id, parentId));
+}
@@ -1,9 +1,36 @@
 import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
+import { getTableColumns, sql, type SQL } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import type { PgTable } from 'drizzle-orm/pg-core';
 
 if (!process.env.DATABASE_URL) {
   throw new Error('DATABASE_URL environment variable is not set');
 }
 
-const sql = neon(process.env.DATABASE_URL);
-export const db = drizzle(sql);
+export const db = drizzle(neon(process.env.DATABASE_URL));
+
+// The neon-http driver has no interactive transactions; a batch is sent as a
+// single request and runs in one transaction. This wraps db.batch so callers
+// can build the statement list dynamically.
+export async function runBatch(queries: BatchItem<'pg'>[]): Promise<unknown[]> {
+  if (queries.length === 0) {
+    return [];
+  }
+  return db.batch(queries as [BatchItem<'pg'>, ...BatchItem<'pg'>[]]);
+}
+
+// INSERT ... SELECT for use in a batch: the rows are written only if
+// `condition` holds when the statement runs, e.g. when an earlier statement
+// in the batch did update a parent row. drizzle's insert builder can't make
+// an insert conditional. Values are cast to their columns' types, since a
+// VALUES list would otherwise hand them over as text.
+export function insertWhere<TTable extends PgTable>(table: TTable, rows: TTable['$inferInsert'][], condition: SQL) {
+  const columns = getTableColumns(table);
+  const keys = Object.keys(rows[0]);
+  const values = rows.map((row) => sql`(${sql.join(keys.map((key) =>
+    sql`${sql.param((row as Record<string, unknown>)[key], columns[key])}::${sql.raw(columns[key].getSQLType())}`), sql`, `)})`);
+  return db.execute(sql`insert into ${table} (${sql.join(keys.map((key) => sql.identifier(columns[key].name)), sql`, `)})
+    select * from (values ${sql.join(values, sql`, `)}) as incoming
+    where ${condition}`);
+}
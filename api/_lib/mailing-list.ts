@@ -0,0 +1,182 @@
+import type { VercelResponse } from '@vercel/node';
+import type { PhoneContact, EmailContact } from './schema';
+
+export const MAILING_LIST_FORMATS = ['text', 'csv', 'vcard'] as const;
+export type MailingListFormat = typeof MAILING_LIST_FORMATS[number];
+
+export interface MailingListEntry {
+  name: string;
+  // Entries for a business rather than a person (vendors) leave the personal
+  // name fields empty so address books file them under the company.
+  isOrganization?: boolean;
+  company?: string | null;
+  title?: string | null;
+  phones: PhoneContact[];
+  emails: EmailContact[];
+  notes?: string | null;
+}
+
+export function parseMailingListFormat(value: unknown): MailingListFormat | null {
+  if (value === undefined || value === '') return 'text';
+  return MAILING_LIST_FORMATS.includes(value as MailingListFormat) ? value as MailingListFormat : null;
+}
+
+// Records created before the multi-contact fields existed only have the
+// single phone/email columns; fold those in ahead of the labelled entries.
+export function collectPhones(phones: PhoneContact[] | null, legacy?: string | null, legacyExtension?: string | null): PhoneContact[] {
+  const result = [...(phones ?? [])].filter((phone) => phone.number?.trim());
+  if (legacy?.trim() && !result.some((phone) => digits(phone.number) === digits(legacy))) {
+    result.unshift({ label: 'Main', number: legacy.trim(), extension: legacyExtension?.trim() || undefined });
+  }
+  return result;
+}
+
+export function collectEmails(emails: EmailContact[] | null, legacy?: string | null): EmailContact[] {
+  const result = [...(emails ?? [])].filter((email) => email.address?.trim());
+  if (legacy?.trim() && !result.some((email) => email.address.toLowerCase() === legacy.trim().toLowerCase())) {
+    result.unshift({ label: 'Main', address: legacy.trim() });
+  }
+  return result;
+}
+
+function digits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function formatPhone(phone: PhoneContact): string {
+  const cleaned = digits(phone.number);
+  const number = cleaned.length === 10
+    ? `(${cleaned.slice(0, 3)}) ${cleaned.slice(3, 6)}-${cleaned.slice(6)}`
+    : phone.number.trim();
+  return phone.extension ? `${number} ext. ${phone.extension}` : number;
+}
+
+function toPlainText(entries: MailingListEntry[]): string {
+  return entries.map((entry) => {
+    const lines = [entry.name];
+    if (entry.company && entry.company !== entry.name) lines.push(entry.company);
+    if (entry.title) lines.push(entry.title);
+    for (const phone of entry.phones) lines.push(`${phone.label || 'Phone'}: ${formatPhone(phone)}`);
+    for (const email of entry.emails) lines.push(`${email.label || 'Email'}: ${email.address}`);
+    return lines.join('\n');
+  }).join('\n\n') + '\n';
+}
+
+// A leading =, +, - or @ makes Excel read the cell as a formula; the quote
+// prefix keeps it as text.
+function csvField(value: string | null | undefined): string {
+  const text = value ?? '';
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+// Column names match Outlook's "Import from a CSV file" contact mapping.
+const OUTLOOK_HEADERS = [
+  'First Name', 'Last Name', 'Company', 'Job Title',
+  'E-mail Address', 'E-mail 2 Address', 'E-mail 3 Address',
+  'Business Phone', 'Business Phone 2', 'Mobile Phone', 'Business Fax', 'Notes',
+];
+
+function toOutlookCsv(entries: MailingListEntry[]): string {
+  const rows = entries.map((entry) => {
+    const [firstName, ...rest] = entry.isOrganization ? [''] : entry.name.trim().split(/\s+/);
+    const lastName = rest.join(' ');
+    const isMobile = (phone: PhoneContact) => /cell|mobile/i.test(phone.label);
+    const isFax = (phone: PhoneContact) => /fax/i.test(phone.label);
+    const business = entry.phones.filter((phone) => !isMobile(phone) && !isFax(phone));
+    const mobile = entry.phones.find(isMobile);
+    const fax = entry.phones.find(isFax);
+
+    return [
+      lastName ? firstName : '',
+      entry.isOrganization ? '' : lastName || entry.name,
+      entry.company ?? (entry.isOrganization ? entry.name : ''),
+      entry.title,
+      entry.emails[0]?.address,
+      entry.emails[1]?.address,
+      entry.emails[2]?.address,
+      business[0] && formatPhone(business[0]),
+      business[1] && formatPhone(business[1]),
+      mobile && formatPhone(mobile),
+      fax && formatPhone(fax),
+      entry.notes,
+    ].map((value) => csvField(value || '')).join(',');
+  });
+
+  return [OUTLOOK_HEADERS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// Escapes a property value. A bare CR would end the line early just like a
+// newline, so every line break becomes \n.
+function vCardText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\r\n?|\n/g, '\\n').replace(/([,;])/g, '\\$1');
+}
+
+// vCard 3.0 lines longer than 75 octets continue on the next line after a
+// single space. Breaks fall between characters, never inside a UTF-8 sequence.
+function foldVCardLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function vCardPhoneType(phone: PhoneContact): string {
+  if (/cell|mobile/i.test(phone.label)) return 'CELL';
+  if (/fax/i.test(phone.label)) return 'WORK,FAX';
+  if (/home/i.test(phone.label)) return 'HOME';
+  return 'WORK';
+}
+
+function toVCard(entries: MailingListEntry[]): string {
+  return entries.map((entry) => {
+    const [firstName, ...rest] = entry.isOrganization ? [''] : entry.name.trim().split(/\s+/);
+    const company = entry.company ?? (entry.isOrganization ? entry.name : null);
+    const lines = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      `FN:${vCardText(entry.name)}`,
+      `N:${vCardText(rest.join(' '))};${vCardText(firstName)};;;`,
+    ];
+    if (entry.isOrganization) lines.push('X-ABShowAs:COMPANY');
+    if (company) lines.push(`ORG:${vCardText(company)}`);
+    if (entry.title) lines.push(`TITLE:${vCardText(entry.title)}`);
+    for (const phone of entry.phones) {
+      const number = vCardText(phone.number.trim());
+      const extension = phone.extension?.trim();
+      lines.push(`TEL;TYPE=${vCardPhoneType(phone)}:${extension ? `${number};ext=${vCardText(extension)}` : number}`);
+    }
+    entry.emails.forEach((email, index) => {
+      lines.push(`EMAIL;TYPE=INTERNET${index === 0 ? ',PREF' : ''}:${vCardText(email.address.trim())}`);
+    });
+    if (entry.notes) lines.push(`NOTE:${vCardText(entry.notes)}`);
+    lines.push('END:VCARD');
+    return lines.map(foldVCardLine).join('\r\n');
+  }).join('\r\n') + '\r\n';
+}
+
+const FORMAT_OUTPUT: Record<MailingListFormat, { contentType: string; extension: string; render: (entries: MailingListEntry[]) => string }> = {
+  text: { contentType: 'text/plain; charset=utf-8', extension: 'txt', render: toPlainText },
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv', render: toOutlookCsv },
+  vcard: { contentType: 'text/vcard; charset=utf-8', extension: 'vcf', render: toVCard },
+};
+
+export function sendMailingList(res: VercelResponse, format: MailingListFormat, baseName: string, entries: MailingListEntry[]) {
+  const output = FORMAT_OUTPUT[format];
+  const date = new Date().toISOString().split('T')[0];
+  res.setHeader('Content-Type', output.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${baseName}-${date}.${output.extension}"`);
+  return res.status(200).send(output.render(entries));
+}
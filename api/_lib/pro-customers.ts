@@ -0,0 +1,49 @@
+import type { VercelRequest } from '@vercel/node';
+import { db } from './db';
+import { proCustomers } from './schema';
+import { notFound, queryParam } from './resource-handler';
+import { queryList, escapeLike } from './query';
+import { bestRelevance, isMatch, phoneRelevance, textRelevance } from './relevance';
+import { and, arrayOverlaps, eq, inArray, isNull, or, sql, type SQL } from 'drizzle-orm';
+
+// Child records (contacts, properties) must point at an existing customer
+// that isn't in the trash.
+export async function assertProCustomerExists(proCustomerId: string): Promise<void> {
+  const [customer] = await db.select({ id: proCustomers.id }).from(proCustomers)
+    .where(and(eq(proCustomers.id, proCustomerId), isNull(proCustomers.deletedAt)));
+  if (!customer) {
+    throw notFound('Customer');
+  }
+}
+
+// Query-param filters shared by the pro customer list and its mailing list.
+
+export function proCustomerSearchRank(search: string | undefined): SQL<number> | undefined {
+  const term = search?.trim();
+  if (!term) return undefined;
+  return bestRelevance([
+    textRelevance(proCustomers.businessName, term),
+    [textRelevance(proCustomers.primaryContactName, term), 0.9],
+    [textRelevance(proCustomers.lowesProAccountNumber, term), 0.9],
+    [textRelevance(proCustomers.primaryContactEmail, term), 0.6],
+    phoneRelevance(term, [proCustomers.primaryContactMobile], proCustomers.phones),
+  ]);
+}
+
+export function proCustomerFilters(req: VercelRequest): (SQL | undefined)[] {
+  const search = queryParam(req, 'search');
+  const trades = queryList(req.query.trade);
+  const businessTypes = queryList(req.query.businessType);
+  const contactMethods = queryList(req.query.preferredContactMethod);
+  const rank = proCustomerSearchRank(search);
+  const pattern = search ? `%${escapeLike(search.trim())}%` : undefined;
+  return [
+    rank && pattern ? or(
+      isMatch(rank),
+      sql`exists (select 1 from unnest(${proCustomers.trades}) as t(name) where t.name ilike ${pattern})`,
+    ) : undefined,
+    trades.length > 0 ? arrayOverlaps(proCustomers.trades, trades) : undefined,
+    businessTypes.length > 0 ? arrayOverlaps(proCustomers.businessTypes, businessTypes) : undefined,
+    contactMethods.length > 0 ? inArray(proCustomers.preferredContactMethod, contactMethods) : undefined,
+  ];
+}
@@ -0,0 +1,13 @@
+import type { VercelRequest } from '@vercel/node';
+
+// Repeated query params (?category=a&category=b) arrive as arrays; single ones
+// as strings. Normalizes both to a list of non-empty values.
+export function queryList(value: VercelRequest['query'][string]): string[] {
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+  return values.map((item) => item.trim()).filter(Boolean);
+}
+
+// Escapes LIKE wildcards so user input matches literally.
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
@@ -0,0 +1,142 @@
+import { readFileSync } from 'fs';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm';
+import { sql, type SQL } from 'drizzle-orm';
+import { json, PgDialect, pgTable, text } from 'drizzle-orm/pg-core';
+import {
+  bestRelevance,
+  isMatch,
+  MATCH_THRESHOLD,
+  phoneRelevance,
+  textRelevance,
+  WORD_SIMILARITY_THRESHOLD,
+} from './relevance';
+import type { PhoneContact } from './schema';
+
+// Runs the search SQL against an in-process Postgres (PGlite) with pg_trgm
+// installed by migrations/0003, the same way the list endpoints use it.
+
+const listings = pgTable('listings', {
+  name: text('name').notNull(),
+  phone: text('phone'),
+  phones: json('phones').$type<PhoneContact[]>(),
+});
+
+const ROWS: { name: string; phone?: string; phones?: PhoneContact[] }[] = [
+  { name: 'Beacon' },
+  { name: 'Beacon Roofing Supply', phone: '555-123-4567' },
+  { name: 'ABC Beacon Supply' },
+  { name: 'Superbeacon Lighting' },
+  { name: 'Zenith Electric', phones: [{ label: 'Office', number: '(312) 555-0199' }] },
+  { name: 'Ferguson Plumbing', phone: '(708) 555 2020' },
+];
+
+const migration = (file: string) => readFileSync(new URL(`../../migrations/${file}`, import.meta.url), 'utf8');
+
+let db: PGlite;
+const dialect = new PgDialect();
+
+async function scores(score: SQL<number>, where?: SQL): Promise<Record<string, number>> {
+  const query = dialect.sqlToQuery(sql`
+    select ${listings.name} as name, ${score} as score from ${listings}
+    ${where ? sql`where ${where}` : sql``}`);
+  const result = await db.query<{ name: string; score: number }>(query.sql, query.params);
+  return Object.fromEntries(result.rows.map((row) => [row.name, Number(row.score)]));
+}
+
+// What the list endpoints return for a search term: matching names, best first
+async function search(term: string): Promise<string[]> {
+  const score = bestRelevance([
+    textRelevance(listings.name, term),
+    phoneRelevance(term, [listings.phone], listings.phones),
+  ]);
+  const matches = await scores(score, isMatch(score));
+  return Object.keys(matches).sort((a, b) => matches[b] - matches[a]);
+}
+
+beforeAll(async () => {
+  db = new PGlite({ extensions: { pg_trgm } });
+  await db.exec(migration('0003_trigram_search.sql'));
+  // migrations/0011 sets this for the database; PGlite has one session
+  await db.exec(`set pg_trgm.word_similarity_threshold = ${WORD_SIMILARITY_THRESHOLD}`);
+  await db.exec('create table listings (name text not null, phone text, phones json)');
+  for (const row of ROWS) {
+    await db.query('insert into listings (name, phone, phones) values ($1, $2, $3)', [
+      row.name,
+      row.phone ?? null,
+      row.phones ? JSON.stringify(row.phones) : null,
+    ]);
+  }
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+describe('textRelevance', () => {
+  it('ranks exact, prefix, word and substring matches in that order', async () => {
+    const result = await scores(textRelevance(listings.name, 'Beacon'));
+    expect(result['Beacon']).toBe(1);
+    expect(result['Beacon Roofing Supply']).toBe(0.95);
+    expect(result['ABC Beacon Supply']).toBe(0.9);
+    expect(result['Superbeacon Lighting']).toBe(0.8);
+  });
+
+  it('finds "Beacon" from the typo "Becon"', async () => {
+    const result = await scores(textRelevance(listings.name, 'Becon'));
+    expect(result['Beacon Roofing Supply']).toBeGreaterThanOrEqual(MATCH_THRESHOLD);
+    expect(result['Beacon Roofing Supply']).toBeLessThan(0.8);
+    expect(await search('Becon')).toContain('Beacon Roofing Supply');
+  });
+
+  it('ignores case', async () => {
+    const result = await scores(textRelevance(listings.name, 'BEACON roofing'));
+    expect(result['Beacon Roofing Supply']).toBe(0.95);
+  });
+
+  it('leaves unrelated names below the threshold', async () => {
+    const result = await scores(textRelevance(listings.name, 'Becon'));
+    expect(result['Zenith Electric']).toBeLessThan(MATCH_THRESHOLD);
+    expect(await search('Becon')).not.toContain('Zenith Electric');
+  });
+});
+
+describe('phoneRelevance', () => {
+  it('matches on digits whatever the formatting', async () => {
+    expect(await search('(555) 123')).toEqual(['Beacon Roofing Supply']);
+    expect(await search('708-555-2020')).toEqual(['Ferguson Plumbing']);
+  });
+
+  it('matches numbers in the phones list', async () => {
+    expect(await search('312.555.0199')).toEqual(['Zenith Electric']);
+  });
+
+  it('needs at least three digits', async () => {
+    const result = await scores(phoneRelevance('55', [listings.phone], listings.phones));
+    expect(Object.values(result).every((score) => score === 0)).toBe(true);
+  });
+});
+
+describe('isMatch', () => {
+  const TERMS = ['Beacon', 'Becon', 'bacon', 'Roofing', 'Suply', 'Lightning', 'Zenit', 'Plumming', '555', '(312) 555', 'xyz'];
+
+  it('keeps exactly the rows scoring at or above MATCH_THRESHOLD', async () => {
+    for (const term of TERMS) {
+      const score = bestRelevance([
+        textRelevance(listings.name, term),
+        phoneRelevance(term, [listings.phone], listings.phones),
+      ]);
+      const all = await scores(score);
+      const expected = Object.keys(all).filter((name) => all[name] >= MATCH_THRESHOLD).sort();
+      expect(Object.keys(await scores(score, isMatch(score))).sort(), term).toEqual(expected);
+    }
+  });
+
+  it('uses a word similarity threshold the candidates can rely on', () => {
+    expect(WORD_SIMILARITY_THRESHOLD * 0.75).toBeLessThanOrEqual(MATCH_THRESHOLD + Number.EPSILON);
+    expect(migration('0011_trigram_indexes.sql')).toContain(
+      `pg_trgm.word_similarity_threshold = ${WORD_SIMILARITY_THRESHOLD}`,
+    );
+  });
+});
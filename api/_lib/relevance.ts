@@ -0,0 +1,85 @@
+import { sql, type SQL } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import { escapeLike } from './query';
+
+// Typo-tolerant matching for the list searches and /api/search. Scores run
+// from 0 to 1: literal matches score highest, and anything else falls back
+// to pg_trgm word similarity (migrations/0003), so "Becon" still finds
+// "Beacon Roofing Supply".
+//
+// Scores can't use an index, so each score also carries a candidate
+// condition that can: LIKE and the `<%` operator, both served by the trigram
+// GIN indexes in migrations/0011. isMatch() filters on the candidates first
+// and scores only the rows they let through.
+
+type Column = PgColumn | SQL;
+
+// Rows scoring below this are not search matches.
+export const MATCH_THRESHOLD = 0.3;
+
+// pg_trgm.word_similarity_threshold, which decides what `<%` lets through.
+// migrations/0011 sets it for the database. A fuzzy-only match scores
+// similarity * 0.75, so this must stay at or below MATCH_THRESHOLD / 0.75 for
+// the candidates to cover every match.
+export const WORD_SIMILARITY_THRESHOLD = 0.4;
+
+// The indexable condition behind each score built here
+const candidates = new WeakMap<SQL, SQL>();
+
+function withCandidate(score: SQL<number>, candidate: SQL): SQL<number> {
+  candidates.set(score, candidate);
+  return score;
+}
+
+// Same rule as stripPhoneFormatting in src/lib/phone-utils.ts: digits only.
+export function phoneDigits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+export function textRelevance(column: Column, term: string): SQL<number> {
+  const lower = term.toLowerCase();
+  const escaped = escapeLike(lower);
+  const candidate = sql`(lower(${column}) like ${`%${escaped}%`} or ${lower} <% lower(${column}))`;
+  return withCandidate(sql<number>`case
+    when lower(${column}) = ${lower} then 1.0
+    when lower(${column}) like ${`${escaped}%`} then 0.95
+    when lower(${column}) like ${`% ${escaped}%`} then 0.9
+    when lower(${column}) like ${`%${escaped}%`} then 0.8
+    else coalesce(word_similarity(${lower}, lower(${column})), 0) * 0.75 end`, candidate);
+}
+
+// Phone numbers compare on digits alone, so "(555) 123" finds "555-123-4567".
+// Covers the legacy single columns and the phones JSON list. Fewer than
+// three digits never matches.
+export function phoneRelevance(term: string, columns: Column[], phonesJson?: Column): SQL<number> {
+  const digits = phoneDigits(term);
+  if (digits.length < 3) return withCandidate(sql<number>`0`, sql`false`);
+  const pattern = `%${digits}%`;
+  // Written exactly as the expression indexes in migrations/0011
+  const matches = columns.map((column) => sql`regexp_replace(coalesce(${column}, ''), '\\D', '', 'g') like ${pattern}`);
+  if (phonesJson) {
+    matches.push(sql`exists (
+      select 1 from json_array_elements(coalesce(${phonesJson}, '[]'::json)) as p(phone)
+      where regexp_replace(coalesce(p.phone->>'number', ''), '\\D', '', 'g') like ${pattern}
+    )`);
+  }
+  const matched = sql`(${sql.join(matches, sql` or `)})`;
+  return withCandidate(sql<number>`case when ${matched} then 0.9 else 0 end`, matched);
+}
+
+// Best score across fields, each scaled by how much the field matters.
+export function bestRelevance(scores: (SQL<number> | [SQL<number>, number])[]): SQL<number> {
+  const unweighted = scores.map((score) => Array.isArray(score) ? score[0] : score);
+  const weighted = scores.map((score) => Array.isArray(score) ? sql`${score[0]} * ${score[1]}` : score);
+  const parts = unweighted.map((score) => candidates.get(score));
+  const best = sql<number>`greatest(${sql.join(weighted, sql`, `)})::float8`;
+  // Weights only lower a score, so any part's candidate still covers it
+  return parts.every(Boolean) ? withCandidate(best, sql`(${sql.join(parts as SQL[], sql` or `)})`) : best;
+}
+
+export function isMatch(score: SQL<number>): SQL {
+  const candidate = candidates.get(score);
+  return candidate
+    ? sql`(${candidate} and ${score} >= ${MATCH_THRESHOLD})`
+    : sql`${score} >= ${MATCH_THRESHOLD}`;
+}
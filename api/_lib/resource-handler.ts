@@ -0,0 +1,469 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { ZodError, type z, type ZodTypeAny } from 'zod';
+import { db } from './db';
+import { findAuditEntry, recordAudit, type AuditAction, type AuditEntityType } from './audit';
+import { hasSyncToken, requireUser } from './auth';
+import { and, asc, desc, eq, getTableColumns, isNull, sql, type InferSelectModel, type SQL } from 'drizzle-orm';
+import type { PgColumn, PgTable } from 'drizzle-orm/pg-core';
+
+// Shared plumbing for every api/ handler: CORS, sign-in, method dispatch, and
+// one error shape. Errors are always `{ error: string, ...details }`; validation
+// failures add zod's `fieldErrors` and `formErrors`.
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+export type RouteHandler = (req: VercelRequest, res: VercelResponse) => unknown;
+
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function notFound(name: string): HttpError {
+  return new HttpError(404, `${name} not found`);
+}
+
+export function validationError(error: ZodError): HttpError {
+  const { fieldErrors, formErrors } = error.flatten();
+  return new HttpError(400, 'Validation failed', { fieldErrors, formErrors });
+}
+
+export function parseBody<S extends ZodTypeAny>(schema: S, body: unknown): z.infer<S> {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    throw validationError(parsed.error);
+  }
+  return parsed.data;
+}
+
+// Single-valued query param; repeated params resolve to the first value.
+export function queryParam(req: VercelRequest, name: string): string | undefined {
+  const value = req.query[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first ? first : undefined;
+}
+
+function sendError(res: VercelResponse, label: string, error: unknown) {
+  if (error instanceof HttpError) {
+    return res.status(error.status).json({ error: error.message, ...error.details });
+  }
+  if (error instanceof ZodError) {
+    const { status, message, details } = validationError(error);
+    return res.status(status).json({ error: message, ...details });
+  }
+  console.error(`${label} API error:`, error);
+  return res.status(500).json({ error: 'Internal server error' });
+}
+
+export interface ApiHandlerOptions {
+  // Skip the session check; only the sign-in endpoints and the health check
+  // are public.
+  anonymous?: boolean;
+  // Also accept SYNC_TOKEN as a bearer token in place of a session, for
+  // server-to-server sync (see hasSyncToken in auth.ts).
+  syncToken?: boolean;
+}
+
+// The app is served from the API's own origin, which needs no CORS headers.
+// Other origins that may call the API with the session cookie are listed,
+// comma separated, in ALLOWED_ORIGINS.
+function allowedOrigin(req: VercelRequest): string | undefined {
+  const origin = req.headers.origin;
+  const allowed = (process.env.ALLOWED_ORIGINS ?? '').split(',').map((entry) => entry.trim()).filter(Boolean);
+  return origin && allowed.includes(origin) ? origin : undefined;
+}
+
+// Wraps per-method handlers with CORS, OPTIONS, the session check, 405 and
+// error handling. Handlers throw HttpError for expected failures rather than
+// writing the response themselves.
+export function createApiHandler(
+  label: string,
+  handlers: Partial<Record<HttpMethod, RouteHandler>>,
+  options: ApiHandlerOptions = {},
+) {
+  const methods = Object.keys(handlers) as HttpMethod[];
+
+  return async function handler(req: VercelRequest, res: VercelResponse) {
+    const origin = allowedOrigin(req);
+    res.setHeader('Vary', 'Origin');
+    if (origin) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Access-Control-Allow-Credentials', 'true');
+      res.setHeader('Access-Control-Allow-Methods', [...methods, 'OPTIONS'].join(', '));
+      res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, If-Match');
+      res.setHeader('Access-Control-Expose-Headers', 'ETag');
+    }
+
+    if (req.method === 'OPTIONS') {
+      return res.status(origin ? 200 : 403).end();
+    }
+
+    const route = handlers[req.method as HttpMethod];
+    if (!route) {
+      res.setHeader('Allow', methods.join(', '));
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    try {
+      if (!options.anonymous && !(options.syncToken && hasSyncToken(req))) {
+        await requireUser(req);
+      }
+      await route(req, res);
+    } catch (error) {
+      sendError(res, label, error);
+    }
+  };
+}
+
+type ResourceTable = PgTable & { id: PgColumn };
+type Values = Record<string, unknown>;
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+}
+
+export const MAX_PAGE_SIZE = 200;
+
+function parsePositiveInt(req: VercelRequest, name: string): number | undefined {
+  const raw = queryParam(req, name);
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new HttpError(400, `${name} must be a positive integer`);
+  }
+  return value;
+}
+
+// ?limit for endpoints that return a capped top-N: a positive integer, at
+// most `max`, defaulting to `fallback`.
+export function parseLimit(req: VercelRequest, fallback: number, max: number): number {
+  return Math.min(parsePositiveInt(req, 'limit') ?? fallback, max);
+}
+
+// Offset pagination is opt-in: without page or pageSize the list endpoints
+// return a plain array, which the dropdowns and counts rely on.
+export function parsePagination(req: VercelRequest): { page: number; pageSize: number } | null {
+  const page = parsePositiveInt(req, 'page');
+  const pageSize = parsePositiveInt(req, 'pageSize');
+  if (page === undefined && pageSize === undefined) {
+    return null;
+  }
+  return { page: page ?? 1, pageSize: Math.min(pageSize ?? 50, MAX_PAGE_SIZE) };
+}
+
+// ?sort=<field>&order=asc|desc, restricted to the fields a resource exposes.
+export function parseSort(
+  req: VercelRequest,
+  fields: Record<string, PgColumn | SQL>,
+  fallback: { field: string; order: SortOrder },
+): SQL {
+  const field = queryParam(req, 'sort') ?? fallback.field;
+  const order = queryParam(req, 'order') ?? (field === fallback.field ? fallback.order : 'asc');
+  if (!(field in fields)) {
+    throw new HttpError(400, `sort must be one of ${Object.keys(fields).join(', ')}`);
+  }
+  if (order !== 'asc' && order !== 'desc') {
+    throw new HttpError(400, 'order must be asc or desc');
+  }
+  return order === 'asc' ? asc(fields[field]) : desc(fields[field]);
+}
+
+export interface ResourceConfig<TTable extends ResourceTable> {
+  // Singular display name used in messages, e.g. "Vendor" -> "Vendor not found"
+  name: string;
+  table: TTable;
+  insertSchema: ZodTypeAny;
+  // Defaults to insertSchema.partial(); required when insertSchema is refined
+  updateSchema?: ZodTypeAny;
+  // Conditions for the list endpoint, built from query params; undefined
+  // entries are skipped
+  filters?: (req: VercelRequest) => Promise<(SQL | undefined)[]> | (SQL | undefined)[];
+  // Fields accepted by ?sort=, keyed by the names the UI uses
+  sortFields?: Record<string, PgColumn | SQL>;
+  defaultSort?: { field: string; order: SortOrder };
+  // How well each row matches ?search=, or undefined when not searching.
+  // Adds `score` to list rows, enables ?sort=relevance and becomes the
+  // default order while a search is active.
+  rank?: (req: VercelRequest) => SQL<number> | undefined;
+  // Shapes the rows of a list response
+  presentList?: (rows: InferSelectModel<TTable>[]) => Promise<unknown[]> | unknown[];
+  // Replaces the list endpoint; listRecords runs the standard one
+  list?: (req: VercelRequest, listRecords: () => Promise<unknown>) => Promise<unknown>;
+  // Shapes a single record for GET and for create/update responses
+  present?: (row: InferSelectModel<TTable>) => Promise<unknown> | unknown;
+  beforeCreate?: (data: Values, req: VercelRequest) => Promise<Values> | Values;
+  create?: (data: Values) => Promise<InferSelectModel<TTable>>;
+  afterCreate?: (row: InferSelectModel<TTable>) => Promise<void> | void;
+  beforeUpdate?: (data: Values, existing: InferSelectModel<TTable>, req: VercelRequest) => Promise<Values> | Values;
+  // With `concurrency`, only writes while the row is still at the version
+  // read (see unchangedSince) and returns nothing when it has moved on.
+  update?: (existing: InferSelectModel<TTable>, data: Values) => Promise<InferSelectModel<TTable> | undefined>;
+  beforeDelete?: (existing: InferSelectModel<TTable>, req: VercelRequest) => Promise<void> | void;
+  delete?: (existing: InferSelectModel<TTable>, req: VercelRequest) => Promise<void>;
+  // Records creates, updates and deletes in the audit log, named by `label`.
+  // Snapshots use the presented record, so derived fields such as a vendor's
+  // categories and brands are diffed too. Also enables POST ?id=&restore=.
+  audit?: { entityType: AuditEntityType; label: (row: InferSelectModel<TTable>) => string };
+  // DELETE sets the table's deletedAt instead of removing the row, and
+  // trashed rows act as missing here. /api/trash restores and purges them.
+  // A custom `delete` still runs in place of the default, e.g. to trash
+  // dependent rows along with the record.
+  softDelete?: boolean;
+  // Updates must name the version they were made against, as an If-Match
+  // header or an `updatedAt` body field (428 without one). A stale version is
+  // refused with 409 and the current record as `current`. Single-record
+  // responses carry the version as an ETag.
+  concurrency?: boolean;
+}
+
+// Matches a row whose updatedAt is still `version`, compared to the
+// millisecond as versions are reported. For updates under `concurrency`.
+export function unchangedSince(column: PgColumn, version: Date | null): SQL {
+  return version
+    ? sql`date_trunc('milliseconds', ${column}) = ${version.toISOString()}::timestamp`
+    : isNull(column);
+}
+
+// Standard REST handler for one table. The same handler serves both
+// api/<resource>/index.ts (list/create, plus ?id= for single records) and
+// api/<resource>/[id].ts, since Vercel passes the path segment as query.id.
+export function createResourceHandler<TTable extends ResourceTable>(config: ResourceConfig<TTable>) {
+  type Row = InferSelectModel<TTable>;
+  const { name, table } = config;
+  const columns = getTableColumns(table) as Record<string, PgColumn>;
+  const updateSchema = config.updateSchema ?? (config.insertSchema as z.AnyZodObject).partial();
+  const label = name;
+  const sortFields = config.sortFields ?? (columns.createdAt ? { createdAt: columns.createdAt } : {});
+  const defaultSort = config.defaultSort ?? { field: 'createdAt', order: 'desc' as const };
+
+  const notTrashed = config.softDelete ? isNull(columns.deletedAt) : undefined;
+
+  async function findById(id: string): Promise<Row> {
+    const [row] = await db.select().from(table as PgTable).where(and(eq(table.id, id), notTrashed));
+    if (!row) {
+      throw notFound(name);
+    }
+    return row as Row;
+  }
+
+  const presentRow = async (row: Row) => config.present ? config.present(row) : row;
+
+  async function audit(action: AuditAction, row: Row, before: unknown, after: unknown, restoredFrom?: string) {
+    if (!config.audit) return;
+    await recordAudit({
+      entityType: config.audit.entityType,
+      entityId: (row as Values).id as string,
+      entityName: config.audit.label(row),
+      action,
+      before,
+      after,
+      restoredFrom,
+    });
+  }
+
+  const versionOf = (row: Row) => ((row as Values).updatedAt as Date | null)?.toISOString();
+
+  const sendRecord = async (res: VercelResponse, status: number, row: Row, presented?: unknown) => {
+    const version = config.concurrency ? versionOf(row) : undefined;
+    if (version) {
+      res.setHeader('ETag', `"${version}"`);
+    }
+    return res.status(status).json(presented ?? await presentRow(row));
+  };
+
+  function expectedVersion(req: VercelRequest): string | undefined {
+    const header = req.headers['if-match'];
+    const value = (Array.isArray(header) ? header[0] : header) ?? req.body?.updatedAt;
+    return typeof value === 'string' && value ? value.replace(/^W\//, '').replace(/"/g, '') : undefined;
+  }
+
+  async function assertCurrentVersion(req: VercelRequest, existing: Row) {
+    const expected = expectedVersion(req);
+    if (!expected) {
+      throw new HttpError(428, `${name} updates need an If-Match header or updatedAt`);
+    }
+    if (Number.isNaN(Date.parse(expected))) {
+      throw new HttpError(400, 'If-Match must be the record\'s updatedAt');
+    }
+    const current = versionOf(existing);
+    // Rows from before updatedAt was kept have no version to compare
+    if (current && new Date(expected).getTime() !== new Date(current).getTime()) {
+      throw new HttpError(409, `${name} was changed by someone else`, { current: await presentRow(existing) });
+    }
+  }
+
+  async function update(req: VercelRequest, res: VercelResponse, id: string) {
+    return save(req, res, id, parseBody(updateSchema, req.body));
+  }
+
+  // Puts a record back the way an audit entry's snapshot has it. The snapshot
+  // goes through the update schema and hooks like any edit, and the restore
+  // is audited in its own right.
+  async function restore(req: VercelRequest, res: VercelResponse, id: string, entryId: string) {
+    if (!config.audit) {
+      throw new HttpError(405, 'Method not allowed');
+    }
+    const entry = await findAuditEntry(entryId);
+    if (!entry || entry.entityType !== config.audit.entityType || entry.entityId !== id) {
+      throw notFound('Version');
+    }
+    if (!entry.snapshot) {
+      throw new HttpError(400, 'That version has no snapshot to restore');
+    }
+    return save(req, res, id, parseBody(updateSchema, entry.snapshot), entry.id);
+  }
+
+  async function save(req: VercelRequest, res: VercelResponse, id: string, input: Values, restoredFrom?: string) {
+    let data = input;
+    const existing = await findById(id);
+    if (config.concurrency && !restoredFrom) {
+      await assertCurrentVersion(req, existing);
+    }
+    const before = config.audit ? await presentRow(existing) : undefined;
+    if (config.beforeUpdate) {
+      data = await config.beforeUpdate(data, existing, req);
+    }
+
+    let updated: Row | undefined;
+    if (config.update) {
+      updated = await config.update(existing, data);
+    } else {
+      const values = columns.updatedAt ? { ...data, updatedAt: new Date() } : data;
+      // The version is checked in the write itself, so an update that
+      // landed after the row was read wins
+      const unchanged = config.concurrency ? unchangedSince(columns.updatedAt, (existing as Values).updatedAt as Date | null) : undefined;
+      [updated] = await db.update(table).set(values as any).where(and(eq(table.id, id), unchanged)).returning() as Row[];
+    }
+    if (!updated) {
+      if (!config.concurrency) {
+        throw notFound(name);
+      }
+      // Deleted since it was read (404), or changed by someone else
+      const current = await findById(id);
+      throw new HttpError(409, `${name} was changed by someone else`, { current: await presentRow(current) });
+    }
+    const presented = await presentRow(updated);
+    await audit(restoredFrom ? 'restore' : 'update', updated, before, presented, restoredFrom);
+    return sendRecord(res, 200, updated, presented);
+  }
+
+  // Filtered, sorted list; paginated into a Page when ?page or ?pageSize is set
+  async function listRecords(req: VercelRequest): Promise<unknown> {
+    const conditions = [notTrashed, ...(config.filters ? await config.filters(req) : [])];
+    const where = and(...conditions.filter((condition): condition is SQL => condition !== undefined));
+    const rank = config.rank?.(req);
+    const fields = rank ? { ...sortFields, relevance: rank } : sortFields;
+    const fallback = rank ? { field: 'relevance', order: 'desc' as const } : defaultSort;
+    const orderBy = fallback.field in fields
+      ? [parseSort(req, fields, fallback), asc(table.id)]
+      : [asc(table.id)];
+    const pagination = parsePagination(req);
+
+    const query = (rank ? db.select({ ...columns, score: rank }) : db.select())
+      .from(table as PgTable).where(where).orderBy(...orderBy);
+    const present = async (rows: Row[]) => config.presentList ? config.presentList(rows) : rows;
+
+    if (!pagination) {
+      return present(await query as Row[]);
+    }
+
+    const { page, pageSize } = pagination;
+    const [rows, [{ total }]] = await Promise.all([
+      query.limit(pageSize).offset((page - 1) * pageSize),
+      db.select({ total: sql<number>`count(*)::int` }).from(table as PgTable).where(where),
+    ]);
+    const result: Page<unknown> = {
+      items: await present(rows as Row[]),
+      total,
+      page,
+      pageSize,
+      pageCount: Math.ceil(total / pageSize),
+    };
+    return result;
+  }
+
+  const withId = (route: (req: VercelRequest, res: VercelResponse, id: string) => unknown): RouteHandler =>
+    (req, res) => {
+      const id = queryParam(req, 'id');
+      if (!id) {
+        throw new HttpError(400, `${name} ID is required`);
+      }
+      return route(req, res, id);
+    };
+
+  return createApiHandler(label, {
+    GET: async (req, res) => {
+      const id = queryParam(req, 'id');
+      if (id) {
+        return sendRecord(res, 200, await findById(id));
+      }
+
+      const result = config.list
+        ? await config.list(req, () => listRecords(req))
+        : await listRecords(req);
+      return res.status(200).json(result);
+    },
+
+    POST: async (req, res) => {
+      const id = queryParam(req, 'id');
+      if (id) {
+        const entryId = queryParam(req, 'restore');
+        if (!entryId) {
+          throw new HttpError(405, 'Method not allowed');
+        }
+        return restore(req, res, id, entryId);
+      }
+
+      let data: Values = parseBody(config.insertSchema, req.body);
+      if (config.beforeCreate) {
+        data = await config.beforeCreate(data, req);
+      }
+
+      let created: Row;
+      if (config.create) {
+        created = await config.create(data);
+      } else {
+        [created] = await db.insert(table).values(data as any).returning() as Row[];
+      }
+      if (config.afterCreate) {
+        await config.afterCreate(created);
+      }
+      const presented = await presentRow(created);
+      await audit('create', created, undefined, presented);
+      return sendRecord(res, 201, created, presented);
+    },
+
+    PUT: withId(update),
+    PATCH: withId(update),
+
+    DELETE: withId(async (req, res, id) => {
+      const existing = await findById(id);
+      if (config.beforeDelete) {
+        await config.beforeDelete(existing, req);
+      }
+      const before = config.audit ? await presentRow(existing) : undefined;
+      if (config.delete) {
+        await config.delete(existing, req);
+      } else if (config.softDelete) {
+        // updatedAt moves too, so a sync carries the delete to other copies
+        const now = new Date();
+        await db.update(table).set({ deletedAt: now, updatedAt: now } as any).where(eq(table.id, id));
+      } else {
+        await db.delete(table).where(eq(table.id, id));
+      }
+      await audit('delete', existing, before, undefined);
+      return res.status(200).json({ success: true });
+    }),
+  });
+}
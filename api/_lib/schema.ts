@@ -15,6 +15,11 @@ export interface EmailContact {
   address: string;
 }
 
+export interface AuditFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
 export const vendors = pgTable("vendors", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   vendorNumber: varchar("vendor_number").unique(),
@@ -25,12 +30,18 @@ export const vendors = pgTable("vendors", {
   fax: text("fax"),
   phones: json("phones").$type<PhoneContact[]>().default([]),
   emails: json("emails").$type<EmailContact[]>().default([]),
+  // Legacy category strings that match no category row; real assignments
+  // live in vendor_categories
   categories: json("categories").$type<string[]>().default([]),
+  // No longer written: brand assignments live in vendor_brands, and the API
+  // fills `brands` (brand ids) from there
   brands: json("brands").$type<string[]>().default([]),
   services: json("services").$type<string[]>().default([]),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+  // Set when the record is moved to the trash; lists leave these out
+  deletedAt: timestamp("deleted_at"),
 });
 
 export const representatives = pgTable("representatives", {
@@ -46,6 +57,8 @@ export const representatives = pgTable("representatives", {
   vendorName: text("vendor_name"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+  // Set when the record is moved to the trash; lists leave these out
+  deletedAt: timestamp("deleted_at"),
 });
 
 // PRIMARY CATEGORIES TABLE
@@ -66,7 +79,6 @@ export const categories = pgTable("categories", {
   parentId: varchar("parent_id"),
   path: text("path"), // e.g., "Roofing > Shingles > Asphalt" or "GAF > Roofing > Shingles"
   subcategories: json("subcategories").$type<string[]>().default([]),
-  vendorCount: varchar("vendor_count").default("0"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -79,7 +91,6 @@ export const services = pgTable("services", {
   parentId: varchar("parent_id"),
   path: text("path"), // e.g., "Delivery > Rooftop > Standard"
   subservices: json("subservices").$type<string[]>().default([]),
-  vendorCount: varchar("vendor_count").default("0"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -154,6 +165,8 @@ export const proCustomers = pgTable("pro_customers", {
   
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+  // Set when the record is moved to the trash; lists leave these out
+  deletedAt: timestamp("deleted_at"),
 });
 
 export const proContacts = pgTable("pro_contacts", {
@@ -190,19 +203,27 @@ export const insertVendorSchema = createInsertSchema(vendors).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
+}).extend({
+  categoryIds: z.array(z.string()).optional(),
 });
 
 export const insertRepresentativeSchema = createInsertSchema(representatives).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
 });
 
-export const insertCategorySchema = createInsertSchema(categories).omit({
+// Unrefined field schema, used for partial updates where the branded/generic
+// rule can only be checked against the merged row.
+export const categoryFieldsSchema = createInsertSchema(categories).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
-}).refine((data) => {
+});
+
+export const insertCategorySchema = categoryFieldsSchema.refine((data) => {
   // When categoryType is "branded", brandId must be provided
   if (data.categoryType === "branded" && !data.brandId) {
     return false;
@@ -242,7 +263,6 @@ export const brands = pgTable("brands", {
   website: text("website"),
   templateId: varchar("template_id").references(() => brandTemplates.id),
   templateVersion: text("template_version"),
-  vendorCount: integer("vendor_count").default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -293,17 +313,75 @@ export const brandTemplates = pgTable("brand_templates", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Published snapshots of each brand template. brandTemplates always holds the
+// latest version; brands.templateVersion points at the snapshot its
+// brandCategories were generated from, so upgrades can diff old vs new.
+export const brandTemplateVersions = pgTable("brand_template_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateId: varchar("template_id").references(() => brandTemplates.id).notNull(),
+  version: text("version").notNull(),
+  template: json("template").$type<BrandTemplate["template"]>(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueTemplateVersion: unique().on(table.templateId, table.version)
+}));
+
+// A vendor's brands; the source of truth for brand assignments.
 export const vendorBrands = pgTable("vendor_brands", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  vendorId: varchar("vendor_id").references(() => vendors.id).notNull(),
-  brandId: varchar("brand_id").references(() => brands.id).notNull(),
+  vendorId: varchar("vendor_id").references(() => vendors.id, { onDelete: "cascade" }).notNull(),
+  brandId: varchar("brand_id").references(() => brands.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueVendorBrand: unique().on(table.vendorId, table.brandId)
+}));
+
+// A vendor's categories, by id, so renaming or moving a category carries its
+// vendors along.
+export const vendorCategories = pgTable("vendor_categories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  vendorId: varchar("vendor_id").references(() => vendors.id, { onDelete: "cascade" }).notNull(),
+  categoryId: varchar("category_id").references(() => categories.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueVendorCategory: unique().on(table.vendorId, table.categoryId)
+}));
+
+// One row per create, update or delete of an audited record. `changes` holds
+// the fields that changed as { from, to }; `snapshot` is the record after the
+// change (before it, for a delete).
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entityType: text("entity_type").notNull(), // vendor, representative, category, brand, service, proCustomer
+  entityId: varchar("entity_id").notNull(),
+  entityName: text("entity_name").notNull(),
+  action: text("action").notNull(), // create, update, delete, restore
+  changes: json("changes").$type<Record<string, AuditFieldChange>>().notNull().default({}),
+  snapshot: json("snapshot").$type<Record<string, unknown>>(),
+  // For a restore, the entry whose snapshot was put back
+  restoredFrom: varchar("restored_from"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// People who can sign in. Passwords are stored as scrypt hashes
+// (api/_lib/auth.ts) and never leave the API.
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").notNull().unique(),
+  name: text("name").notNull(),
+  passwordHash: text("password_hash").notNull(),
+  // Admins add and remove accounts (migrations/0012)
+  isAdmin: boolean("is_admin").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const insertProCustomerSchema = createInsertSchema(proCustomers).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
 });
 
 export const insertProContactSchema = createInsertSchema(proContacts).omit({
@@ -348,22 +426,53 @@ export const insertBrandTemplateSchema = createInsertSchema(brandTemplates).omit
   updatedAt: true,
 });
 
+export const insertBrandTemplateVersionSchema = createInsertSchema(brandTemplateVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertVendorBrandSchema = createInsertSchema(vendorBrands).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertVendorCategorySchema = createInsertSchema(vendorCategories).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const loginSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// A new account: the password arrives in plain text and is hashed before insert
+export const insertUserSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email"),
+  name: z.string().trim().min(1, "Name is required"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  isAdmin: z.boolean().optional(),
+});
+
 export type InsertVendor = z.infer<typeof insertVendorSchema>;
-export type Vendor = typeof vendors.$inferSelect;
+// As the API returns it: `categories` lists the linked category paths
+// followed by any unmatched legacy strings, which are also in
+// `unmatchedCategories`.
+export type Vendor = typeof vendors.$inferSelect & {
+  categoryIds?: string[];
+  unmatchedCategories?: string[];
+};
 
 export type InsertRepresentative = z.infer<typeof insertRepresentativeSchema>;
 export type Representative = typeof representatives.$inferSelect;
 
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
-export type Category = typeof categories.$inferSelect;
+// vendorCount is computed when categories, services and brands are read
+// (api/_lib/vendor-counts.ts); a category's includes its subcategories'.
+export type Category = typeof categories.$inferSelect & { vendorCount?: number };
 
 export type InsertService = z.infer<typeof insertServiceSchema>;
-export type Service = typeof services.$inferSelect;
+export type Service = typeof services.$inferSelect & { vendorCount?: number };
 
 export type InsertProCustomer = z.infer<typeof insertProCustomerSchema>;
 export type ProCustomer = typeof proCustomers.$inferSelect;
@@ -381,7 +490,7 @@ export type InsertBusinessType = z.infer<typeof insertBusinessTypeSchema>;
 export type BusinessType = typeof businessTypes.$inferSelect;
 
 export type InsertBrand = z.infer<typeof insertBrandSchema>;
-export type Brand = typeof brands.$inferSelect;
+export type Brand = typeof brands.$inferSelect & { vendorCount?: number };
 
 export type InsertBrandCategory = z.infer<typeof insertBrandCategorySchema>;
 export type BrandCategory = typeof brandCategories.$inferSelect;
@@ -389,9 +498,22 @@ export type BrandCategory = typeof brandCategories.$inferSelect;
 export type InsertBrandTemplate = z.infer<typeof insertBrandTemplateSchema>;
 export type BrandTemplate = typeof brandTemplates.$inferSelect;
 
+export type InsertBrandTemplateVersion = z.infer<typeof insertBrandTemplateVersionSchema>;
+export type BrandTemplateVersion = typeof brandTemplateVersions.$inferSelect;
+
 export type InsertVendorBrand = z.infer<typeof insertVendorBrandSchema>;
 export type VendorBrand = typeof vendorBrands.$inferSelect;
 
+export type InsertVendorCategory = z.infer<typeof insertVendorCategorySchema>;
+export type VendorCategory = typeof vendorCategories.$inferSelect;
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+
+export type LoginCredentials = z.infer<typeof loginSchema>;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+// As the API returns it, without the password hash
+export type User = Omit<typeof users.$inferSelect, "passwordHash">;
+
 // Strong typing for brand vendor reconciliation
 export interface BrandImpactPreview {
   vendorId: string;
@@ -0,0 +1,155 @@
+import { db } from './db';
+import { vendors, representatives, proCustomers, proContacts, brands, categories, services } from './schema';
+import { bestRelevance, isMatch, phoneRelevance, textRelevance } from './relevance';
+import { and, desc, eq, isNull, sql } from 'drizzle-orm';
+
+// Cross-entity search behind /api/search and the command palette. Each
+// entity scores its own rows in SQL (see relevance.ts); the results are
+// merged by score.
+
+export const SEARCH_TYPES = ['vendor', 'representative', 'proCustomer', 'proContact', 'brand', 'category', 'service'] as const;
+export type SearchType = typeof SEARCH_TYPES[number];
+
+export interface SearchResult {
+  type: SearchType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  // Record the result opens, when it is not the row itself (contacts open their customer)
+  parentId: string | null;
+  score: number;
+}
+
+interface EntityQuery {
+  type: SearchType;
+  run: (term: string, limit: number) => Promise<Omit<SearchResult, 'type'>[]>;
+}
+
+const ENTITY_QUERIES: EntityQuery[] = [
+  {
+    type: 'vendor',
+    run: (term, limit) => {
+      const score = bestRelevance([
+        textRelevance(vendors.companyName, term),
+        [textRelevance(vendors.vendorNumber, term), 0.9],
+        [textRelevance(vendors.email, term), 0.5],
+        phoneRelevance(term, [vendors.phone, vendors.fax], vendors.phones),
+      ]);
+      return db.select({
+        id: vendors.id,
+        title: vendors.companyName,
+        subtitle: vendors.vendorNumber,
+        parentId: sql<string | null>`null`,
+        score,
+      }).from(vendors).where(and(isMatch(score), isNull(vendors.deletedAt))).orderBy(desc(score)).limit(limit);
+    },
+  },
+  {
+    type: 'representative',
+    run: (term, limit) => {
+      const score = bestRelevance([
+        textRelevance(representatives.name, term),
+        [textRelevance(representatives.vendorName, term), 0.6],
+        [textRelevance(representatives.email, term), 0.5],
+        phoneRelevance(term, [representatives.cellPhone], representatives.phones),
+      ]);
+      return db.select({
+        id: representatives.id,
+        title: representatives.name,
+        subtitle: representatives.vendorName,
+        parentId: sql<string | null>`null`,
+        score,
+      }).from(representatives).where(and(isMatch(score), isNull(representatives.deletedAt))).orderBy(desc(score)).limit(limit);
+    },
+  },
+  {
+    type: 'proCustomer',
+    run: (term, limit) => {
+      const score = bestRelevance([
+        textRelevance(proCustomers.businessName, term),
+        [textRelevance(proCustomers.primaryContactName, term), 0.9],
+        [textRelevance(proCustomers.lowesProAccountNumber, term), 0.9],
+        [textRelevance(proCustomers.primaryContactEmail, term), 0.5],
+        phoneRelevance(term, [proCustomers.primaryContactMobile], proCustomers.phones),
+      ]);
+      return db.select({
+        id: proCustomers.id,
+        title: proCustomers.businessName,
+        subtitle: proCustomers.primaryContactName,
+        parentId: sql<string | null>`null`,
+        score,
+      }).from(proCustomers).where(and(isMatch(score), isNull(proCustomers.deletedAt))).orderBy(desc(score)).limit(limit);
+    },
+  },
+  {
+    type: 'proContact',
+    run: (term, limit) => {
+      const score = bestRelevance([
+        [textRelevance(proContacts.name, term), 0.9],
+        [textRelevance(proContacts.email, term), 0.5],
+        phoneRelevance(term, [proContacts.phone], proContacts.phones),
+      ]);
+      return db.select({
+        id: proContacts.id,
+        title: proContacts.name,
+        subtitle: proCustomers.businessName,
+        parentId: proContacts.proCustomerId,
+        score,
+      }).from(proContacts)
+        .innerJoin(proCustomers, eq(proContacts.proCustomerId, proCustomers.id))
+        .where(and(isMatch(score), isNull(proCustomers.deletedAt))).orderBy(desc(score)).limit(limit);
+    },
+  },
+  {
+    type: 'brand',
+    run: (term, limit) => {
+      const score = bestRelevance([textRelevance(brands.name, term), [textRelevance(brands.industry, term), 0.4]]);
+      return db.select({
+        id: brands.id,
+        title: brands.name,
+        subtitle: brands.industry,
+        parentId: sql<string | null>`null`,
+        score,
+      }).from(brands).where(isMatch(score)).orderBy(desc(score)).limit(limit);
+    },
+  },
+  {
+    type: 'category',
+    run: (term, limit) => {
+      const score = bestRelevance([[textRelevance(categories.name, term), 0.8], [textRelevance(categories.path, term), 0.6]]);
+      return db.select({
+        id: categories.id,
+        title: categories.name,
+        subtitle: categories.path,
+        parentId: sql<string | null>`null`,
+        score,
+      }).from(categories).where(isMatch(score)).orderBy(desc(score)).limit(limit);
+    },
+  },
+  {
+    type: 'service',
+    run: (term, limit) => {
+      const score = bestRelevance([[textRelevance(services.name, term), 0.8], [textRelevance(services.path, term), 0.6]]);
+      return db.select({
+        id: services.id,
+        title: services.name,
+        subtitle: services.path,
+        parentId: sql<string | null>`null`,
+        score,
+      }).from(services).where(isMatch(score)).orderBy(desc(score)).limit(limit);
+    },
+  },
+];
+
+export async function searchAll(term: string, types: SearchType[], limit: number): Promise<SearchResult[]> {
+  const selected = ENTITY_QUERIES.filter((entity) => types.includes(entity.type));
+
+  const perType = await Promise.all(selected.map(async (entity) => {
+    const rows = await entity.run(term, limit);
+    return rows.map((row) => ({ ...row, score: Number(row.score), type: entity.type }));
+  }));
+
+  return perType.flat()
+    .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+    .slice(0, limit);
+}
@@ -0,0 +1,237 @@
+import { db, runBatch } from './db';
+import { services, vendors, type Service } from './schema';
+import { HttpError } from './resource-handler';
+import { eq, inArray, sql } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+
+// services.path, level and subservices are denormalized from parentId and
+// names, like categories (see category-tree.ts), and only computed here.
+// Vendors reference services by *name* in vendors.services, so renames and
+// deletes rewrite those lists in the same batch.
+
+type Values = Record<string, unknown>;
+
+const DERIVED_FIELDS = ['path', 'level', 'subservices'] as const;
+
+type ServiceTree = Map<string, Service>;
+
+async function loadTree(): Promise<ServiceTree> {
+  const rows = await db.select().from(services);
+  return new Map(rows.map((row) => [row.id, row]));
+}
+
+function childrenOf(tree: ServiceTree, parentId: string): Service[] {
+  return Array.from(tree.values()).filter((row) => row.parentId === parentId);
+}
+
+function subtreeOf(tree: ServiceTree, id: string): Service[] {
+  return childrenOf(tree, id).flatMap((child) => [child, ...subtreeOf(tree, child.id)]);
+}
+
+function depth(tree: ServiceTree, service: Service): number {
+  let level = 1;
+  for (let parent = service.parentId ? tree.get(service.parentId) : undefined; parent;
+    parent = parent.parentId ? tree.get(parent.parentId) : undefined) {
+    level++;
+  }
+  return level;
+}
+
+// The parent a service may sit under; rejects cycles.
+function checkParent(tree: ServiceTree, parentId: string | null | undefined, id?: string): Service | null {
+  if (!parentId) return null;
+  const parent = tree.get(parentId);
+  if (!parent) {
+    throw new HttpError(400, 'Parent service not found');
+  }
+  for (let ancestor: Service | undefined = parent; ancestor;
+    ancestor = ancestor.parentId ? tree.get(ancestor.parentId) : undefined) {
+    if (ancestor.id === id) {
+      throw new HttpError(400, 'A service cannot be moved under itself or one of its subservices');
+    }
+  }
+  return parent;
+}
+
+function place(tree: ServiceTree, name: string, parent: Service | null) {
+  return {
+    path: parent ? `${parent.path ?? parent.name} > ${name}` : name,
+    level: String(parent ? depth(tree, parent) + 1 : 1),
+  };
+}
+
+function withoutDerived(data: Values): Values {
+  const values = { ...data };
+  for (const field of DERIVED_FIELDS) delete values[field];
+  return values;
+}
+
+interface ServiceUpdate {
+  id: string;
+  values: Values;
+}
+
+// Rewrites paths and levels below `node`, which already holds its new place.
+function planDescendants(tree: ServiceTree, node: Service, updates: ServiceUpdate[]) {
+  for (const child of childrenOf(tree, node.id)) {
+    const moved = { ...child, ...place(tree, child.name, node) };
+    tree.set(child.id, moved);
+    if (moved.path !== child.path || moved.level !== child.level) {
+      updates.push({ id: child.id, values: { path: moved.path, level: moved.level } });
+    }
+    planDescendants(tree, moved, updates);
+  }
+}
+
+function planSubservices(tree: ServiceTree, parentIds: (string | null)[], updates: ServiceUpdate[]) {
+  for (const parentId of Array.from(new Set(parentIds))) {
+    const parent = parentId ? tree.get(parentId) : undefined;
+    if (!parent) continue;
+    const names = childrenOf(tree, parent.id).map((child) => child.name).sort((a, b) => a.localeCompare(b));
+    if (names.join('\n') !== (parent.subservices ?? []).join('\n')) {
+      updates.push({ id: parent.id, values: { subservices: names } });
+    }
+  }
+}
+
+// Replaces (or, with null, removes) service names in every vendor's list,
+// keeping the order and dropping duplicates.
+function rewriteVendorServices(names: string[], replacement: string | null): BatchItem<'pg'>[] {
+  if (names.length === 0) return [];
+  const listed = sql`json_array_elements_text(coalesce(${vendors.services}, '[]'::json)) with ordinality as e(name, ord)`;
+  return [db.update(vendors)
+    .set({
+      services: sql`coalesce((
+        select json_agg(u.name order by u.ord) from (
+          select case when e.name in ${names} then ${replacement}::text else e.name end as name, min(e.ord) as ord
+          from ${listed}
+          group by 1
+        ) u where u.name is not null
+      ), '[]'::json)`,
+      updatedAt: new Date(),
+    })
+    .where(sql`exists (select 1 from ${listed} where e.name in ${names})`)];
+}
+
+// Names that no longer belong to any service once `removedIds` are gone or
+// renamed; only these are rewritten on vendors.
+function orphanedNames(tree: ServiceTree, removedIds: string[], names: string[]): string[] {
+  const remaining = new Set(Array.from(tree.values()).filter((row) => !removedIds.includes(row.id)).map((row) => row.name));
+  return Array.from(new Set(names)).filter((name) => !remaining.has(name));
+}
+
+function toStatements(updates: ServiceUpdate[], now = new Date()) {
+  return updates.map(({ id, values }) =>
+    db.update(services).set({ ...values, updatedAt: now }).where(eq(services.id, id)).returning());
+}
+
+// Path and level for a service about to be created.
+export async function placeNewService(data: Values): Promise<Values> {
+  const tree = await loadTree();
+  const parent = checkParent(tree, data.parentId as string | null | undefined);
+  return { ...withoutDerived(data), ...place(tree, data.name as string, parent) };
+}
+
+// Renames and/or moves a service in one batch: its subtree's paths, both
+// parents' subservice lists, and vendors listing the old name.
+export async function updateService(existing: Service, data: Values): Promise<Service> {
+  const tree = await loadTree();
+  const values = withoutDerived(data);
+  const next = { ...existing, ...values } as Service;
+  const parent = checkParent(tree, next.parentId, existing.id);
+  Object.assign(next, place(tree, next.name, parent));
+  tree.set(next.id, next);
+
+  const updates: ServiceUpdate[] = [{ id: next.id, values: { ...values, path: next.path, level: next.level } }];
+  planDescendants(tree, next, updates);
+  planSubservices(tree, [existing.parentId, next.parentId], updates);
+
+  const renamed = next.name !== existing.name ? orphanedNames(tree, [], [existing.name]) : [];
+  const [[updated]] = await runBatch([
+    ...toStatements(updates),
+    ...rewriteVendorServices(renamed, next.name),
+  ]) as Service[][];
+  return updated;
+}
+
+// Rewrites a parent's subservice list after a child is added.
+export async function refreshSubservices(parentId: string | null): Promise<void> {
+  if (!parentId) return;
+  const tree = await loadTree();
+  const updates: ServiceUpdate[] = [];
+  planSubservices(tree, [parentId], updates);
+  if (updates.length > 0) {
+    await runBatch(toStatements(updates));
+  }
+}
+
+export type ServiceDeleteStrategy = 'cascade' | 'reassign';
+
+export interface ServiceDeleteImpact {
+  subservices: number;
+  vendors: number;
+}
+
+async function countVendorsListing(names: string[]): Promise<number> {
+  if (names.length === 0) return 0;
+  const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(vendors)
+    .where(sql`exists (
+      select 1 from json_array_elements_text(coalesce(${vendors.services}, '[]'::json)) as e(name)
+      where e.name in ${names}
+    )`);
+  return row?.count ?? 0;
+}
+
+// What deleting a service would touch, for the 409 that asks for a strategy.
+export async function getServiceDeleteImpact(existing: Service): Promise<ServiceDeleteImpact> {
+  const tree = await loadTree();
+  const subtree = subtreeOf(tree, existing.id);
+  const removed = [existing, ...subtree];
+  const names = orphanedNames(tree, removed.map((row) => row.id), removed.map((row) => row.name));
+  return { subservices: subtree.length, vendors: await countVendorsListing(names) };
+}
+
+// cascade: deletes the service and everything below it, and drops their
+//   names from vendors.
+// reassign: moves the children under `targetId` (default: the deleted
+//   service's parent) and points vendors at the target instead, or drops
+//   the name when there is no target.
+export async function deleteService(existing: Service, strategy: ServiceDeleteStrategy, targetId?: string): Promise<void> {
+  const tree = await loadTree();
+
+  if (strategy === 'cascade') {
+    const removed = [existing, ...subtreeOf(tree, existing.id)];
+    const removedIds = removed.map((row) => row.id);
+    for (const id of removedIds) tree.delete(id);
+    const updates: ServiceUpdate[] = [];
+    planSubservices(tree, [existing.parentId], updates);
+    await runBatch([
+      db.delete(services).where(inArray(services.id, removedIds)),
+      ...toStatements(updates),
+      ...rewriteVendorServices(orphanedNames(tree, removedIds, removed.map((row) => row.name)), null),
+    ]);
+    return;
+  }
+
+  const target = checkParent(tree, targetId ?? existing.parentId, existing.id);
+  if (targetId && !target) {
+    throw new HttpError(400, 'Reassignment target not found');
+  }
+  const children = childrenOf(tree, existing.id);
+  tree.delete(existing.id);
+
+  const updates: ServiceUpdate[] = [];
+  for (const child of children) {
+    const moved = { ...child, parentId: target?.id ?? null, ...place(tree, child.name, target) };
+    tree.set(child.id, moved);
+    updates.push({ id: child.id, values: { parentId: moved.parentId, path: moved.path, level: moved.level } });
+    planDescendants(tree, moved, updates);
+  }
+  planSubservices(tree, [existing.parentId, target?.id ?? null], updates);
+
+  await runBatch([
+    ...toStatements(updates),
+    db.delete(services).where(eq(services.id, existing.id)),
+    ...rewriteVendorServices(orphanedNames(tree, [], [existing.name]), target?.name ?? null),
+  ]);
+}
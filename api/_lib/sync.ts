@@ -0,0 +1,347 @@
+import { z } from 'zod';
+import { createInsertSchema } from 'drizzle-zod';
+import { db, runBatch } from './db';
+import { HttpError } from './resource-handler';
+import {
+  vendors,
+  representatives,
+  categories,
+  services,
+  businessTypes,
+  proCustomers,
+  proContacts,
+  managedProperties,
+  trades,
+  brands,
+  brandCategories,
+  brandTemplates,
+  brandTemplateVersions,
+  vendorBrands,
+  vendorCategories,
+  auditLog,
+} from './schema';
+import type { BatchItem } from 'drizzle-orm/batch';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import type { ZodTypeAny } from 'zod';
+import { eq, getTableColumns, inArray } from 'drizzle-orm';
+
+export const SYNC_FORMAT_VERSION = 1;
+
+// Every table in the schema, in foreign-key order so parents are written
+// before the rows that reference them. The audit log travels too, so a
+// record's history follows it to the other server. Accounts (users) stay
+// per-server and are never exported.
+export const SYNC_TABLES = {
+  brandTemplates,
+  brandTemplateVersions,
+  brands,
+  brandCategories,
+  vendors,
+  vendorBrands,
+  representatives,
+  categories,
+  vendorCategories,
+  services,
+  businessTypes,
+  trades,
+  proCustomers,
+  proContacts,
+  managedProperties,
+  auditLog,
+} satisfies Record<string, PgTable>;
+
+export type SyncTableName = keyof typeof SYNC_TABLES;
+export const SYNC_TABLE_NAMES = Object.keys(SYNC_TABLES) as SyncTableName[];
+
+// Each table's full row shape, id and timestamps included, so an incoming row
+// is checked column by column before it is written.
+const SYNC_ROW_SCHEMAS = new Map<SyncTableName, ZodTypeAny>(
+  SYNC_TABLE_NAMES.map((name) => [name, createInsertSchema(SYNC_TABLES[name] as PgTable)]),
+);
+
+// Rows identified by what they link rather than by id. Each server gives them
+// its own random ids (migrations/0004 and 0006 backfill the vendor links, and
+// every vendor save re-creates them; migrations/0001 seeds each server's
+// template snapshots), so they are matched on these columns and written with
+// ON CONFLICT DO NOTHING. A published template version never changes, so a
+// snapshot either side already has is left as it is.
+const SYNC_ROW_KEYS: Partial<Record<SyncTableName, string[]>> = {
+  brandTemplateVersions: ['templateId', 'version'],
+  vendorBrands: ['vendorId', 'brandId'],
+  vendorCategories: ['vendorId', 'categoryId'],
+};
+
+// Join tables holding a vendor's links, which follow the vendor row. When the
+// incoming vendor wins, its links replace the local set, removals included;
+// when the local vendor wins they are left alone; otherwise links missing
+// locally are added.
+const VENDOR_LINK_TABLES = new Set<SyncTableName>(['vendorBrands', 'vendorCategories']);
+
+// Postgres allows 65535 bind parameters per statement; inserts are split well
+// under that so wide tables like pro_customers import in any size.
+const INSERT_CHUNK_PARAMETERS = 20000;
+
+type SyncRow = Record<string, unknown> & { id: string };
+
+export interface SyncExport {
+  version: number;
+  exportedAt: string;
+  tables: Partial<Record<SyncTableName, SyncRow[]>>;
+}
+
+const syncRowSchema = z.object({ id: z.string().min(1) }).passthrough();
+
+export const syncImportSchema = z.object({
+  version: z.number().int().refine((version) => version <= SYNC_FORMAT_VERSION, {
+    message: `Unsupported export version; this server reads up to version ${SYNC_FORMAT_VERSION}`,
+  }),
+  exportedAt: z.string().optional(),
+  tables: z.record(z.string(), z.array(syncRowSchema)).refine(
+    (tables) => Object.keys(tables).every((name) => name in SYNC_TABLES),
+    { message: `Unknown table; expected one of ${SYNC_TABLE_NAMES.join(', ')}` },
+  ),
+});
+
+export async function exportData(): Promise<SyncExport> {
+  const tables: SyncExport['tables'] = {};
+  for (const name of SYNC_TABLE_NAMES) {
+    tables[name] = await db.select().from(SYNC_TABLES[name] as PgTable) as SyncRow[];
+  }
+  return { version: SYNC_FORMAT_VERSION, exportedAt: new Date().toISOString(), tables };
+}
+
+// Keeps only the table's own columns, turns JSON timestamps back into Dates
+// and validates the result, so an incoming row can be written as-is.
+function toDbRow(name: SyncTableName, row: SyncRow): SyncRow {
+  const table = SYNC_TABLES[name] as PgTable;
+  const result: SyncRow = { id: row.id };
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    if (!(key in row)) continue;
+    const value = row[key];
+    result[key] = column.dataType === 'date' && typeof value === 'string' ? new Date(value) : value;
+  }
+
+  const parsed = SYNC_ROW_SCHEMAS.get(name)!.safeParse(result);
+  if (!parsed.success) {
+    const { fieldErrors, formErrors } = parsed.error.flatten();
+    throw new HttpError(400, `Invalid ${name} row ${row.id}`, { fieldErrors, formErrors });
+  }
+  return parsed.data as SyncRow;
+}
+
+function timestampOf(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const time = new Date(value as string | Date).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+export interface SyncConflict {
+  table: SyncTableName;
+  id: string;
+  localUpdatedAt: string | null;
+  incomingUpdatedAt: string | null;
+}
+
+export interface SyncTableCounts {
+  inserted: number;
+  updated: number;
+  conflicts: number;
+  unchanged: number;
+  // Vendor links the incoming vendor no longer has
+  removed: number;
+}
+
+export interface SyncPlan {
+  tables: Partial<Record<SyncTableName, SyncTableCounts>>;
+  conflicts: SyncConflict[];
+  inserts: { table: SyncTableName; rows: SyncRow[] }[];
+  updates: { table: SyncTableName; rows: SyncRow[] }[];
+  deletes: { table: SyncTableName; ids: string[] }[];
+}
+
+// Which incoming vendor rows won (their links are replaced) and which lost
+// to a newer local copy (their links are kept)
+interface VendorOutcomes {
+  replaced: Set<string>;
+  kept: Set<string>;
+}
+
+const emptyCounts = (): SyncTableCounts => ({ inserted: 0, updated: 0, conflicts: 0, unchanged: 0, removed: 0 });
+
+// Plans a SYNC_ROW_KEYS table by key. These rows have no updatedAt: a row is
+// either there or not. With `vendors`, the rows are vendor links and follow
+// their vendor's outcome.
+async function planKeyedRows(
+  name: SyncTableName,
+  incoming: SyncRow[],
+  keys: string[],
+  vendors?: VendorOutcomes,
+): Promise<{ counts: SyncTableCounts; inserts: SyncRow[]; deletes: string[] }> {
+  const table = SYNC_TABLES[name] as PgTable;
+  const columns = getTableColumns(table);
+  const keyOf = (row: Record<string, unknown>) => JSON.stringify(keys.map((key) => row[key] ?? null));
+  const counts = emptyCounts();
+
+  const scope = new Set(incoming.map((row) => row[keys[0]] as string));
+  for (const id of vendors?.replaced ?? []) scope.add(id);
+  const local = scope.size > 0
+    ? await db.select().from(table).where(inArray(columns[keys[0]], [...scope])) as SyncRow[]
+    : [];
+  const localKeys = new Set(local.map(keyOf));
+
+  const inserts: SyncRow[] = [];
+  const incomingKeys = new Set<string>();
+  for (const row of incoming) {
+    // The local vendor is newer, so its links stand
+    if (vendors?.kept.has(row.vendorId as string)) continue;
+    const key = keyOf(row);
+    if (incomingKeys.has(key)) continue;
+    incomingKeys.add(key);
+    if (localKeys.has(key)) {
+      counts.unchanged++;
+    } else {
+      inserts.push(toDbRow(name, row));
+      counts.inserted++;
+    }
+  }
+
+  const deletes = local
+    .filter((row) => vendors?.replaced.has(row.vendorId as string) && !incomingKeys.has(keyOf(row)))
+    .map((row) => row.id);
+  counts.removed = deletes.length;
+  return { counts, inserts, deletes };
+}
+
+// "newest" lets updatedAt pick the winner. "incoming" is for payloads whose
+// conflicts were already resolved by a person, so every row sent overwrites.
+export type SyncStrategy = 'newest' | 'incoming';
+
+// Decides, row by row, what an import would do. Rows missing locally are
+// inserted. For rows present on both sides the newer updatedAt wins; when the
+// local copy is newer the incoming row is skipped and reported as a conflict.
+// Other tables without updatedAt (the audit log) are insert-only, and
+// SYNC_ROW_KEYS tables are matched by key.
+export async function planImport(
+  payload: z.infer<typeof syncImportSchema>,
+  strategy: SyncStrategy = 'newest',
+): Promise<SyncPlan> {
+  const plan: SyncPlan = { tables: {}, conflicts: [], inserts: [], updates: [], deletes: [] };
+  const vendorOutcomes: VendorOutcomes = { replaced: new Set(), kept: new Set() };
+
+  for (const name of SYNC_TABLE_NAMES) {
+    const incoming = (payload.tables[name] ?? []) as SyncRow[];
+    const keys = SYNC_ROW_KEYS[name];
+    // A vendor link table that is in the payload but empty still removes the
+    // winning vendors' links
+    const linksVendors = VENDOR_LINK_TABLES.has(name) && name in payload.tables;
+    if (incoming.length === 0 && !(linksVendors && vendorOutcomes.replaced.size > 0)) continue;
+
+    if (keys) {
+      const keyed = await planKeyedRows(name, incoming, keys, linksVendors ? vendorOutcomes : undefined);
+      plan.tables[name] = keyed.counts;
+      if (keyed.inserts.length > 0) plan.inserts.push({ table: name, rows: keyed.inserts });
+      if (keyed.deletes.length > 0) plan.deletes.push({ table: name, ids: keyed.deletes });
+      continue;
+    }
+
+    const table = SYNC_TABLES[name] as PgTable;
+    const columns = getTableColumns(table);
+    const hasUpdatedAt = 'updatedAt' in columns;
+    const counts = emptyCounts();
+
+    const local = await db.select().from(table)
+      .where(inArray(columns.id, incoming.map((row) => row.id))) as SyncRow[];
+    const localById = new Map(local.map((row) => [row.id, row]));
+
+    const inserts: SyncRow[] = [];
+    const updates: SyncRow[] = [];
+    for (const row of incoming) {
+      const existing = localById.get(row.id);
+      if (!existing) {
+        inserts.push(toDbRow(name, row));
+        counts.inserted++;
+        if (name === 'vendors') vendorOutcomes.replaced.add(row.id);
+        continue;
+      }
+      if (!hasUpdatedAt) {
+        counts.unchanged++;
+        continue;
+      }
+
+      const localTime = timestampOf(existing.updatedAt);
+      const incomingTime = timestampOf(row.updatedAt);
+      if (strategy === 'incoming') {
+        updates.push(toDbRow(name, row));
+        counts.updated++;
+        if (name === 'vendors') vendorOutcomes.replaced.add(row.id);
+      } else if (incomingTime === localTime) {
+        counts.unchanged++;
+      } else if (incomingTime !== null && (localTime === null || incomingTime > localTime)) {
+        updates.push(toDbRow(name, row));
+        counts.updated++;
+        if (name === 'vendors') vendorOutcomes.replaced.add(row.id);
+      } else {
+        counts.conflicts++;
+        if (name === 'vendors') vendorOutcomes.kept.add(row.id);
+        plan.conflicts.push({
+          table: name,
+          id: row.id,
+          localUpdatedAt: localTime === null ? null : new Date(localTime).toISOString(),
+          incomingUpdatedAt: incomingTime === null ? null : new Date(incomingTime).toISOString(),
+        });
+      }
+    }
+
+    plan.tables[name] = counts;
+    if (inserts.length > 0) plan.inserts.push({ table: name, rows: inserts });
+    if (updates.length > 0) plan.updates.push({ table: name, rows: updates });
+  }
+
+  return plan;
+}
+
+// Writes a plan in one batch, so a failed import leaves nothing half-applied.
+// Large tables become several inserts within it.
+export async function applyImport(plan: SyncPlan): Promise<void> {
+  const queries: BatchItem<'pg'>[] = [];
+
+  for (const name of SYNC_TABLE_NAMES) {
+    const table = SYNC_TABLES[name] as PgTable;
+    const columns = getTableColumns(table);
+
+    const deletes = plan.deletes.find((entry) => entry.table === name);
+    for (let start = 0; start < (deletes?.ids.length ?? 0); start += INSERT_CHUNK_PARAMETERS) {
+      queries.push(db.delete(table).where(inArray(columns.id, deletes!.ids.slice(start, start + INSERT_CHUNK_PARAMETERS))));
+    }
+
+    const inserts = plan.inserts.find((entry) => entry.table === name);
+    const chunkSize = Math.max(1, Math.floor(INSERT_CHUNK_PARAMETERS / Object.keys(columns).length));
+    for (let start = 0; start < (inserts?.rows.length ?? 0); start += chunkSize) {
+      const insert = db.insert(table).values(inserts!.rows.slice(start, start + chunkSize));
+      // A keyed row the other side added under a different id is already here
+      queries.push(SYNC_ROW_KEYS[name] ? insert.onConflictDoNothing() : insert);
+    }
+
+    const updates = plan.updates.find((entry) => entry.table === name);
+    for (const row of updates?.rows ?? []) {
+      const { id, ...values } = row;
+      queries.push(db.update(table).set(values).where(eq(columns.id, id)));
+    }
+  }
+
+  await runBatch(queries);
+}
+
+export function summarizePlan(plan: SyncPlan) {
+  const totals = Object.values(plan.tables).reduce(
+    (acc, counts) => ({
+      imported: acc.imported + counts.inserted,
+      updated: acc.updated + counts.updated,
+      conflicts: acc.conflicts + counts.conflicts,
+      unchanged: acc.unchanged + counts.unchanged,
+      removed: acc.removed + counts.removed,
+    }),
+    { imported: 0, updated: 0, conflicts: 0, unchanged: 0, removed: 0 },
+  );
+  return { ...totals, tables: plan.tables, conflictDetails: plan.conflicts };
+}
@@ -0,0 +1,183 @@
+import { db, runBatch } from './db';
+import { managedProperties, proContacts, proCustomers, representatives, vendors } from './schema';
+import { HttpError, notFound } from './resource-handler';
+import { recordAudit } from './audit';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { and, eq, inArray, isNotNull, isNull, sql, type SQL } from 'drizzle-orm';
+import type { PgColumn, PgTable } from 'drizzle-orm/pg-core';
+
+// Vendors, reps and pro customers are soft deleted (see `softDelete` in
+// resource-handler.ts). This moves records to the trash, lists what is there,
+// puts records back, and purges them for good along with the rows that hang
+// off them. A vendor's reps go to the trash and come back with it.
+// Categories, brands, services and the pro customer child tables are not
+// soft deleted.
+
+export type TrashEntityType = 'vendor' | 'representative' | 'proCustomer';
+export const TRASH_ENTITY_TYPES: TrashEntityType[] = ['vendor', 'representative', 'proCustomer'];
+
+type SoftDeletable = typeof vendors | typeof representatives | typeof proCustomers;
+
+interface Dependent {
+  // Key in the item's `dependents` counts
+  name: string;
+  table: PgTable;
+  parentId: PgColumn;
+  // Set when the dependents are soft deleted themselves: they are trashed and
+  // restored along with the record
+  trashed?: SoftDeletable;
+}
+
+interface TrashTable {
+  table: SoftDeletable;
+  // Shown in the trash list and the audit log
+  name: PgColumn;
+  // Rows purged along with the record
+  dependents: Dependent[];
+  // Set for records that belong to a soft deleted parent: they stay out of
+  // the trash list while the parent is trashed, since they are restored with it
+  parent?: { entityType: TrashEntityType; foreignKey: PgColumn };
+}
+
+const TRASH_TABLES: Record<TrashEntityType, TrashTable> = {
+  vendor: {
+    table: vendors,
+    name: vendors.companyName,
+    // Category and brand links cascade on their own
+    dependents: [
+      { name: 'representatives', table: representatives, parentId: representatives.vendorId, trashed: representatives },
+    ],
+  },
+  representative: {
+    table: representatives,
+    name: representatives.name,
+    dependents: [],
+    parent: { entityType: 'vendor', foreignKey: representatives.vendorId },
+  },
+  proCustomer: {
+    table: proCustomers,
+    name: proCustomers.businessName,
+    dependents: [
+      { name: 'contacts', table: proContacts, parentId: proContacts.proCustomerId },
+      { name: 'properties', table: managedProperties, parentId: managedProperties.proCustomerId },
+    ],
+  },
+};
+
+export interface TrashItem {
+  entityType: TrashEntityType;
+  id: string;
+  name: string;
+  deletedAt: Date;
+  // What a purge would also delete, e.g. { representatives: 2 }
+  dependents: Record<string, number>;
+}
+
+async function countDependents(dependent: Dependent, ids: string[]): Promise<Map<string, number>> {
+  if (ids.length === 0) return new Map();
+  const rows = await db.select({ id: dependent.parentId, count: sql<number>`count(*)::int` })
+    .from(dependent.table)
+    .where(inArray(dependent.parentId, ids))
+    .groupBy(dependent.parentId);
+  return new Map(rows.map((row) => [row.id as string, row.count]));
+}
+
+// True when the record's parent is in the trash
+function parentTrashed({ parent }: TrashTable): SQL | undefined {
+  if (!parent) return undefined;
+  const { table } = TRASH_TABLES[parent.entityType];
+  return sql`exists (select 1 from ${table} where ${table.id} = ${parent.foreignKey} and ${table.deletedAt} is not null)`;
+}
+
+// Trashed records of the given types, most recently deleted first.
+export async function listTrash(types: TrashEntityType[] = TRASH_ENTITY_TYPES): Promise<TrashItem[]> {
+  const items: TrashItem[] = [];
+  for (const entityType of types) {
+    const config = TRASH_TABLES[entityType];
+    const { table, dependents } = config;
+    const hidden = parentTrashed(config);
+    const rows = await db.select({ id: table.id, name: sql<string>`${config.name}`, deletedAt: table.deletedAt })
+      .from(table)
+      .where(and(isNotNull(table.deletedAt), hidden ? sql`not ${hidden}` : undefined));
+    const ids = rows.map((row) => row.id);
+    const counts = await Promise.all(dependents.map((dependent) => countDependents(dependent, ids)));
+
+    for (const row of rows) {
+      items.push({
+        entityType,
+        id: row.id,
+        name: row.name,
+        deletedAt: row.deletedAt!,
+        dependents: Object.fromEntries(dependents.map((dependent, i) => [dependent.name, counts[i].get(row.id) ?? 0])),
+      });
+    }
+  }
+  return items.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+}
+
+async function findTrashed(entityType: TrashEntityType, id: string) {
+  const { table, name } = TRASH_TABLES[entityType];
+  const [row] = await db.select({ record: table, name: sql<string>`${name}` })
+    .from(table)
+    .where(and(eq(table.id, id), isNotNull(table.deletedAt)));
+  if (!row) {
+    throw notFound('Deleted record');
+  }
+  return row;
+}
+
+// Soft deletes a record, and its soft deleted dependents that are still live,
+// in one batch. They share the deletedAt that restoring the record matches
+// on. updatedAt moves too, so a sync carries the delete to other copies.
+export async function moveToTrash(entityType: TrashEntityType, id: string): Promise<void> {
+  const { table, dependents } = TRASH_TABLES[entityType];
+  const now = new Date();
+  const queries: BatchItem<'pg'>[] = [];
+  for (const { trashed, parentId } of dependents) {
+    if (!trashed) continue;
+    queries.push(db.update(trashed).set({ deletedAt: now, updatedAt: now })
+      .where(and(eq(parentId, id), isNull(trashed.deletedAt))));
+  }
+  queries.push(db.update(table).set({ deletedAt: now, updatedAt: now }).where(eq(table.id, id)));
+  await runBatch(queries);
+}
+
+// Takes a record out of the trash as it was when it was deleted, with the
+// dependents that were trashed along with it.
+export async function restoreFromTrash(entityType: TrashEntityType, id: string): Promise<unknown> {
+  const config = TRASH_TABLES[entityType];
+  const { table, dependents } = config;
+  const { record: existing, name } = await findTrashed(entityType, id);
+  const hidden = parentTrashed(config);
+  if (hidden) {
+    const [blocked] = await db.select({ id: table.id }).from(table).where(and(eq(table.id, id), hidden));
+    if (blocked) {
+      throw new HttpError(409, `Restore the ${config.parent!.entityType} this ${entityType} belongs to first`);
+    }
+  }
+
+  const now = new Date();
+  const queries: BatchItem<'pg'>[] = [];
+  for (const { trashed, parentId } of dependents) {
+    if (!trashed) continue;
+    queries.push(db.update(trashed).set({ deletedAt: null, updatedAt: now })
+      .where(and(eq(parentId, id), eq(trashed.deletedAt, existing.deletedAt!))));
+  }
+  const [[restored]] = await db.batch([
+    db.update(table).set({ deletedAt: null, updatedAt: now }).where(eq(table.id, id)).returning(),
+    ...queries,
+  ]);
+  await recordAudit({ entityType, entityId: id, entityName: name, action: 'undelete', before: existing, after: restored });
+  return restored;
+}
+
+// Deletes a trashed record and its dependents for good, in one batch. Its
+// audit history stays.
+export async function purgeFromTrash(entityType: TrashEntityType, id: string): Promise<void> {
+  const { table, dependents } = TRASH_TABLES[entityType];
+  const { record: existing, name } = await findTrashed(entityType, id);
+  const queries: BatchItem<'pg'>[] = dependents.map((dependent) => db.delete(dependent.table).where(eq(dependent.parentId, id)));
+  queries.push(db.delete(table).where(eq(table.id, id)));
+  await runBatch(queries);
+  await recordAudit({ entityType, entityId: id, entityName: name, action: 'purge', before: existing });
+}
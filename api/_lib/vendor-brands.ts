@@ -0,0 +1,77 @@
+import { db, insertWhere } from './db';
+import { brands, vendorBrands, vendors, type Brand, type Vendor } from './schema';
+import { HttpError } from './resource-handler';
+import { and, asc, eq, inArray, isNull, type SQL } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+
+// Vendors are assigned brands through vendor_brands. Vendor writes still take
+// `brands` as a list of brand ids and responses still carry one, but both go
+// through the join table; migrations/0006 moved the old vendors.brands data.
+
+type Values = Record<string, unknown>;
+
+async function assertBrandsExist(brandIds: string[]) {
+  if (brandIds.length === 0) return;
+  const found = await db.select({ id: brands.id }).from(brands).where(inArray(brands.id, brandIds));
+  const missing = brandIds.filter((id) => !found.some((row) => row.id === id));
+  if (missing.length > 0) {
+    throw new HttpError(400, 'Unknown brand ids', { brands: missing });
+  }
+}
+
+// Splits a vendor write into column values and the brand ids to link.
+// brandIds is undefined when the write leaves the vendor's brands alone.
+export async function prepareVendorBrands(data: Values): Promise<{ values: Values; brandIds?: string[] }> {
+  const { brands: brandIds, ...values } = data as Values & { brands?: string[] | null };
+  if (brandIds === undefined) {
+    return { values };
+  }
+  const ids = Array.from(new Set(brandIds ?? []));
+  await assertBrandsExist(ids);
+  return { values, brandIds: ids };
+}
+
+// Replaces a vendor's brands, for use inside a batch. With `when`, only if
+// that holds when the statements run.
+export function linkVendorBrands(vendorId: string, brandIds: string[], when?: SQL): BatchItem<'pg'>[] {
+  const rows = brandIds.map((brandId) => ({ vendorId, brandId }));
+  return [
+    db.delete(vendorBrands).where(and(eq(vendorBrands.vendorId, vendorId), when)),
+    ...(rows.length > 0
+      ? [when ? insertWhere(vendorBrands, rows, when) : db.insert(vendorBrands).values(rows)]
+      : []),
+  ];
+}
+
+// Fills `brands` on vendor rows from the join table, ordered by brand name.
+export async function withBrands(rows: Vendor[]): Promise<Vendor[]> {
+  if (rows.length === 0) return rows;
+  const links = await db.select({ vendorId: vendorBrands.vendorId, brandId: vendorBrands.brandId })
+    .from(vendorBrands)
+    .innerJoin(brands, eq(vendorBrands.brandId, brands.id))
+    .where(inArray(vendorBrands.vendorId, rows.map((row) => row.id)))
+    .orderBy(asc(brands.name));
+
+  return rows.map((row) => ({
+    ...row,
+    brands: links.filter((link) => link.vendorId === row.id).map((link) => link.brandId),
+  }));
+}
+
+export async function listBrandVendors(brandId: string): Promise<Vendor[]> {
+  const rows = await db.select({ vendor: vendors })
+    .from(vendorBrands)
+    .innerJoin(vendors, eq(vendorBrands.vendorId, vendors.id))
+    .where(and(eq(vendorBrands.brandId, brandId), isNull(vendors.deletedAt)))
+    .orderBy(asc(vendors.companyName));
+  return rows.map((row) => row.vendor);
+}
+
+export async function listVendorBrands(vendorId: string): Promise<Brand[]> {
+  const rows = await db.select({ brand: brands })
+    .from(vendorBrands)
+    .innerJoin(brands, eq(vendorBrands.brandId, brands.id))
+    .where(eq(vendorBrands.vendorId, vendorId))
+    .orderBy(asc(brands.name));
+  return rows.map((row) => row.brand);
+}
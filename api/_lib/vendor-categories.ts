@@ -0,0 +1,278 @@
+import { randomUUID } from 'crypto';
+import { db, insertWhere, runBatch } from './db';
+import { categories, vendorCategories, vendors, type Vendor } from './schema';
+import { HttpError, unchangedSince } from './resource-handler';
+import { linkVendorBrands, prepareVendorBrands } from './vendor-brands';
+import { and, asc, eq, inArray, or, sql, type SQL } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+
+// Vendors are assigned categories through vendor_categories, by id. Vendors
+// used to store display strings ("GAF > Roofing > Shingles") in
+// vendors.categories; migrations/0004 linked every string that names a
+// category, and the column now keeps only the strings that matched nothing.
+
+type Values = Record<string, unknown>;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Maps each string to a category: by path, or by name when exactly one
+// category has that name (the old vendor forms stored bare names).
+export async function matchCategoryStrings(values: string[]): Promise<Map<string, string>> {
+  const keys = Array.from(new Set(values.map(normalize).filter(Boolean)));
+  const matches = new Map<string, string>();
+  if (keys.length === 0) return matches;
+
+  const rows = await db.select({ id: categories.id, name: categories.name, path: categories.path })
+    .from(categories)
+    .where(or(
+      inArray(sql`lower(trim(${categories.path}))`, keys),
+      inArray(sql`lower(trim(${categories.name}))`, keys),
+    ))
+    .orderBy(asc(categories.createdAt), asc(categories.id));
+
+  const byName = new Map<string, string[]>();
+  for (const row of rows) {
+    if (row.path && !matches.has(normalize(row.path))) {
+      matches.set(normalize(row.path), row.id);
+    }
+    const name = normalize(row.name);
+    byName.set(name, [...(byName.get(name) ?? []), row.id]);
+  }
+  for (const key of keys) {
+    const named = byName.get(key) ?? [];
+    if (!matches.has(key) && named.length === 1) {
+      matches.set(key, named[0]);
+    }
+  }
+
+  return new Map(values.filter((value) => matches.has(normalize(value)))
+    .map((value) => [value, matches.get(normalize(value)) as string]));
+}
+
+async function assertCategoriesExist(categoryIds: string[]) {
+  if (categoryIds.length === 0) return;
+  const found = await db.select({ id: categories.id }).from(categories).where(inArray(categories.id, categoryIds));
+  const missing = categoryIds.filter((id) => !found.some((row) => row.id === id));
+  if (missing.length > 0) {
+    throw new HttpError(400, 'Unknown category ids', { categoryIds: missing });
+  }
+}
+
+// Splits a vendor write into column values and the category ids to link.
+// Strings sent in `categories` are linked when they name a category and kept
+// as unmatched otherwise. categoryIds is undefined when the write leaves the
+// vendor's links alone.
+export async function prepareVendorCategories(data: Values): Promise<{ values: Values; categoryIds?: string[] }> {
+  const { categoryIds, categories: strings, ...values } = data as Values & {
+    categoryIds?: string[];
+    categories?: string[] | null;
+  };
+  if (categoryIds === undefined && strings === undefined) {
+    return { values };
+  }
+
+  const matches = await matchCategoryStrings(strings ?? []);
+  const ids = Array.from(new Set([...(categoryIds ?? []), ...Array.from(matches.values())]));
+  await assertCategoriesExist(categoryIds ?? []);
+
+  if (strings === undefined) {
+    return { values, categoryIds: ids };
+  }
+  const unmatched = Array.from(new Set((strings ?? []).map((value) => value.trim())))
+    .filter((value) => value && !matches.has(value));
+  return { values: { ...values, categories: unmatched }, categoryIds: ids };
+}
+
+// Replaces a vendor's links, for use inside a batch. With `when`, only if
+// that holds when the statements run.
+export function linkVendorCategories(vendorId: string, categoryIds: string[], when?: SQL): BatchItem<'pg'>[] {
+  const rows = categoryIds.map((categoryId) => ({ vendorId, categoryId }));
+  return [
+    db.delete(vendorCategories).where(and(eq(vendorCategories.vendorId, vendorId), when)),
+    ...(rows.length > 0
+      ? [when ? insertWhere(vendorCategories, rows, when) : db.insert(vendorCategories).values(rows)]
+      : []),
+  ];
+}
+
+// Vendor writes go through here so the row, its category links and its
+// brand links (vendor-brands.ts) change in one batch.
+export async function createVendor(data: Values): Promise<Vendor> {
+  const { values: withoutCategories, categoryIds = [] } = await prepareVendorCategories(data);
+  const { values, brandIds = [] } = await prepareVendorBrands(withoutCategories);
+  const id = randomUUID();
+  const [[created]] = await runBatch([
+    db.insert(vendors).values({ ...values, id } as typeof vendors.$inferInsert).returning(),
+    ...linkVendorCategories(id, categoryIds),
+    ...linkVendorBrands(id, brandIds),
+  ]) as [Vendor[]];
+  return created;
+}
+
+// Writes only while the vendor is at the version `existing` was read at, and
+// returns nothing otherwise. The links follow the row: they change only if
+// the row was updated, which leaves its updatedAt at exactly `now`.
+export async function updateVendor(existing: Vendor, data: Values): Promise<Vendor | undefined> {
+  const { values: withoutCategories, categoryIds } = await prepareVendorCategories(data);
+  const { values, brandIds } = await prepareVendorBrands(withoutCategories);
+  const now = new Date();
+  const written = sql`exists (select 1 from ${vendors} where ${and(eq(vendors.id, existing.id), eq(vendors.updatedAt, now))})`;
+  const [[updated]] = await runBatch([
+    db.update(vendors).set({ ...values, updatedAt: now })
+      .where(and(eq(vendors.id, existing.id), unchangedSince(vendors.updatedAt, existing.updatedAt)))
+      .returning(),
+    ...(categoryIds ? linkVendorCategories(existing.id, categoryIds, written) : []),
+    ...(brandIds ? linkVendorBrands(existing.id, brandIds, written) : []),
+  ]) as [Vendor[]];
+  return updated;
+}
+
+// Adds categoryIds and unmatchedCategories to vendor rows, and rebuilds
+// `categories` from the linked categories' current paths.
+export async function withCategories(rows: Vendor[]): Promise<Vendor[]> {
+  if (rows.length === 0) return rows;
+  const links = await db.select({
+    vendorId: vendorCategories.vendorId,
+    categoryId: vendorCategories.categoryId,
+    path: sql<string>`coalesce(${categories.path}, ${categories.name})`,
+  })
+    .from(vendorCategories)
+    .innerJoin(categories, eq(vendorCategories.categoryId, categories.id))
+    .where(inArray(vendorCategories.vendorId, rows.map((row) => row.id)))
+    .orderBy(asc(sql`coalesce(${categories.path}, ${categories.name})`));
+
+  return rows.map((row) => {
+    const linked = links.filter((link) => link.vendorId === row.id);
+    const unmatched = row.categories ?? [];
+    return {
+      ...row,
+      categoryIds: linked.map((link) => link.categoryId),
+      unmatchedCategories: unmatched,
+      categories: [...linked.map((link) => link.path), ...unmatched],
+    };
+  });
+}
+
+export interface VendorCategoryPaths {
+  id: string;
+  companyName: string;
+  // Linked categories' paths followed by unmatched legacy strings
+  paths: string[];
+}
+
+// Vendors holding any category path under `prefix` ("GAF > "), linked or
+// legacy.
+export async function findVendorsWithPathPrefix(prefix: string): Promise<VendorCategoryPaths[]> {
+  const rows = await db.select().from(vendors).where(sql`(exists (
+    select 1 from ${vendorCategories}
+    inner join ${categories} on ${categories.id} = ${vendorCategories.categoryId}
+    where ${vendorCategories.vendorId} = ${vendors.id} and starts_with(${categories.path}, ${prefix})
+  ) or exists (
+    select 1 from json_array_elements_text(coalesce(${vendors.categories}, '[]'::json)) as c(path)
+    where starts_with(c.path, ${prefix})
+  ))`);
+  return (await withCategories(rows)).map((row) => ({
+    id: row.id,
+    companyName: row.companyName,
+    paths: row.categories ?? [],
+  }));
+}
+
+// Statements that give each vendor exactly the listed category paths: paths
+// naming a category are linked, the rest kept as legacy strings. `lookup`
+// maps a path to the form it has in the database now, for plans that rename
+// categories in the same batch; `created` holds the ids of categories the
+// batch creates, by path.
+export async function setVendorCategoryPaths(
+  changes: Map<string, string[]>,
+  lookup: (path: string) => string = (path) => path,
+  created: Map<string, string> = new Map(),
+): Promise<BatchItem<'pg'>[]> {
+  const entries = Array.from(changes);
+  const matches = await matchCategoryStrings(entries.flatMap(([, paths]) => paths.map(lookup)));
+  const idFor = (path: string) => created.get(path) ?? matches.get(lookup(path));
+  const now = new Date();
+  return entries.flatMap(([vendorId, paths]) => {
+    const categoryIds = Array.from(new Set(paths.map(idFor).filter((id): id is string => !!id)));
+    const unmatched = paths.filter((path) => !idFor(path));
+    return [
+      db.update(vendors).set({ categories: unmatched, updatedAt: now }).where(eq(vendors.id, vendorId)),
+      ...linkVendorCategories(vendorId, categoryIds),
+    ];
+  });
+}
+
+// Re-roots the legacy strings under `prefix` ("GAF > ") onto `replacement`
+// ("" for top level), or drops them when it is null. Keeps order and drops
+// duplicates, for use inside a batch.
+export function rewriteLegacyPathPrefix(prefix: string, replacement: string | null): BatchItem<'pg'> {
+  const listed = sql`json_array_elements_text(coalesce(${vendors.categories}, '[]'::json)) with ordinality as e(path, ord)`;
+  const rewritten = replacement === null
+    ? sql`null::text`
+    : sql`${replacement}::text || substr(e.path, ${prefix.length + 1})`;
+  return db.update(vendors)
+    .set({
+      categories: sql`coalesce((
+        select json_agg(u.path order by u.ord) from (
+          select case when starts_with(e.path, ${prefix}) then ${rewritten} else e.path end as path, min(e.ord) as ord
+          from ${listed}
+          group by 1
+        ) u where u.path is not null
+      ), '[]'::json)`,
+      updatedAt: new Date(),
+    })
+    .where(sql`exists (select 1 from ${listed} where starts_with(e.path, ${prefix}))`);
+}
+
+export interface CategoryLinkReport {
+  vendors: {
+    id: string;
+    companyName: string;
+    vendorNumber: string | null;
+    // Strings that now name a category and would be linked
+    linkable: { value: string; categoryId: string }[];
+    unmatched: string[];
+  }[];
+  linkable: number;
+  unmatched: number;
+}
+
+// Legacy category strings still on vendors, split into those a category now
+// matches (e.g. one created since the migration) and those nothing matches.
+export async function planCategoryLinks(): Promise<CategoryLinkReport> {
+  const rows = await db.select({
+    id: vendors.id,
+    companyName: vendors.companyName,
+    vendorNumber: vendors.vendorNumber,
+    categories: vendors.categories,
+  })
+    .from(vendors)
+    .where(sql`json_array_length(coalesce(${vendors.categories}, '[]'::json)) > 0`)
+    .orderBy(asc(vendors.companyName));
+
+  const matches = await matchCategoryStrings(rows.flatMap((row) => (row.categories ?? []).map((value) => value.trim())));
+  const report: CategoryLinkReport = { vendors: [], linkable: 0, unmatched: 0 };
+  for (const row of rows) {
+    const values = (row.categories ?? []).map((value) => value.trim());
+    const linkable = values.filter((value) => matches.has(value))
+      .map((value) => ({ value, categoryId: matches.get(value) as string }));
+    const unmatched = values.filter((value) => !matches.has(value));
+    report.vendors.push({ id: row.id, companyName: row.companyName, vendorNumber: row.vendorNumber, linkable, unmatched });
+    report.linkable += linkable.length;
+    report.unmatched += unmatched.length;
+  }
+  return report;
+}
+
+// Links the report's linkable strings and drops them from the legacy column.
+export async function applyCategoryLinks(report: CategoryLinkReport): Promise<void> {
+  const changed = report.vendors.filter((vendor) => vendor.linkable.length > 0);
+  await runBatch(changed.flatMap((vendor) => [
+    db.insert(vendorCategories)
+      .values(vendor.linkable.map(({ categoryId }) => ({ vendorId: vendor.id, categoryId })))
+      .onConflictDoNothing(),
+    db.update(vendors)
+      .set({ categories: vendor.unmatched, updatedAt: new Date() })
+      .where(eq(vendors.id, vendor.id)),
+  ]));
+}
@@ -0,0 +1,62 @@
+import { db } from './db';
+import { categories, services, vendorBrands, vendorCategories, vendors } from './schema';
+import { and, eq, inArray, isNull, or, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+
+// How many vendors each category, service and brand has, computed when the
+// rows are read so the numbers never go stale. A category counts every
+// vendor linked to it or to anything below it, once. Vendors in the trash
+// don't count.
+
+async function countsById(rows: { id: string }[], count: (ids: string[]) => Promise<{ id: string; count: number }[]>) {
+  if (rows.length === 0) return new Map<string, number>();
+  const counted = await count(rows.map((row) => row.id));
+  return new Map(counted.map((row) => [row.id, row.count]));
+}
+
+export async function withCategoryVendorCounts<T extends { id: string }>(rows: T[]): Promise<(T & { vendorCount: number })[]> {
+  const linked = alias(categories, 'linked');
+  const counts = await countsById(rows, (ids) => db.select({
+    id: categories.id,
+    count: sql<number>`count(distinct ${vendorCategories.vendorId})::int`,
+  })
+    .from(categories)
+    .innerJoin(linked, or(
+      eq(linked.id, categories.id),
+      // Descendants, by the server-maintained path
+      sql`left(${linked.path}, length(${categories.path}) + 3) = ${categories.path} || ' > '`,
+    ))
+    .innerJoin(vendorCategories, eq(vendorCategories.categoryId, linked.id))
+    .innerJoin(vendors, and(eq(vendors.id, vendorCategories.vendorId), isNull(vendors.deletedAt)))
+    .where(inArray(categories.id, ids))
+    .groupBy(categories.id));
+  return rows.map((row) => ({ ...row, vendorCount: counts.get(row.id) ?? 0 }));
+}
+
+// vendors.services lists service names
+export async function withServiceVendorCounts<T extends { id: string }>(rows: T[]): Promise<(T & { vendorCount: number })[]> {
+  const counts = await countsById(rows, (ids) => db.select({
+    id: services.id,
+    count: sql<number>`count(${vendors.id})::int`,
+  })
+    .from(services)
+    .innerJoin(vendors, sql`exists (
+      select 1 from json_array_elements_text(coalesce(${vendors.services}, '[]'::json)) as e(name)
+      where e.name = ${services.name}
+    )`)
+    .where(and(inArray(services.id, ids), isNull(vendors.deletedAt)))
+    .groupBy(services.id));
+  return rows.map((row) => ({ ...row, vendorCount: counts.get(row.id) ?? 0 }));
+}
+
+export async function withBrandVendorCounts<T extends { id: string }>(rows: T[]): Promise<(T & { vendorCount: number })[]> {
+  const counts = await countsById(rows, (ids) => db.select({
+    id: vendorBrands.brandId,
+    count: sql<number>`count(*)::int`,
+  })
+    .from(vendorBrands)
+    .innerJoin(vendors, and(eq(vendors.id, vendorBrands.vendorId), isNull(vendors.deletedAt)))
+    .where(inArray(vendorBrands.brandId, ids))
+    .groupBy(vendorBrands.brandId));
+  return rows.map((row) => ({ ...row, vendorCount: counts.get(row.id) ?? 0 }));
+}
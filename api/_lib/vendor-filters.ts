@@ -0,0 +1,86 @@
+import type { VercelRequest } from '@vercel/node';
+import { db } from './db';
+import { vendors, brands, categories, vendorBrands, vendorCategories } from './schema';
+import { queryList, escapeLike } from './query';
+import { queryParam } from './resource-handler';
+import { bestRelevance, isMatch, phoneRelevance, textRelevance } from './relevance';
+import { ilike, inArray, or, sql, type SQL } from 'drizzle-orm';
+
+// Query-param filters shared by the vendor list and the vendor mailing list.
+
+// Vendors with a linked category, or a leftover legacy category string,
+// whose path satisfies the condition. `path` is bound to the path text.
+function vendorHasCategoryPath(condition: (path: SQL) => SQL): SQL {
+  return sql`(exists (
+    select 1 from ${vendorCategories}
+    inner join ${categories} on ${categories.id} = ${vendorCategories.categoryId}
+    where ${vendorCategories.vendorId} = ${vendors.id}
+      and ${condition(sql`coalesce(${categories.path}, ${categories.name})`)}
+  ) or exists (
+    select 1 from json_array_elements_text(coalesce(${vendors.categories}, '[]'::json)) as c(path)
+    where ${condition(sql`c.path`)}
+  ))`;
+}
+
+// category matches a category name or path anywhere in a vendor's hierarchy,
+// so "Roofing" includes "GAF > Roofing > Shingles".
+export function vendorCategoryFilter(categoryFilters: string[]): SQL | undefined {
+  if (categoryFilters.length === 0) return undefined;
+  return or(...categoryFilters.map((category) => vendorHasCategoryPath((path) =>
+    sql`lower(' > ' || ${path} || ' > ') like ${`% > ${escapeLike(category.toLowerCase())} > %`}`)));
+}
+
+function vendorHasBrand(brandIds: string[]): SQL {
+  if (brandIds.length === 0) return sql`false`;
+  return sql`exists (
+    select 1 from ${vendorBrands}
+    where ${vendorBrands.vendorId} = ${vendors.id} and ${inArray(vendorBrands.brandId, brandIds)}
+  )`;
+}
+
+// brand takes brand ids or names
+export async function vendorBrandFilter(brandFilters: string[]): Promise<SQL | undefined> {
+  if (brandFilters.length === 0) return undefined;
+  const matched = await db.select({ id: brands.id }).from(brands)
+    .where(or(
+      inArray(brands.id, brandFilters),
+      inArray(sql`lower(${brands.name})`, brandFilters.map((brand) => brand.toLowerCase())),
+    ));
+  return vendorHasBrand(matched.map((brand) => brand.id));
+}
+
+// Ranks vendors against a search term: fuzzy on name and number, literal on
+// email, digits-only on every phone field.
+export function vendorSearchRank(search: string | undefined): SQL<number> | undefined {
+  const term = search?.trim();
+  if (!term) return undefined;
+  return bestRelevance([
+    textRelevance(vendors.companyName, term),
+    [textRelevance(vendors.vendorNumber, term), 0.9],
+    [textRelevance(vendors.email, term), 0.6],
+    phoneRelevance(term, [vendors.phone, vendors.fax], vendors.phones),
+  ]);
+}
+
+// Free-text search over the fields the vendors page shows: name, number,
+// contact details, category paths and brand names. Names tolerate typos.
+export async function vendorSearchFilter(search: string | undefined): Promise<SQL | undefined> {
+  const term = search?.trim();
+  const rank = vendorSearchRank(term);
+  if (!term || !rank) return undefined;
+  const pattern = `%${escapeLike(term)}%`;
+  const matchedBrands = await db.select({ id: brands.id }).from(brands).where(ilike(brands.name, pattern));
+  return or(
+    isMatch(rank),
+    vendorHasCategoryPath((path) => sql`${path} ilike ${pattern}`),
+    matchedBrands.length > 0 ? vendorHasBrand(matchedBrands.map((brand) => brand.id)) : undefined,
+  );
+}
+
+export async function vendorFilters(req: VercelRequest): Promise<(SQL | undefined)[]> {
+  return [
+    await vendorSearchFilter(queryParam(req, 'search')),
+    vendorCategoryFilter(queryList(req.query.category)),
+    await vendorBrandFilter(queryList(req.query.brand)),
+  ];
+}
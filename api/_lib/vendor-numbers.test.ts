@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { findGaps, planVendorNumbers, type NumberedVendor } from './vendor-numbers';
+
+const FORMAT = { prefix: 'V#', padding: 5 };
+
+// Oldest first, as planVendorNumberRepair reads them
+function vendors(...numbers: (string | null)[]): NumberedVendor[] {
+  return numbers.map((vendorNumber, i) => ({ id: `v${i + 1}`, companyName: `Vendor ${i + 1}`, vendorNumber }));
+}
+
+describe('findGaps', () => {
+  it('merges consecutive missing values into ranges', () => {
+    expect(findGaps(new Set([1, 2, 5, 9]), 9)).toEqual([{ from: 3, to: 4 }, { from: 6, to: 8 }]);
+  });
+
+  it('reports nothing for an unbroken range', () => {
+    expect(findGaps(new Set([1, 2, 3]), 3)).toEqual([]);
+    expect(findGaps(new Set(), 0)).toEqual([]);
+  });
+});
+
+describe('planVendorNumbers', () => {
+  it('leaves well-formed unique numbers alone', () => {
+    const plan = planVendorNumbers(vendors('V#00001', 'V#00002'), 2, FORMAT);
+    expect(plan.changes).toEqual([]);
+    expect(plan.nextValue).toBe(3);
+  });
+
+  it('keeps the oldest holder of a duplicate and renumbers the rest past the highest number', () => {
+    const plan = planVendorNumbers(vendors('V#00003', 'V#00003', 'V#00001'), 3, FORMAT);
+    expect(plan.changes).toEqual([
+      { id: 'v2', companyName: 'Vendor 2', from: 'V#00003', to: 'V#00004', reason: 'collision' },
+    ]);
+    expect(plan.nextValue).toBe(5);
+  });
+
+  it('reports gaps without filling them', () => {
+    const plan = planVendorNumbers(vendors('V#00001', 'V#00004', null), 4, FORMAT);
+    expect(plan.gaps).toEqual([{ from: 2, to: 3 }]);
+    expect(plan.changes).toEqual([
+      { id: 'v3', companyName: 'Vendor 3', from: null, to: 'V#00005', reason: 'missing' },
+    ]);
+  });
+
+  it('never reissues numbers the sequence handed out to since-deleted vendors', () => {
+    const plan = planVendorNumbers(vendors('V#00002', null, ''), 10, FORMAT);
+    expect(plan.changes.map((change) => change.to)).toEqual(['V#00011', 'V#00012']);
+    expect(plan.nextValue).toBe(13);
+  });
+
+  it('rewrites numbers in an old prefix or padding', () => {
+    const plan = planVendorNumbers(vendors('VN-7', 'V#0008'), 8, FORMAT);
+    expect(plan.changes).toEqual([
+      { id: 'v1', companyName: 'Vendor 1', from: 'VN-7', to: 'V#00007', reason: 'format' },
+      { id: 'v2', companyName: 'Vendor 2', from: 'V#0008', to: 'V#00008', reason: 'format' },
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+import { db } from './db';
+import { vendors } from './schema';
+import { and, asc, eq, ne, sql } from 'drizzle-orm';
+
+// Vendor numbers look like "V#00042": a prefix plus a zero-padded counter.
+// The counter is the vendor_number_seq sequence (migrations/0002), so
+// concurrent creates never draw the same value and deleted numbers are not
+// handed out again. Prefix and padding are set per deployment.
+
+export const VENDOR_NUMBER_SEQUENCE = 'vendor_number_seq';
+
+export interface VendorNumberFormat {
+  prefix: string;
+  padding: number;
+}
+
+export function getVendorNumberFormat(): VendorNumberFormat {
+  const padding = Number.parseInt(process.env.VENDOR_NUMBER_PADDING ?? '', 10);
+  return {
+    prefix: process.env.VENDOR_NUMBER_PREFIX ?? 'V#',
+    padding: Number.isInteger(padding) && padding > 0 ? padding : 5,
+  };
+}
+
+export function formatVendorNumber(value: number, format = getVendorNumberFormat()): string {
+  return `${format.prefix}${String(value).padStart(format.padding, '0')}`;
+}
+
+// The counter part of a vendor number, whatever prefix it was issued with.
+export function parseVendorNumber(vendorNumber: string | null | undefined): number | null {
+  const match = vendorNumber?.match(/(\d+)\s*$/);
+  if (!match) return null;
+  const value = Number.parseInt(match[1], 10);
+  return value > 0 ? value : null;
+}
+
+export async function isVendorNumberTaken(vendorNumber: string, exceptId?: string): Promise<boolean> {
+  const [taken] = await db.select({ id: vendors.id }).from(vendors)
+    .where(and(
+      eq(vendors.vendorNumber, vendorNumber),
+      exceptId ? ne(vendors.id, exceptId) : undefined,
+    ));
+  return Boolean(taken);
+}
+
+// Draws the next number from the sequence, skipping any value a vendor was
+// given by hand.
+export async function allocateVendorNumber(): Promise<string> {
+  const format = getVendorNumberFormat();
+  for (;;) {
+    const { rows } = await db.execute<{ value: string }>(
+      sql`select nextval(${VENDOR_NUMBER_SEQUENCE}) as value`,
+    );
+    const vendorNumber = formatVendorNumber(Number(rows[0].value), format);
+    if (!(await isVendorNumberTaken(vendorNumber))) {
+      return vendorNumber;
+    }
+  }
+}
+
+export interface VendorNumberChange {
+  id: string;
+  companyName: string;
+  from: string | null;
+  to: string;
+  reason: 'missing' | 'collision' | 'format';
+}
+
+export interface VendorNumberRepairPlan {
+  format: VendorNumberFormat;
+  changes: VendorNumberChange[];
+  // Counter values below the highest issued number that no vendor holds.
+  // They may have belonged to deleted vendors, so they are only reported.
+  gaps: { from: number; to: number }[];
+  nextValue: number;
+}
+
+export interface NumberedVendor {
+  id: string;
+  companyName: string;
+  vendorNumber: string | null;
+}
+
+export function findGaps(used: Set<number>, max: number): { from: number; to: number }[] {
+  const gaps: { from: number; to: number }[] = [];
+  for (let value = 1; value <= max; value++) {
+    if (used.has(value)) continue;
+    const last = gaps[gaps.length - 1];
+    if (last && last.to === value - 1) {
+      last.to = value;
+    } else {
+      gaps.push({ from: value, to: value });
+    }
+  }
+  return gaps;
+}
+
+// Works out how to bring every vendor onto a unique, well-formed number.
+// `rows` come oldest first: the oldest vendor keeps a contested counter
+// value, and later duplicates and vendors without a number get new ones past
+// both the highest number in use and `issued`, the last value the sequence
+// handed out. Numbers in an old prefix or padding are rewritten in the
+// current format.
+export function planVendorNumbers(
+  rows: NumberedVendor[],
+  issued: number,
+  format = getVendorNumberFormat(),
+): VendorNumberRepairPlan {
+  const used = new Set<number>();
+  const changes: VendorNumberChange[] = [];
+  const needsNumber: { row: NumberedVendor; reason: 'missing' | 'collision' }[] = [];
+
+  for (const row of rows) {
+    const value = parseVendorNumber(row.vendorNumber);
+    if (value === null) {
+      needsNumber.push({ row, reason: 'missing' });
+      continue;
+    }
+    if (used.has(value)) {
+      needsNumber.push({ row, reason: 'collision' });
+      continue;
+    }
+    used.add(value);
+    const formatted = formatVendorNumber(value, format);
+    if (formatted !== row.vendorNumber) {
+      changes.push({ id: row.id, companyName: row.companyName, from: row.vendorNumber, to: formatted, reason: 'format' });
+    }
+  }
+
+  const max = used.size > 0 ? Math.max(...Array.from(used)) : 0;
+  const gaps = findGaps(used, max);
+
+  let next = Math.max(max, issued) + 1;
+  for (const { row, reason } of needsNumber) {
+    changes.push({
+      id: row.id,
+      companyName: row.companyName,
+      from: row.vendorNumber,
+      to: formatVendorNumber(next++, format),
+      reason,
+    });
+  }
+
+  return { format, changes, gaps, nextValue: next };
+}
+
+export async function planVendorNumberRepair(): Promise<VendorNumberRepairPlan> {
+  const rows = await db.select({
+    id: vendors.id,
+    companyName: vendors.companyName,
+    vendorNumber: vendors.vendorNumber,
+  }).from(vendors).orderBy(asc(vendors.createdAt), asc(vendors.id));
+
+  // last_value is null until the sequence has handed out a number
+  const { rows: [sequence] } = await db.execute<{ value: string | null }>(
+    sql`select last_value as value from pg_sequences where sequencename = ${VENDOR_NUMBER_SEQUENCE}`,
+  );
+  return planVendorNumbers(rows, Number(sequence?.value ?? 0));
+}
+
+// Applies a repair plan and moves the sequence past every number in use,
+// never back.
+// Renumbered vendors are written before reformatted ones: a reformatted
+// number may equal the old value of a duplicate being moved away.
+export async function repairVendorNumbers(plan: VendorNumberRepairPlan): Promise<void> {
+  const ordered = [
+    ...plan.changes.filter((change) => change.reason !== 'format'),
+    ...plan.changes.filter((change) => change.reason === 'format'),
+  ];
+
+  await db.batch([
+    db.execute(sql`create sequence if not exists vendor_number_seq`),
+    // Only ever forward: numbers past the highest in use may belong to
+    // deleted vendors and must not be reissued
+    db.execute(sql`select setval(${VENDOR_NUMBER_SEQUENCE}, greatest(
+      ${plan.nextValue}::bigint,
+      (select case when is_called then last_value + 1 else last_value end from ${sql.identifier(VENDOR_NUMBER_SEQUENCE)})
+    ), false)`),
+    ...ordered.map((change) => db.update(vendors)
+      .set({ vendorNumber: change.to, updatedAt: new Date() })
+      .where(eq(vendors.id, change.id))),
+  ]);
+}
@@ -0,0 +1,39 @@
+import { db } from '../_lib/db';
+import { auditLog } from '../_lib/schema';
+import { createApiHandler, queryParam, parseLimit, HttpError } from '../_lib/resource-handler';
+import { queryList } from '../_lib/query';
+import { AUDIT_ENTITY_TYPES, type AuditEntityType } from '../_lib/audit';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+
+// GET /api/activity[?entityType=vendor&entityType=brand][&entityId=][&limit=20]
+// Audit log entries, newest first, with each one's field changes.
+export default createApiHandler('Activity', {
+  GET: async (req, res) => {
+    const types = queryList(req.query.entityType);
+    const unknown = types.filter((type) => !AUDIT_ENTITY_TYPES.includes(type as AuditEntityType));
+    if (unknown.length > 0) {
+      throw new HttpError(400, `entityType must be one of ${AUDIT_ENTITY_TYPES.join(', ')}`);
+    }
+    const entityId = queryParam(req, 'entityId');
+    const limit = parseLimit(req, 20, 100);
+
+    const entries = await db.select({
+      id: auditLog.id,
+      entityType: auditLog.entityType,
+      entityId: auditLog.entityId,
+      entityName: auditLog.entityName,
+      action: auditLog.action,
+      changes: auditLog.changes,
+      restoredFrom: auditLog.restoredFrom,
+      createdAt: auditLog.createdAt,
+    })
+      .from(auditLog)
+      .where(and(
+        types.length > 0 ? inArray(auditLog.entityType, types) : undefined,
+        entityId ? eq(auditLog.entityId, entityId) : undefined,
+      ))
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(limit);
+    return res.status(200).json(entries);
+  },
+});
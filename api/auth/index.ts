@@ -0,0 +1,30 @@
+import { createApiHandler, parseBody, HttpError } from '../_lib/resource-handler';
+import { authenticate, endSession, requireUser, startSession } from '../_lib/auth';
+import { loginSchema } from '../_lib/schema';
+
+// GET    /api/auth
+//   The signed-in user, or 401.
+// POST   /api/auth  { email, password }
+//   Signs in and sets the session cookie.
+// DELETE /api/auth
+//   Signs out.
+export default createApiHandler('Auth', {
+  GET: async (req, res) => {
+    return res.status(200).json(await requireUser(req));
+  },
+
+  POST: async (req, res) => {
+    const { email, password } = parseBody(loginSchema, req.body);
+    const user = await authenticate(email, password);
+    if (!user) {
+      throw new HttpError(401, 'Incorrect email or password');
+    }
+    startSession(res, user);
+    return res.status(200).json(user);
+  },
+
+  DELETE: async (_req, res) => {
+    endSession(res);
+    return res.status(200).json({ success: true });
+  },
+}, { anonymous: true });
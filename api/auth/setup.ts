@@ -0,0 +1,23 @@
+import { createApiHandler, parseBody, HttpError } from '../_lib/resource-handler';
+import { createFirstUser, hasUsers, startSession } from '../_lib/auth';
+import { insertUserSchema } from '../_lib/schema';
+
+// GET  /api/auth/setup
+//   { required } - true until the first account exists.
+// POST /api/auth/setup  { email, name, password }
+//   Creates the first account, an admin, and signs it in. Refused once any
+//   account exists; later accounts are added through /api/users.
+export default createApiHandler('Auth setup', {
+  GET: async (_req, res) => {
+    return res.status(200).json({ required: !(await hasUsers()) });
+  },
+
+  POST: async (req, res) => {
+    const user = await createFirstUser(parseBody(insertUserSchema, req.body));
+    if (!user) {
+      throw new HttpError(409, 'Setup is already complete; sign in instead');
+    }
+    startSession(res, user);
+    return res.status(201).json(user);
+  },
+}, { anonymous: true });
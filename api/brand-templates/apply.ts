@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { db } from '../_lib/db';
+import { brands, brandTemplates } from '../_lib/schema';
+import { createApiHandler, parseBody, notFound } from '../_lib/resource-handler';
+import { applyTemplateToBrand } from '../_lib/brand-templates';
+import { eq } from 'drizzle-orm';
+
+const applySchema = z.object({
+  templateId: z.string().min(1),
+  brandId: z.string().min(1),
+});
+
+// POST /api/brand-templates/apply { templateId, brandId }
+// Generates the brand's brandCategories rows from the template hierarchy and
+// records the template and version on the brand.
+export default createApiHandler('Brand template apply', {
+  POST: async (req, res) => {
+    const { templateId, brandId } = parseBody(applySchema, req.body);
+
+    const [template] = await db.select().from(brandTemplates).where(eq(brandTemplates.id, templateId));
+    if (!template) {
+      throw notFound('Brand template');
+    }
+    const [brand] = await db.select().from(brands).where(eq(brands.id, brandId));
+    if (!brand) {
+      throw notFound('Brand');
+    }
+
+    const result = await applyTemplateToBrand(brand, template);
+    return res.status(200).json(result);
+  },
+});
@@ -0,0 +1,58 @@
+import { db } from '../_lib/db';
+import { brands, brandTemplates, brandTemplateVersions } from '../_lib/schema';
+import { createResourceHandler, HttpError } from '../_lib/resource-handler';
+import { queryList } from '../_lib/query';
+import { brandTemplateBodySchema, snapshotTemplateVersion } from '../_lib/brand-templates';
+import { eq, inArray, sql } from 'drizzle-orm';
+
+async function brandsUsingTemplate(templateId: string) {
+  return db.select({ id: brands.id }).from(brands).where(eq(brands.templateId, templateId));
+}
+
+export default createResourceHandler({
+  name: 'Brand template',
+  table: brandTemplates,
+  insertSchema: brandTemplateBodySchema,
+
+  filters: (req) => {
+    const industries = queryList(req.query.industry);
+    return [industries.length > 0 ? inArray(brandTemplates.industry, industries) : undefined];
+  },
+  sortFields: {
+    name: sql`lower(${brandTemplates.name})`,
+    industry: brandTemplates.industry,
+    createdAt: brandTemplates.createdAt,
+    updatedAt: brandTemplates.updatedAt,
+  },
+  defaultSort: { field: 'name', order: 'asc' },
+
+  afterCreate: async (template) => {
+    await snapshotTemplateVersion(template);
+  },
+
+  // Brands record which version their categories came from, so structural
+  // changes to a template in use must go through /api/brand-templates/publish
+  beforeUpdate: async (data, existing) => {
+    if (data.template !== undefined || data.version !== undefined) {
+      const inUse = await brandsUsingTemplate(existing.id);
+      if (inUse.length > 0) {
+        throw new HttpError(409, 'Template is in use; publish a new version instead of editing it');
+      }
+    }
+    return data;
+  },
+
+  beforeDelete: async (existing) => {
+    const inUse = await brandsUsingTemplate(existing.id);
+    if (inUse.length > 0) {
+      throw new HttpError(409, `Template is used by ${inUse.length} brand(s)`);
+    }
+  },
+
+  delete: async (existing) => {
+    await db.batch([
+      db.delete(brandTemplateVersions).where(eq(brandTemplateVersions.templateId, existing.id)),
+      db.delete(brandTemplates).where(eq(brandTemplates.id, existing.id)),
+    ]);
+  },
+});
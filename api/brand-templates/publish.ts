@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { db } from '../_lib/db';
+import { brandTemplates, brandTemplateVersions } from '../_lib/schema';
+import { createApiHandler, parseBody, notFound, HttpError } from '../_lib/resource-handler';
+import { brandTemplateBodySchema, snapshotTemplateVersion } from '../_lib/brand-templates';
+import { and, eq } from 'drizzle-orm';
+
+const publishSchema = z.object({
+  templateId: z.string().min(1),
+  version: z.string().trim().min(1, 'Version is required'),
+  template: brandTemplateBodySchema.shape.template,
+  notes: z.string().optional(),
+});
+
+// POST /api/brand-templates/publish { templateId, version, template, notes? }
+// Publishes a new version of a template. The previous version stays in
+// brand_template_versions so brands still on it can be diffed and upgraded.
+export default createApiHandler('Brand template publish', {
+  POST: async (req, res) => {
+    const { templateId, version, template, notes } = parseBody(publishSchema, req.body);
+    const [current] = await db.select().from(brandTemplates).where(eq(brandTemplates.id, templateId));
+    if (!current) {
+      throw notFound('Brand template');
+    }
+
+    const [existingVersion] = await db.select({ id: brandTemplateVersions.id }).from(brandTemplateVersions)
+      .where(and(eq(brandTemplateVersions.templateId, templateId), eq(brandTemplateVersions.version, version)));
+    if (existingVersion || current.version === version) {
+      throw new HttpError(409, `Version ${version} has already been published`);
+    }
+
+    const [, , [published]] = await db.batch([
+      snapshotTemplateVersion(current),
+      snapshotTemplateVersion({ ...current, template, version }, notes),
+      db.update(brandTemplates)
+        .set({ template, version, updatedAt: new Date() })
+        .where(eq(brandTemplates.id, templateId))
+        .returning(),
+    ]);
+
+    return res.status(200).json(published);
+  },
+});
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { db } from '../_lib/db';
+import { brands, brandTemplates } from '../_lib/schema';
+import { createApiHandler, parseBody, queryParam, notFound, HttpError } from '../_lib/resource-handler';
+import { planBrandUpgrade, upgradeBrands } from '../_lib/brand-changes';
+import { and, eq, inArray, isNull, ne, or } from 'drizzle-orm';
+
+const upgradeSchema = z.object({
+  templateId: z.string().min(1),
+  brandIds: z.array(z.string().min(1)).min(1, 'Select at least one brand'),
+  // planVersion of each previewed brand, by brand id
+  planVersions: z.record(z.string()).optional(),
+});
+
+async function findTemplate(templateId: string) {
+  const [template] = await db.select().from(brandTemplates).where(eq(brandTemplates.id, templateId));
+  if (!template) {
+    throw notFound('Brand template');
+  }
+  return template;
+}
+
+// GET  /api/brand-templates/upgrade?templateId=[&brandId=]
+//   Per-brand diff of the categories an upgrade to the template's current
+//   version would add or remove, including the vendor paths it would touch.
+// POST /api/brand-templates/upgrade { templateId, brandIds, planVersions? }
+//   Applies those upgrades to the selected brands, which must be on the
+//   template, in one batch. 409 with the current plan when a brand's plan no
+//   longer matches the planVersion it was previewed as.
+export default createApiHandler('Brand template upgrade', {
+  GET: async (req, res) => {
+    const templateId = queryParam(req, 'templateId');
+    const brandId = queryParam(req, 'brandId');
+    if (!templateId) {
+      throw new HttpError(400, 'templateId is required');
+    }
+
+    const template = await findTemplate(templateId);
+
+    let candidates;
+    if (brandId) {
+      candidates = await db.select().from(brands).where(eq(brands.id, brandId));
+      if (candidates.length === 0) {
+        throw notFound('Brand');
+      }
+    } else {
+      // Brands on this template that are behind its current version
+      candidates = await db.select().from(brands)
+        .where(and(
+          eq(brands.templateId, templateId),
+          or(isNull(brands.templateVersion), ne(brands.templateVersion, template.version ?? '')),
+        ));
+    }
+
+    const plans = [];
+    for (const brand of candidates) {
+      plans.push(await planBrandUpgrade(brand, template));
+    }
+    return res.status(200).json(plans);
+  },
+
+  POST: async (req, res) => {
+    const { templateId, brandIds: requested, planVersions } = parseBody(upgradeSchema, req.body);
+    const template = await findTemplate(templateId);
+    const brandIds = [...new Set(requested)];
+
+    const selected = await db.select().from(brands).where(inArray(brands.id, brandIds));
+    if (selected.length !== brandIds.length) {
+      throw notFound('Brand');
+    }
+    const otherTemplate = selected.filter((brand) => brand.templateId !== templateId);
+    if (otherTemplate.length > 0) {
+      throw new HttpError(400, 'Brands are not on this template', { brandIds: otherTemplate.map((brand) => brand.id) });
+    }
+
+    const upgraded = await upgradeBrands(selected, template, planVersions);
+    return res.status(200).json({ upgraded });
+  },
+});
@@ -0,0 +1,19 @@
+import { db } from '../_lib/db';
+import { brandTemplateVersions } from '../_lib/schema';
+import { createApiHandler, queryParam, HttpError } from '../_lib/resource-handler';
+import { desc, eq } from 'drizzle-orm';
+
+// GET /api/brand-templates/versions?templateId=
+export default createApiHandler('Brand template versions', {
+  GET: async (req, res) => {
+    const templateId = queryParam(req, 'templateId');
+    if (!templateId) {
+      throw new HttpError(400, 'templateId is required');
+    }
+
+    const result = await db.select().from(brandTemplateVersions)
+      .where(eq(brandTemplateVersions.templateId, templateId))
+      .orderBy(desc(brandTemplateVersions.createdAt));
+    return res.status(200).json(result);
+  },
+});
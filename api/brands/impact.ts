@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { db } from '../_lib/db';
+import { brands } from '../_lib/schema';
+import { createApiHandler, notFound, parseBody } from '../_lib/resource-handler';
+import { brandChangeSchema, planBrandChange } from '../_lib/brand-changes';
+import { eq } from 'drizzle-orm';
+
+const impactSchema = brandChangeSchema.extend({
+  brandId: z.string().min(1),
+});
+
+// POST /api/brands/impact  { brandId, name?, templateId?, categories? }
+// Previews a rename, a template change or a new category list: the
+// category paths it adds and removes, and each vendor whose paths change.
+// Nothing is written; POST the same body with the plan's planVersion to
+// /api/brands/reconcile to apply.
+export default createApiHandler('Brand impact', {
+  POST: async (req, res) => {
+    const { brandId, ...change } = parseBody(impactSchema, req.body);
+    const [brand] = await db.select().from(brands).where(eq(brands.id, brandId));
+    if (!brand) {
+      throw notFound('Brand');
+    }
+    return res.status(200).json(await planBrandChange(brand, change));
+  },
+});
@@ -1,83 +1,64 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { db } from '../_lib/db';
+import { z } from 'zod';
 import { brands, insertBrandSchema } from '../_lib/schema';
-import { eq, ilike, desc } from 'drizzle-orm';
-
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
+import { db } from '../_lib/db';
+import { createResourceHandler, HttpError, queryParam } from '../_lib/resource-handler';
+import { queryList, escapeLike } from '../_lib/query';
+import { withBrandVendorCounts } from '../_lib/vendor-counts';
+import {
+  applyBrandChange, BRAND_DELETE_MODES, deleteBrand, getBrandDeleteImpact, type BrandDeleteMode,
+} from '../_lib/brand-changes';
+import { eq, ilike, inArray, sql } from 'drizzle-orm';
 
-  const { id, search, industry } = req.query;
+export default createResourceHandler({
+  name: 'Brand',
+  table: brands,
+  insertSchema: insertBrandSchema,
+  audit: { entityType: 'brand', label: (row) => row.name },
 
-  try {
-    // Single brand operations
-    if (id && typeof id === 'string') {
-      if (req.method === 'GET') {
-        const [brand] = await db.select().from(brands).where(eq(brands.id, id));
-        if (!brand) {
-          return res.status(404).json({ error: 'Brand not found' });
-        }
-        return res.status(200).json(brand);
-      }
+  filters: (req) => {
+    const industries = queryList(req.query.industry);
+    const search = queryParam(req, 'search');
+    return [
+      industries.length > 0 ? inArray(brands.industry, industries) : undefined,
+      search ? ilike(brands.name, `%${escapeLike(search)}%`) : undefined,
+    ];
+  },
+  sortFields: {
+    name: sql`lower(${brands.name})`,
+    industry: brands.industry,
+    createdAt: brands.createdAt,
+    updatedAt: brands.updatedAt,
+  },
+  presentList: withBrandVendorCounts,
+  present: async (row) => (await withBrandVendorCounts([row]))[0],
 
-      if (req.method === 'PATCH' || req.method === 'PUT') {
-        const [updated] = await db.update(brands)
-          .set({ ...req.body, updatedAt: new Date() } as any)
-          .where(eq(brands.id, id))
-          .returning();
-        if (!updated) {
-          return res.status(404).json({ error: 'Brand not found' });
-        }
-        return res.status(200).json(updated);
-      }
-
-      if (req.method === 'DELETE') {
-        const [deleted] = await db.delete(brands)
-          .where(eq(brands.id, id))
-          .returning();
-        if (!deleted) {
-          return res.status(404).json({ error: 'Brand not found' });
-        }
-        return res.status(200).json({ success: true });
-      }
+  // A rename carries every "<brand> > ..." path along (see /api/brands/impact),
+  // only as previewed when it names the preview's planVersion
+  updateSchema: insertBrandSchema.partial().extend({ planVersion: z.string().optional() }),
+  update: async (existing, data) => {
+    const { name, planVersion, ...values } = data;
+    if (typeof name === 'string' && name.trim() !== existing.name) {
+      return (await applyBrandChange(existing, { name: name.trim() }, values, planVersion as string | undefined)).brand;
     }
+    const [updated] = await db.update(brands).set({ ...values, updatedAt: new Date() }).where(eq(brands.id, existing.id)).returning();
+    return updated;
+  },
 
-    // List operations
-    if (req.method === 'GET') {
-      let result;
-      if (industry && typeof industry === 'string') {
-        result = await db.select().from(brands)
-          .where(eq(brands.industry, industry))
-          .orderBy(desc(brands.createdAt));
-      } else if (search && typeof search === 'string') {
-        result = await db.select().from(brands)
-          .where(ilike(brands.name, `%${search}%`))
-          .orderBy(desc(brands.createdAt));
-      } else {
-        result = await db.select().from(brands).orderBy(desc(brands.createdAt));
+  // ?mode=remove deletes the brand's categories everywhere; ?mode=generic
+  // keeps them as generic categories. Without one, a brand anything depends
+  // on is refused with what the delete would touch.
+  beforeDelete: async (existing, req) => {
+    const mode = queryParam(req, 'mode');
+    if (mode) {
+      if (!BRAND_DELETE_MODES.includes(mode as BrandDeleteMode)) {
+        throw new HttpError(400, `mode must be one of: ${BRAND_DELETE_MODES.join(', ')}`);
       }
-      return res.status(200).json(result);
+      return;
     }
-
-    if (req.method === 'POST') {
-      const parsed = insertBrandSchema.safeParse(req.body);
-      if (!parsed.success) {
-        return res.status(400).json({ error: parsed.error.message });
-      }
-      const [newBrand] = await db.insert(brands)
-        .values(parsed.data as any)
-        .returning();
-      return res.status(201).json(newBrand);
+    const impact = await getBrandDeleteImpact(existing);
+    if (impact.vendors > 0 || impact.categories > 0 || impact.brandCategories > 0) {
+      throw new HttpError(409, 'Brand is in use; choose whether to remove its categories or convert them to generic', { ...impact });
     }
-
-    return res.status(405).json({ error: 'Method not allowed' });
-  } catch (error) {
-    console.error('Brands API error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
-  }
-}
+  },
+  delete: (existing, req) => deleteBrand(existing, (queryParam(req, 'mode') ?? 'remove') as BrandDeleteMode),
+});
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { db } from '../_lib/db';
+import { brands } from '../_lib/schema';
+import { createApiHandler, notFound, parseBody } from '../_lib/resource-handler';
+import { applyBrandChange, brandChangeSchema } from '../_lib/brand-changes';
+import { recordAudit } from '../_lib/audit';
+import { eq } from 'drizzle-orm';
+
+const reconcileSchema = brandChangeSchema.extend({
+  brandId: z.string().min(1),
+  planVersion: z.string().min(1, 'planVersion from /api/brands/impact is required'),
+});
+
+// POST /api/brands/reconcile  { brandId, name?, templateId?, categories?, planVersion }
+// Applies the change /api/brands/impact previewed as `planVersion`, brand and
+// vendors together in one batch; 409 with the current plan when it no longer
+// matches. Returns the applied plan and the updated brand.
+export default createApiHandler('Brand reconcile', {
+  POST: async (req, res) => {
+    const { brandId, planVersion, ...change } = parseBody(reconcileSchema, req.body);
+    const [brand] = await db.select().from(brands).where(eq(brands.id, brandId));
+    if (!brand) {
+      throw notFound('Brand');
+    }
+    const result = await applyBrandChange(brand, change, {}, planVersion);
+    await recordAudit({
+      entityType: 'brand',
+      entityId: brand.id,
+      entityName: result.brand.name,
+      action: 'update',
+      before: brand,
+      after: result.brand,
+    });
+    return res.status(200).json(result);
+  },
+});
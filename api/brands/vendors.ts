@@ -0,0 +1,14 @@
+import { createApiHandler, HttpError, queryParam } from '../_lib/resource-handler';
+import { listBrandVendors, withBrands } from '../_lib/vendor-brands';
+
+// GET /api/brands/vendors?brandId=
+//   Vendors assigned the brand, by company name.
+export default createApiHandler('Brand vendors', {
+  GET: async (req, res) => {
+    const brandId = queryParam(req, 'brandId');
+    if (!brandId) {
+      throw new HttpError(400, 'brandId is required');
+    }
+    return res.status(200).json(await withBrands(await listBrandVendors(brandId)));
+  },
+});
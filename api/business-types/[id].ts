@@ -0,0 +1,2 @@
+// Served by the shared business type resource handler, which reads the id from the path.
+export { default } from './index';
@@ -0,0 +1,78 @@
+import { db } from '../_lib/db';
+import { businessTypes, insertBusinessTypeSchema } from '../_lib/schema';
+import { createResourceHandler, queryParam, HttpError } from '../_lib/resource-handler';
+import { escapeLike } from '../_lib/query';
+import { getBusinessTypeUsage, countBusinessTypeUsage, replaceBusinessTypeName } from '../_lib/business-types';
+import { and, eq, ilike, ne, sql } from 'drizzle-orm';
+
+// Names are unique; without this a clash would surface as a constraint error
+async function assertNameAvailable(name: string, exceptId?: string) {
+  const [duplicate] = await db.select({ id: businessTypes.id }).from(businessTypes)
+    .where(and(eq(businessTypes.name, name), exceptId ? ne(businessTypes.id, exceptId) : undefined));
+  if (duplicate) {
+    throw new HttpError(409, 'A business type with this name already exists');
+  }
+}
+
+export default createResourceHandler({
+  name: 'Business type',
+  table: businessTypes,
+  insertSchema: insertBusinessTypeSchema,
+
+  filters: (req) => {
+    const search = queryParam(req, 'search');
+    return [search ? ilike(businessTypes.name, `%${escapeLike(search)}%`) : undefined];
+  },
+  sortFields: {
+    name: sql`lower(${businessTypes.name})`,
+    createdAt: businessTypes.createdAt,
+    updatedAt: businessTypes.updatedAt,
+  },
+  defaultSort: { field: 'name', order: 'asc' },
+
+  presentList: async (rows) => {
+    const usage = await getBusinessTypeUsage();
+    return rows.map((type) => ({ ...type, usageCount: usage.get(type.name) ?? 0 }));
+  },
+
+  present: async (type) => ({ ...type, usageCount: await countBusinessTypeUsage(type.name) }),
+
+  beforeCreate: async (data) => {
+    await assertNameAvailable(data.name as string);
+    return data;
+  },
+
+  beforeUpdate: async (data, existing) => {
+    if (data.name && data.name !== existing.name) {
+      await assertNameAvailable(data.name as string, existing.id);
+    }
+    return data;
+  },
+
+  update: async (existing, data) => {
+    const update = db.update(businessTypes)
+      .set({ ...data, updatedAt: new Date() } as any)
+      .where(eq(businessTypes.id, existing.id))
+      .returning();
+
+    // Customers reference business types by name, so a rename has to follow through
+    if (data.name && data.name !== existing.name) {
+      const [[updated]] = await db.batch([update, replaceBusinessTypeName(existing.name, data.name as string)]);
+      return updated;
+    }
+
+    const [updated] = await update;
+    return updated;
+  },
+
+  beforeDelete: async (existing) => {
+    const usageCount = await countBusinessTypeUsage(existing.name);
+    if (usageCount > 0) {
+      throw new HttpError(
+        409,
+        `Business type is still used by ${usageCount} customer(s). Merge it into another type instead.`,
+        { usageCount },
+      );
+    }
+  },
+});
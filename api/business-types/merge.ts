@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { db } from '../_lib/db';
+import { businessTypes, proCustomers } from '../_lib/schema';
+import { createApiHandler, parseBody, notFound } from '../_lib/resource-handler';
+import { countBusinessTypeUsage, replaceBusinessTypeName } from '../_lib/business-types';
+import { eq } from 'drizzle-orm';
+
+const mergeSchema = z.object({
+  sourceId: z.string().min(1),
+  targetId: z.string().min(1),
+}).refine((data) => data.sourceId !== data.targetId, {
+  message: 'Cannot merge a business type into itself',
+  path: ['targetId'],
+});
+
+// POST /api/business-types/merge { sourceId, targetId }
+// Rewrites every customer tagged with the source type to the target type,
+// then deletes the source type. Both steps run in a single batch.
+export default createApiHandler('Business type merge', {
+  POST: async (req, res) => {
+    const { sourceId, targetId } = parseBody(mergeSchema, req.body);
+    const [source] = await db.select().from(businessTypes).where(eq(businessTypes.id, sourceId));
+    const [target] = await db.select().from(businessTypes).where(eq(businessTypes.id, targetId));
+    if (!source || !target) {
+      throw notFound('Business type');
+    }
+
+    const [rewritten] = await db.batch([
+      replaceBusinessTypeName(source.name, target.name).returning({ id: proCustomers.id }),
+      db.delete(businessTypes).where(eq(businessTypes.id, source.id)),
+    ]);
+
+    const usageCount = await countBusinessTypeUsage(target.name);
+    return res.status(200).json({
+      merged: source.name,
+      into: { ...target, usageCount },
+      customersUpdated: rewritten.length,
+    });
+  },
+});
@@ -1,72 +1,64 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { categories, insertCategorySchema, categoryFieldsSchema } from '../_lib/schema';
+import { createResourceHandler, HttpError, parseBody, queryParam } from '../_lib/resource-handler';
+import { applyCategoryChange, placeNewCategory, planCategoryChange, refreshSubcategories } from '../_lib/category-tree';
+import { withCategoryVendorCounts } from '../_lib/vendor-counts';
 import { db } from '../_lib/db';
-import { categories, insertCategorySchema } from '../_lib/schema';
-import { eq, desc } from 'drizzle-orm';
+import { queryList, escapeLike } from '../_lib/query';
+import { eq, ilike, inArray, or, sql } from 'drizzle-orm';
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+export default createResourceHandler({
+  name: 'Category',
+  table: categories,
+  insertSchema: insertCategorySchema,
+  updateSchema: categoryFieldsSchema.partial(),
+  audit: { entityType: 'category', label: (row) => row.path ?? row.name },
 
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
+  filters: (req) => {
+    const brandIds = queryList(req.query.brandId);
+    const categoryTypes = queryList(req.query.categoryType);
+    const parentId = queryParam(req, 'parentId');
+    const search = queryParam(req, 'search');
+    return [
+      brandIds.length > 0 ? inArray(categories.brandId, brandIds) : undefined,
+      categoryTypes.length > 0 ? inArray(categories.categoryType, categoryTypes) : undefined,
+      parentId ? eq(categories.parentId, parentId) : undefined,
+      search ? or(
+        ilike(categories.name, `%${escapeLike(search)}%`),
+        ilike(categories.path, `%${escapeLike(search)}%`),
+      ) : undefined,
+    ];
+  },
+  sortFields: {
+    name: sql`lower(${categories.name})`,
+    path: sql`lower(${categories.path})`,
+    level: sql`${categories.level}::int`,
+    createdAt: categories.createdAt,
+    updatedAt: categories.updatedAt,
+  },
+  presentList: withCategoryVendorCounts,
+  present: async (row) => (await withCategoryVendorCounts([row]))[0],
 
-  const { id } = req.query;
+  // path and level are always derived from the parent, never taken from the client
+  beforeCreate: placeNewCategory,
+  afterCreate: (row) => refreshSubcategories(row.parentId),
 
-  try {
-    // Single category operations
-    if (id && typeof id === 'string') {
-      if (req.method === 'GET') {
-        const [category] = await db.select().from(categories).where(eq(categories.id, id));
-        if (!category) {
-          return res.status(404).json({ error: 'Category not found' });
-        }
-        return res.status(200).json(category);
-      }
+  // Re-check the branded/generic rule against the row as it will be saved
+  beforeUpdate: (data, existing) => {
+    const { id, createdAt, updatedAt, ...current } = existing;
+    parseBody(insertCategorySchema, { ...current, ...data });
+    return data;
+  },
+  // Renames and moves carry the whole subtree along
+  update: async (existing, data) => applyCategoryChange(await planCategoryChange(existing, data)),
 
-      if (req.method === 'PATCH' || req.method === 'PUT') {
-        const [updated] = await db.update(categories)
-          .set({ ...req.body, updatedAt: new Date() } as any)
-          .where(eq(categories.id, id))
-          .returning();
-        if (!updated) {
-          return res.status(404).json({ error: 'Category not found' });
-        }
-        return res.status(200).json(updated);
-      }
-
-      if (req.method === 'DELETE') {
-        const [deleted] = await db.delete(categories)
-          .where(eq(categories.id, id))
-          .returning();
-        if (!deleted) {
-          return res.status(404).json({ error: 'Category not found' });
-        }
-        return res.status(200).json({ success: true });
-      }
-    }
-
-    // List operations
-    if (req.method === 'GET') {
-      const result = await db.select().from(categories).orderBy(desc(categories.createdAt));
-      return res.status(200).json(result);
+  beforeDelete: async (existing) => {
+    const [child] = await db.select({ id: categories.id }).from(categories).where(eq(categories.parentId, existing.id)).limit(1);
+    if (child) {
+      throw new HttpError(409, 'Category has subcategories; move or delete them first');
     }
-
-    if (req.method === 'POST') {
-      const parsed = insertCategorySchema.safeParse(req.body);
-      if (!parsed.success) {
-        return res.status(400).json({ error: parsed.error.message });
-      }
-      const [newCategory] = await db.insert(categories)
-        .values(parsed.data as any)
-        .returning();
-      return res.status(201).json(newCategory);
-    }
-
-    return res.status(405).json({ error: 'Method not allowed' });
-  } catch (error) {
-    console.error('Categories API error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
-  }
-}
+  },
+  delete: async (existing) => {
+    await db.delete(categories).where(eq(categories.id, existing.id));
+    await refreshSubcategories(existing.parentId);
+  },
+});
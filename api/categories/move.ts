@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { db } from '../_lib/db';
+import { categories } from '../_lib/schema';
+import { createApiHandler, notFound, parseBody } from '../_lib/resource-handler';
+import { applyCategoryChange, planCategoryChange } from '../_lib/category-tree';
+import { recordAudit } from '../_lib/audit';
+import { eq } from 'drizzle-orm';
+
+const moveSchema = z.object({
+  id: z.string().min(1),
+  // null moves the category to the top level
+  parentId: z.string().min(1).nullable().optional(),
+  name: z.string().trim().min(1).optional(),
+});
+
+// POST /api/categories/move  { id, parentId?, name? }
+// Re-parents and/or renames a category, rewriting the path and level of
+// everything below it in one batch. Returns the category and how many rows
+// changed.
+export default createApiHandler('Category move', {
+  POST: async (req, res) => {
+    const { id, ...changes } = parseBody(moveSchema, req.body);
+    const [existing] = await db.select().from(categories).where(eq(categories.id, id));
+    if (!existing) {
+      throw notFound('Category');
+    }
+
+    const updates = await planCategoryChange(existing, changes);
+    const category = await applyCategoryChange(updates);
+    await recordAudit({
+      entityType: 'category',
+      entityId: category.id,
+      entityName: category.path ?? category.name,
+      action: 'update',
+      before: existing,
+      after: category,
+    });
+    return res.status(200).json({ category, updated: updates.length });
+  },
+});
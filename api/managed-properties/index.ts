@@ -0,0 +1,60 @@
+import { db } from '../_lib/db';
+import { managedProperties, insertManagedPropertySchema } from '../_lib/schema';
+import { createResourceHandler, queryParam } from '../_lib/resource-handler';
+import { assertProCustomerExists } from '../_lib/pro-customers';
+import { eq, sql } from 'drizzle-orm';
+
+// Portfolio size per customer: property count and total units
+async function propertyTotals(proCustomerId: string | undefined) {
+  const query = db.select({
+    proCustomerId: managedProperties.proCustomerId,
+    propertyCount: sql<number>`count(*)::int`,
+    totalUnits: sql<number>`coalesce(sum(${managedProperties.unitCount}), 0)::int`,
+  }).from(managedProperties);
+
+  if (proCustomerId) {
+    const [summary] = await query
+      .where(eq(managedProperties.proCustomerId, proCustomerId))
+      .groupBy(managedProperties.proCustomerId);
+    return summary || { proCustomerId, propertyCount: 0, totalUnits: 0 };
+  }
+
+  return query.groupBy(managedProperties.proCustomerId);
+}
+
+export default createResourceHandler({
+  name: 'Property',
+  table: managedProperties,
+  insertSchema: insertManagedPropertySchema,
+
+  filters: async (req) => {
+    const proCustomerId = queryParam(req, 'proCustomerId');
+    if (proCustomerId) {
+      await assertProCustomerExists(proCustomerId);
+    }
+    return [proCustomerId ? eq(managedProperties.proCustomerId, proCustomerId) : undefined];
+  },
+  sortFields: {
+    name: sql`lower(${managedProperties.name})`,
+    unitCount: managedProperties.unitCount,
+    createdAt: managedProperties.createdAt,
+    updatedAt: managedProperties.updatedAt,
+  },
+  defaultSort: { field: 'name', order: 'asc' },
+
+  list: (req, listRecords) => queryParam(req, 'totals') === 'true'
+    ? propertyTotals(queryParam(req, 'proCustomerId'))
+    : listRecords(),
+
+  beforeCreate: async (data) => {
+    await assertProCustomerExists(data.proCustomerId as string);
+    return data;
+  },
+
+  beforeUpdate: async (data) => {
+    if (data.proCustomerId) {
+      await assertProCustomerExists(data.proCustomerId as string);
+    }
+    return data;
+  },
+});
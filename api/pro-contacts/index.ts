@@ -0,0 +1,37 @@
+import { proContacts, insertProContactSchema } from '../_lib/schema';
+import { createResourceHandler, queryParam } from '../_lib/resource-handler';
+import { assertProCustomerExists } from '../_lib/pro-customers';
+import { eq, sql } from 'drizzle-orm';
+
+export default createResourceHandler({
+  name: 'Contact',
+  table: proContacts,
+  insertSchema: insertProContactSchema,
+
+  filters: async (req) => {
+    const proCustomerId = queryParam(req, 'proCustomerId');
+    if (proCustomerId) {
+      await assertProCustomerExists(proCustomerId);
+    }
+    return [proCustomerId ? eq(proContacts.proCustomerId, proCustomerId) : undefined];
+  },
+  sortFields: {
+    name: sql`lower(${proContacts.name})`,
+    title: sql`lower(${proContacts.title})`,
+    createdAt: proContacts.createdAt,
+    updatedAt: proContacts.updatedAt,
+  },
+  defaultSort: { field: 'createdAt', order: 'asc' },
+
+  beforeCreate: async (data) => {
+    await assertProCustomerExists(data.proCustomerId as string);
+    return data;
+  },
+
+  beforeUpdate: async (data) => {
+    if (data.proCustomerId) {
+      await assertProCustomerExists(data.proCustomerId as string);
+    }
+    return data;
+  },
+});
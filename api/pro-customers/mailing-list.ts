@@ -0,0 +1,40 @@
+import { db } from '../_lib/db';
+import { proCustomers } from '../_lib/schema';
+import { createApiHandler, HttpError } from '../_lib/resource-handler';
+import { proCustomerFilters } from '../_lib/pro-customers';
+import { parseMailingListFormat, collectPhones, collectEmails, sendMailingList, MAILING_LIST_FORMATS } from '../_lib/mailing-list';
+import { and, asc, isNull } from 'drizzle-orm';
+
+// GET /api/pro-customers/mailing-list?format=text|csv|vcard&trade=&businessType=&preferredContactMethod=
+// Takes the same search, trade, business type and contact method filters as
+// the customer list. Repeat a filter to match any of several values.
+export default createApiHandler('Pro customer mailing list', {
+  GET: async (req, res) => {
+    const format = parseMailingListFormat(req.query.format);
+    if (!format) {
+      throw new HttpError(400, `format must be one of ${MAILING_LIST_FORMATS.join(', ')}`);
+    }
+
+    const conditions = proCustomerFilters(req);
+
+    const result = await db.select().from(proCustomers)
+      .where(and(isNull(proCustomers.deletedAt), ...conditions))
+      .orderBy(asc(proCustomers.businessName));
+
+    const entries = result.map((customer) => {
+      const contactName = customer.primaryContactName?.trim();
+      return {
+        name: contactName || customer.businessName,
+        isOrganization: !contactName,
+        company: customer.businessName,
+        title: customer.primaryContactRole,
+        phones: collectPhones(customer.phones, customer.primaryContactMobile, customer.primaryContactMobileExtension)
+          .map((phone) => phone.number === customer.primaryContactMobile ? { ...phone, label: 'Mobile' } : phone),
+        emails: collectEmails(customer.emails, customer.primaryContactEmail),
+        notes: customer.preferredContactMethod ? `Prefers: ${customer.preferredContactMethod}` : null,
+      };
+    });
+
+    return sendMailingList(res, format, 'pro-customers-mailing-list', entries);
+  },
+});
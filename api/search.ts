@@ -0,0 +1,25 @@
+import { createApiHandler, parseLimit, queryParam, HttpError } from './_lib/resource-handler';
+import { queryList } from './_lib/query';
+import { searchAll, SEARCH_TYPES, type SearchType } from './_lib/search';
+
+// GET /api/search?q=[&type=vendor&type=brand][&limit=20]
+// Ranked matches across vendors, reps, pro customers and contacts, brands,
+// categories and services. Digits in q also match phone numbers.
+export default createApiHandler('Search', {
+  GET: async (req, res) => {
+    const term = queryParam(req, 'q')?.trim() ?? '';
+    if (term.length < 2) {
+      return res.status(200).json([]);
+    }
+
+    const types = queryList(req.query.type);
+    const unknown = types.filter((type) => !SEARCH_TYPES.includes(type as SearchType));
+    if (unknown.length > 0) {
+      throw new HttpError(400, `type must be one of ${SEARCH_TYPES.join(', ')}`);
+    }
+
+    const limit = parseLimit(req, 20, 50);
+    const results = await searchAll(term, types.length > 0 ? types as SearchType[] : [...SEARCH_TYPES], limit);
+    return res.status(200).json(results);
+  },
+});
@@ -1,72 +1,68 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { db } from '../_lib/db';
 import { services, insertServiceSchema } from '../_lib/schema';
-import { eq, desc } from 'drizzle-orm';
+import { createResourceHandler, HttpError, queryParam } from '../_lib/resource-handler';
+import { escapeLike } from '../_lib/query';
+import {
+  deleteService, getServiceDeleteImpact, placeNewService, refreshSubservices, updateService,
+  type ServiceDeleteStrategy,
+} from '../_lib/service-tree';
+import { withServiceVendorCounts } from '../_lib/vendor-counts';
+import { eq, ilike, or, sql } from 'drizzle-orm';
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+const DELETE_STRATEGIES: ServiceDeleteStrategy[] = ['cascade', 'reassign'];
 
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
+export default createResourceHandler({
+  name: 'Service',
+  table: services,
+  insertSchema: insertServiceSchema,
+  audit: { entityType: 'service', label: (row) => row.path ?? row.name },
 
-  const { id } = req.query;
+  filters: (req) => {
+    const parentId = queryParam(req, 'parentId');
+    const search = queryParam(req, 'search');
+    return [
+      parentId ? eq(services.parentId, parentId) : undefined,
+      search ? or(
+        ilike(services.name, `%${escapeLike(search)}%`),
+        ilike(services.path, `%${escapeLike(search)}%`),
+      ) : undefined,
+    ];
+  },
+  sortFields: {
+    name: sql`lower(${services.name})`,
+    path: sql`lower(${services.path})`,
+    level: sql`${services.level}::int`,
+    createdAt: services.createdAt,
+    updatedAt: services.updatedAt,
+  },
+  presentList: withServiceVendorCounts,
+  present: async (row) => (await withServiceVendorCounts([row]))[0],
 
-  try {
-    // Single service operations
-    if (id && typeof id === 'string') {
-      if (req.method === 'GET') {
-        const [service] = await db.select().from(services).where(eq(services.id, id));
-        if (!service) {
-          return res.status(404).json({ error: 'Service not found' });
-        }
-        return res.status(200).json(service);
-      }
+  // path and level are always derived from the parent, never taken from the client
+  beforeCreate: placeNewService,
+  afterCreate: (row) => refreshSubservices(row.parentId),
 
-      if (req.method === 'PATCH' || req.method === 'PUT') {
-        const [updated] = await db.update(services)
-          .set({ ...req.body, updatedAt: new Date() } as any)
-          .where(eq(services.id, id))
-          .returning();
-        if (!updated) {
-          return res.status(404).json({ error: 'Service not found' });
-        }
-        return res.status(200).json(updated);
-      }
+  // Renames and moves carry the subtree and vendor references along
+  update: updateService,
 
-      if (req.method === 'DELETE') {
-        const [deleted] = await db.delete(services)
-          .where(eq(services.id, id))
-          .returning();
-        if (!deleted) {
-          return res.status(404).json({ error: 'Service not found' });
-        }
-        return res.status(200).json({ success: true });
+  // ?strategy=cascade deletes the subtree; ?strategy=reassign[&targetId=]
+  // moves the children up (or under the target). Without one, a service that
+  // anything depends on is refused with what the delete would touch.
+  beforeDelete: async (existing, req) => {
+    const strategy = queryParam(req, 'strategy');
+    if (strategy) {
+      if (!DELETE_STRATEGIES.includes(strategy as ServiceDeleteStrategy)) {
+        throw new HttpError(400, `strategy must be one of: ${DELETE_STRATEGIES.join(', ')}`);
       }
+      return;
     }
-
-    // List operations
-    if (req.method === 'GET') {
-      const result = await db.select().from(services).orderBy(desc(services.createdAt));
-      return res.status(200).json(result);
+    const impact = await getServiceDeleteImpact(existing);
+    if (impact.subservices > 0 || impact.vendors > 0) {
+      throw new HttpError(409, 'Service has subservices or vendors; choose whether to reassign or cascade', { ...impact });
     }
-
-    if (req.method === 'POST') {
-      const parsed = insertServiceSchema.safeParse(req.body);
-      if (!parsed.success) {
-        return res.status(400).json({ error: parsed.error.message });
-      }
-      const [newService] = await db.insert(services)
-        .values(parsed.data as any)
-        .returning();
-      return res.status(201).json(newService);
-    }
-
-    return res.status(405).json({ error: 'Method not allowed' });
-  } catch (error) {
-    console.error('Services API error:', error);
-    return res.status(500).json({ error: 'Internal server error' });
-  }
-}
+  },
+  delete: (existing, req) => deleteService(
+    existing,
+    (queryParam(req, 'strategy') ?? 'reassign') as ServiceDeleteStrategy,
+    queryParam(req, 'targetId'),
+  ),
+});
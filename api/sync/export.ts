@@ -0,0 +1,13 @@
+import { createApiHandler } from '../_lib/resource-handler';
+import { exportData } from '../_lib/sync';
+
+// GET /api/sync/export
+// Versioned JSON snapshot of every table, readable by /api/sync/import.
+// Besides a session, takes `Authorization: Bearer <SYNC_TOKEN>` so another
+// copy of the app can read it across origins.
+export default createApiHandler('Sync export', {
+  GET: async (_req, res) => {
+    const data = await exportData();
+    return res.status(200).json(data);
+  },
+}, { syncToken: true });
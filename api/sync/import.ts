@@ -0,0 +1,24 @@
+import { createApiHandler, parseBody } from '../_lib/resource-handler';
+import { syncImportSchema, planImport, applyImport, summarizePlan } from '../_lib/sync';
+
+// POST /api/sync/import[?dryRun=true][&strategy=incoming]
+// Upserts an export by id, keeping whichever copy of a row has the newer
+// updatedAt. A vendor's brand and category links follow the vendor row and
+// are matched on what they link; template snapshots are matched on template
+// and version. With dryRun the per-table insert/update/conflict counts are
+// returned without writing anything. strategy=incoming makes every row in
+// the payload win, for sets the user has already reviewed.
+export default createApiHandler('Sync import', {
+  POST: async (req, res) => {
+    const payload = parseBody(syncImportSchema, req.body);
+
+    const dryRun = req.query.dryRun === 'true';
+    const strategy = req.query.strategy === 'incoming' ? 'incoming' : 'newest';
+    const plan = await planImport(payload, strategy);
+    if (!dryRun) {
+      await applyImport(plan);
+    }
+
+    return res.status(200).json({ dryRun, results: summarizePlan(plan) });
+  },
+});
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { createApiHandler, parseBody, queryParam, HttpError } from '../_lib/resource-handler';
+import { queryList } from '../_lib/query';
+import { listTrash, purgeFromTrash, restoreFromTrash, TRASH_ENTITY_TYPES, type TrashEntityType } from '../_lib/trash';
+
+const entityTypeSchema = z.enum(TRASH_ENTITY_TYPES as [TrashEntityType, ...TrashEntityType[]]);
+
+const trashRecordSchema = z.object({
+  entityType: entityTypeSchema,
+  id: z.string().min(1),
+});
+
+// GET    /api/trash[?entityType=vendor&entityType=proCustomer]
+//   Deleted vendors, reps and pro customers, most recent first, with the
+//   dependent rows a purge would also remove.
+// POST   /api/trash  { entityType, id }
+//   Restores a deleted record.
+// DELETE /api/trash?entityType=&id=
+//   Purges a deleted record and its dependents permanently.
+export default createApiHandler('Trash', {
+  GET: async (req, res) => {
+    const types = queryList(req.query.entityType);
+    const unknown = types.filter((type) => !TRASH_ENTITY_TYPES.includes(type as TrashEntityType));
+    if (unknown.length > 0) {
+      throw new HttpError(400, `entityType must be one of ${TRASH_ENTITY_TYPES.join(', ')}`);
+    }
+    return res.status(200).json(await listTrash(types.length > 0 ? types as TrashEntityType[] : undefined));
+  },
+
+  POST: async (req, res) => {
+    const { entityType, id } = parseBody(trashRecordSchema, req.body);
+    return res.status(200).json(await restoreFromTrash(entityType, id));
+  },
+
+  DELETE: async (req, res) => {
+    const { entityType, id } = parseBody(trashRecordSchema, { entityType: queryParam(req, 'entityType'), id: queryParam(req, 'id') });
+    await purgeFromTrash(entityType, id);
+    return res.status(200).json({ success: true });
+  },
+});
@@ -0,0 +1,34 @@
+import { createApiHandler, parseBody, queryParam, HttpError } from '../_lib/resource-handler';
+import { createUser, deleteUser, listUsers, requireAdmin } from '../_lib/auth';
+import { insertUserSchema } from '../_lib/schema';
+
+// GET    /api/users
+//   Every account, by name.
+// POST   /api/users  { email, name, password, isAdmin? }
+//   Adds an account. Admins only.
+// DELETE /api/users?id=
+//   Removes an account, which also ends its sessions. Admins only, and not
+//   their own.
+export default createApiHandler('Users', {
+  GET: async (_req, res) => {
+    return res.status(200).json(await listUsers());
+  },
+
+  POST: async (req, res) => {
+    await requireAdmin(req);
+    return res.status(201).json(await createUser(parseBody(insertUserSchema, req.body)));
+  },
+
+  DELETE: async (req, res) => {
+    const id = queryParam(req, 'id');
+    if (!id) {
+      throw new HttpError(400, 'id is required');
+    }
+    const user = await requireAdmin(req);
+    if (user.id === id) {
+      throw new HttpError(400, 'You cannot remove your own account');
+    }
+    await deleteUser(id);
+    return res.status(200).json({ success: true });
+  },
+});
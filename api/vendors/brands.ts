@@ -0,0 +1,16 @@
+import { createApiHandler, HttpError, queryParam } from '../_lib/resource-handler';
+import { listVendorBrands } from '../_lib/vendor-brands';
+import { withBrandVendorCounts } from '../_lib/vendor-counts';
+
+// GET /api/vendors/brands?vendorId=
+//   Brands assigned to the vendor, by name. Set them with the vendor's
+//   `brands` field on create or update.
+export default createApiHandler('Vendor brands', {
+  GET: async (req, res) => {
+    const vendorId = queryParam(req, 'vendorId');
+    if (!vendorId) {
+      throw new HttpError(400, 'vendorId is required');
+    }
+    return res.status(200).json(await withBrandVendorCounts(await listVendorBrands(vendorId)));
+  },
+});
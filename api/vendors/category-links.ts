@@ -0,0 +1,21 @@
+import { createApiHandler } from '../_lib/resource-handler';
+import { applyCategoryLinks, planCategoryLinks } from '../_lib/vendor-categories';
+
+// GET  /api/vendors/category-links
+//   Legacy category strings still stored on vendors: those that now name a
+//   category, and those that match nothing and need a category created or
+//   the vendor re-assigned.
+// POST /api/vendors/category-links
+//   Links the strings that name a category and drops them from the vendor.
+export default createApiHandler('Vendor category links', {
+  GET: async (_req, res) => {
+    const report = await planCategoryLinks();
+    return res.status(200).json(report);
+  },
+
+  POST: async (_req, res) => {
+    const report = await planCategoryLinks();
+    await applyCategoryLinks(report);
+    return res.status(200).json({ ...report, linked: report.linkable });
+  },
+});
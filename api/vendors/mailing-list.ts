@@ -0,0 +1,37 @@
+import { db } from '../_lib/db';
+import { vendors } from '../_lib/schema';
+import { createApiHandler, HttpError } from '../_lib/resource-handler';
+import { vendorFilters } from '../_lib/vendor-filters';
+import { parseMailingListFormat, collectPhones, collectEmails, sendMailingList, MAILING_LIST_FORMATS } from '../_lib/mailing-list';
+import { and, asc, isNull } from 'drizzle-orm';
+
+// GET /api/vendors/mailing-list?format=text|csv|vcard&category=&brand=
+// Takes the same category, brand and search filters as the vendor list.
+// Repeat category or brand to match any of several values.
+export default createApiHandler('Vendor mailing list', {
+  GET: async (req, res) => {
+    const format = parseMailingListFormat(req.query.format);
+    if (!format) {
+      throw new HttpError(400, `format must be one of ${MAILING_LIST_FORMATS.join(', ')}`);
+    }
+
+    const conditions = await vendorFilters(req);
+
+    const result = await db.select().from(vendors)
+      .where(and(isNull(vendors.deletedAt), ...conditions))
+      .orderBy(asc(vendors.companyName));
+
+    const entries = result.map((vendor) => ({
+      name: vendor.companyName,
+      isOrganization: true,
+      phones: [
+        ...collectPhones(vendor.phones, vendor.phone, vendor.phoneExtension),
+        ...(vendor.fax ? [{ label: 'Fax', number: vendor.fax }] : []),
+      ],
+      emails: collectEmails(vendor.emails, vendor.email),
+      notes: vendor.vendorNumber ? `Vendor ${vendor.vendorNumber}` : null,
+    }));
+
+    return sendMailingList(res, format, 'vendors-mailing-list', entries);
+  },
+});
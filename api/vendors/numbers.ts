@@ -0,0 +1,23 @@
+import { createApiHandler } from '../_lib/resource-handler';
+import { requireAdmin } from '../_lib/auth';
+import { planVendorNumberRepair, repairVendorNumbers } from '../_lib/vendor-numbers';
+
+// GET  /api/vendors/numbers
+//   Report of vendors with missing, duplicate or old-format numbers, the
+//   renumbering a repair would apply, and any gaps in the issued range.
+// POST /api/vendors/numbers
+//   Applies that repair and moves the sequence past the highest number.
+//   Admins only.
+export default createApiHandler('Vendor numbers', {
+  GET: async (_req, res) => {
+    const plan = await planVendorNumberRepair();
+    return res.status(200).json(plan);
+  },
+
+  POST: async (req, res) => {
+    await requireAdmin(req, 'renumber vendors');
+    const plan = await planVendorNumberRepair();
+    await repairVendorNumbers(plan);
+    return res.status(200).json({ ...plan, repaired: plan.changes.length });
+  },
+});
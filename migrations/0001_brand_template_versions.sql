@@ -0,0 +1,15 @@
+-- Published snapshots of brand templates, used to diff and upgrade brands
+CREATE TABLE IF NOT EXISTS brand_template_versions (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id varchar NOT NULL REFERENCES brand_templates(id),
+  version text NOT NULL,
+  template json,
+  notes text,
+  created_at timestamp DEFAULT now(),
+  CONSTRAINT brand_template_versions_template_id_version_unique UNIQUE (template_id, version)
+);
+
+-- Seed a snapshot of every template's current version
+INSERT INTO brand_template_versions (template_id, version, template)
+SELECT id, COALESCE(version, '1.0'), template FROM brand_templates
+ON CONFLICT (template_id, version) DO NOTHING;
@@ -0,0 +1,9 @@
+-- Counter behind V#00001-style vendor numbers (api/_lib/vendor-numbers.ts)
+CREATE SEQUENCE IF NOT EXISTS vendor_number_seq;
+
+-- Start after the highest number already issued, whatever its prefix
+SELECT setval(
+  'vendor_number_seq',
+  COALESCE((SELECT MAX(substring(vendor_number FROM '(\d+)\s*$')::bigint) FROM vendors), 0) + 1,
+  false
+);
@@ -0,0 +1,2 @@
+-- word_similarity() behind the typo-tolerant searches (api/_lib/relevance.ts)
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
@@ -0,0 +1,40 @@
+-- Vendor category assignments by id (api/_lib/vendor-categories.ts)
+CREATE TABLE IF NOT EXISTS vendor_categories (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id varchar NOT NULL REFERENCES vendors(id) ON DELETE CASCADE,
+  category_id varchar NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+  created_at timestamp DEFAULT now(),
+  CONSTRAINT vendor_categories_vendor_id_category_id_unique UNIQUE (vendor_id, category_id)
+);
+
+-- Resolve each legacy string in vendors.categories: by path, or by name when
+-- exactly one category has that name (the old forms stored bare names)
+CREATE TEMP TABLE legacy_vendor_categories AS
+SELECT v.id AS vendor_id, c.value, COALESCE(
+  (SELECT cat.id FROM categories cat
+   WHERE lower(trim(cat.path)) = lower(trim(c.value))
+   ORDER BY cat.created_at, cat.id LIMIT 1),
+  (SELECT min(cat.id) FROM categories cat
+   WHERE lower(trim(cat.name)) = lower(trim(c.value))
+   HAVING count(*) = 1)
+) AS category_id
+FROM vendors v, json_array_elements_text(COALESCE(v.categories, '[]'::json)) AS c(value);
+
+INSERT INTO vendor_categories (vendor_id, category_id)
+SELECT DISTINCT vendor_id, category_id FROM legacy_vendor_categories
+WHERE category_id IS NOT NULL
+ON CONFLICT (vendor_id, category_id) DO NOTHING;
+
+-- The column keeps only the strings nothing matched
+UPDATE vendors v SET categories = COALESCE((
+  SELECT json_agg(l.value) FROM legacy_vendor_categories l
+  WHERE l.vendor_id = v.id AND l.category_id IS NULL
+), '[]'::json)
+WHERE v.id IN (SELECT vendor_id FROM legacy_vendor_categories);
+
+-- Report of unmatched strings; GET /api/vendors/category-links lists the same
+SELECT v.vendor_number, v.company_name, l.value AS unmatched_category
+FROM legacy_vendor_categories l
+JOIN vendors v ON v.id = l.vendor_id
+WHERE l.category_id IS NULL
+ORDER BY v.company_name, l.value;
@@ -0,0 +1,5 @@
+-- Vendor counts are computed on read (api/_lib/vendor-counts.ts); the stored
+-- columns were never updated
+ALTER TABLE categories DROP COLUMN IF EXISTS vendor_count;
+ALTER TABLE services DROP COLUMN IF EXISTS vendor_count;
+ALTER TABLE brands DROP COLUMN IF EXISTS vendor_count;
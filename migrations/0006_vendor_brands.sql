@@ -0,0 +1,47 @@
+-- Vendor brand assignments move from vendors.brands to vendor_brands
+-- (api/_lib/vendor-brands.ts)
+CREATE TABLE IF NOT EXISTS vendor_brands (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id varchar NOT NULL,
+  brand_id varchar NOT NULL,
+  created_at timestamp DEFAULT now()
+);
+
+-- Drop duplicate pairs and rows whose vendor or brand is gone before the
+-- constraints go on
+DELETE FROM vendor_brands vb
+WHERE NOT EXISTS (SELECT 1 FROM vendors v WHERE v.id = vb.vendor_id)
+   OR NOT EXISTS (SELECT 1 FROM brands b WHERE b.id = vb.brand_id)
+   OR EXISTS (
+     SELECT 1 FROM vendor_brands other
+     WHERE other.vendor_id = vb.vendor_id AND other.brand_id = vb.brand_id AND other.id < vb.id
+   );
+
+ALTER TABLE vendor_brands DROP CONSTRAINT IF EXISTS vendor_brands_vendor_id_vendors_id_fk;
+ALTER TABLE vendor_brands DROP CONSTRAINT IF EXISTS vendor_brands_brand_id_brands_id_fk;
+ALTER TABLE vendor_brands
+  ADD CONSTRAINT vendor_brands_vendor_id_vendors_id_fk FOREIGN KEY (vendor_id) REFERENCES vendors(id) ON DELETE CASCADE,
+  ADD CONSTRAINT vendor_brands_brand_id_brands_id_fk FOREIGN KEY (brand_id) REFERENCES brands(id) ON DELETE CASCADE;
+ALTER TABLE vendor_brands DROP CONSTRAINT IF EXISTS vendor_brands_vendor_id_brand_id_unique;
+ALTER TABLE vendor_brands ADD CONSTRAINT vendor_brands_vendor_id_brand_id_unique UNIQUE (vendor_id, brand_id);
+
+CREATE TEMP TABLE legacy_vendor_brands AS
+SELECT v.id AS vendor_id, b.value AS brand_id,
+  EXISTS (SELECT 1 FROM brands WHERE brands.id = b.value) AS known
+FROM vendors v, json_array_elements_text(COALESCE(v.brands, '[]'::json)) AS b(value);
+
+INSERT INTO vendor_brands (vendor_id, brand_id)
+SELECT DISTINCT vendor_id, brand_id FROM legacy_vendor_brands
+WHERE known
+ON CONFLICT (vendor_id, brand_id) DO NOTHING;
+
+-- The column is no longer read or written
+UPDATE vendors SET brands = '[]'::json
+WHERE json_array_length(COALESCE(brands, '[]'::json)) > 0;
+
+-- Report of ids that named no brand and were dropped
+SELECT v.vendor_number, v.company_name, l.brand_id AS unknown_brand_id
+FROM legacy_vendor_brands l
+JOIN vendors v ON v.id = l.vendor_id
+WHERE NOT l.known
+ORDER BY v.company_name, l.brand_id;
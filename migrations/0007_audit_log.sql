@@ -0,0 +1,15 @@
+-- Create, update and delete history for audited records (api/_lib/audit.ts)
+CREATE TABLE IF NOT EXISTS audit_log (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type text NOT NULL,
+  entity_id varchar NOT NULL,
+  entity_name text NOT NULL,
+  action text NOT NULL,
+  changes json NOT NULL DEFAULT '{}'::json,
+  snapshot json,
+  created_at timestamp DEFAULT now()
+);
+
+-- The activity feed reads newest first, overall and per record
+CREATE INDEX IF NOT EXISTS audit_log_created_at_idx ON audit_log (created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_entity_idx ON audit_log (entity_type, entity_id, created_at DESC);
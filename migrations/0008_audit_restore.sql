@@ -0,0 +1,2 @@
+-- Restores point at the audit entry whose snapshot they put back
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS restored_from varchar;
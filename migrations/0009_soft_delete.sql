@@ -0,0 +1,9 @@
+-- Deleted vendors, reps and pro customers go to the trash first
+-- (api/_lib/trash.ts)
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS deleted_at timestamp;
+ALTER TABLE representatives ADD COLUMN IF NOT EXISTS deleted_at timestamp;
+ALTER TABLE pro_customers ADD COLUMN IF NOT EXISTS deleted_at timestamp;
+
+CREATE INDEX IF NOT EXISTS vendors_deleted_at_idx ON vendors (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS representatives_deleted_at_idx ON representatives (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS pro_customers_deleted_at_idx ON pro_customers (deleted_at) WHERE deleted_at IS NOT NULL;
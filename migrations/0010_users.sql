@@ -0,0 +1,10 @@
+-- Accounts for signing in to the app and the API (api/_lib/auth.ts).
+-- Emails are stored lowercased.
+CREATE TABLE IF NOT EXISTS users (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL UNIQUE,
+  name text NOT NULL,
+  password_hash text NOT NULL,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
@@ -0,0 +1,45 @@
+-- Trigram indexes for the typo-tolerant searches (api/_lib/relevance.ts).
+-- Each searched column gets a GIN index on lower(column), which serves both
+-- the LIKE and the `<%` candidate filters; phone columns are indexed on their
+-- digits alone.
+
+-- `<%` keeps rows whose word similarity reaches this threshold (default 0.6).
+-- It must not exceed MATCH_THRESHOLD / 0.75 or fuzzy matches are filtered out
+-- before they are scored; keep it equal to WORD_SIMILARITY_THRESHOLD.
+-- Takes effect for new connections.
+DO $$
+BEGIN
+  EXECUTE format('ALTER DATABASE %I SET pg_trgm.word_similarity_threshold = 0.4', current_database());
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS vendors_company_name_trgm_idx ON vendors USING gin (lower(company_name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS vendors_vendor_number_trgm_idx ON vendors USING gin (lower(vendor_number) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS vendors_email_trgm_idx ON vendors USING gin (lower(email) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS vendors_phone_digits_trgm_idx ON vendors USING gin (regexp_replace(coalesce(phone, ''), '\D', '', 'g') gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS vendors_fax_digits_trgm_idx ON vendors USING gin (regexp_replace(coalesce(fax, ''), '\D', '', 'g') gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS representatives_name_trgm_idx ON representatives USING gin (lower(name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS representatives_vendor_name_trgm_idx ON representatives USING gin (lower(vendor_name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS representatives_position_trgm_idx ON representatives USING gin (lower(position) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS representatives_email_trgm_idx ON representatives USING gin (lower(email) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS representatives_cell_phone_digits_trgm_idx ON representatives USING gin (regexp_replace(coalesce(cell_phone, ''), '\D', '', 'g') gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS pro_customers_business_name_trgm_idx ON pro_customers USING gin (lower(business_name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS pro_customers_primary_contact_name_trgm_idx ON pro_customers USING gin (lower(primary_contact_name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS pro_customers_lowes_pro_account_number_trgm_idx ON pro_customers USING gin (lower(lowes_pro_account_number) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS pro_customers_primary_contact_email_trgm_idx ON pro_customers USING gin (lower(primary_contact_email) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS pro_customers_primary_contact_mobile_digits_trgm_idx ON pro_customers USING gin (regexp_replace(coalesce(primary_contact_mobile, ''), '\D', '', 'g') gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS pro_contacts_name_trgm_idx ON pro_contacts USING gin (lower(name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS pro_contacts_email_trgm_idx ON pro_contacts USING gin (lower(email) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS pro_contacts_phone_digits_trgm_idx ON pro_contacts USING gin (regexp_replace(coalesce(phone, ''), '\D', '', 'g') gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS brands_name_trgm_idx ON brands USING gin (lower(name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS brands_industry_trgm_idx ON brands USING gin (lower(industry) gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS categories_name_trgm_idx ON categories USING gin (lower(name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS categories_path_trgm_idx ON categories USING gin (lower(path) gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS services_name_trgm_idx ON services USING gin (lower(name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS services_path_trgm_idx ON services USING gin (lower(path) gin_trgm_ops);
@@ -0,0 +1,7 @@
+-- Admins manage accounts through /api/users. The setup account is an admin;
+-- on databases set up before roles existed, that is the oldest account.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS is_admin boolean NOT NULL DEFAULT false;
+
+UPDATE users SET is_admin = true
+WHERE id = (SELECT id FROM users ORDER BY created_at, id LIMIT 1)
+  AND NOT EXISTS (SELECT 1 FROM users WHERE is_admin);
@@ -9,8 +9,12 @@ import Services from "@/pages/services";
 import ProCustomers from "@/pages/pro-customers";
 import TradeDashboard from "@/pages/trade-dashboard";
 import { Brands } from "@/pages/brands";
+import Trash from "@/pages/trash";
+import Login from "@/pages/login";
 import Sidebar from "@/components/layout/sidebar";
 import MobileHeader from "@/components/layout/mobile-header";
+import { CommandPalette } from "@/components/command-palette";
+import { useAuth } from "@/hooks/use-auth";
 import { useState } from "react";
 
 function Router() {
@@ -25,6 +29,7 @@ function Router() {
       <Route path="/brands" component={Brands} />
       <Route path="/pro-customers" component={ProCustomers} />
       <Route path="/trade-dashboard" component={TradeDashboard} />
+      <Route path="/trash" component={Trash} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -32,6 +37,17 @@ function Router() {
 
 function App() {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const { data: user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return <div className="min-h-screen bg-gray-50" />;
+  }
+
+  // Every API call needs a session, so nothing else renders without one
+  if (!user) {
+    return <Login />;
+  }
 
   return (
     <TooltipProvider>
@@ -39,6 +55,8 @@ function App() {
         <Sidebar 
           isMobileMenuOpen={isMobileMenuOpen} 
           setIsMobileMenuOpen={setIsMobileMenuOpen}
+          onOpenSearch={() => setIsSearchOpen(true)}
+          user={user}
         />
         <div className="flex-1 flex flex-col md:ml-0">
           <MobileHeader setIsMobileMenuOpen={setIsMobileMenuOpen} />
@@ -53,6 +71,7 @@ function App() {
           />
         )}
       </div>
+      <CommandPalette open={isSearchOpen} onOpenChange={setIsSearchOpen} />
     </TooltipProvider>
   );
 }
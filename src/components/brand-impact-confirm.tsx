@@ -0,0 +1,91 @@
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { BrandImpactPreview } from "@shared/schema";
+
+// What /api/brands/impact and /api/brand-templates/upgrade return
+export interface BrandChangePlan {
+  brandId: string;
+  brandName: string;
+  newName?: string;
+  fromVersion: string | null;
+  toVersion: string | null;
+  adds: string[];
+  removes: string[];
+  vendors: BrandImpactPreview[];
+  // Sent back when applying, so a plan that changed since is refused
+  planVersion: string;
+}
+
+interface BrandImpactConfirmProps {
+  title: string;
+  plan: BrandChangePlan;
+  confirmLabel: string;
+  isPending: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Lists the category paths a brand change adds and removes, brand-wide and
+// per vendor, and asks before applying it.
+export default function BrandImpactConfirm({ title, plan, confirmLabel, isPending, onConfirm, onCancel }: BrandImpactConfirmProps) {
+  const unchanged = plan.adds.length === 0 && plan.removes.length === 0 && plan.vendors.length === 0;
+
+  return (
+    <Card className="border-amber-200 bg-amber-50" data-testid="card-brand-impact">
+      <CardHeader>
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {unchanged ? (
+          <p className="text-sm text-muted-foreground">No categories or vendors are affected.</p>
+        ) : (
+          <>
+            {(plan.adds.length > 0 || plan.removes.length > 0) && (
+              <div className="space-y-1 text-sm">
+                <p className="font-medium">Brand categories</p>
+                {plan.adds.map(path => (
+                  <div key={`add-${path}`} className="text-green-700">+ {path}</div>
+                ))}
+                {plan.removes.map(path => (
+                  <div key={`remove-${path}`} className="text-red-700">− {path}</div>
+                ))}
+              </div>
+            )}
+            {plan.vendors.length > 0 && (
+              <div className="space-y-2 text-sm">
+                <p className="font-medium">
+                  {plan.vendors.length} vendor{plan.vendors.length === 1 ? "" : "s"} will have their categories updated
+                </p>
+                <div className="max-h-60 overflow-y-auto space-y-2 rounded border bg-white p-3">
+                  {plan.vendors.map(vendor => (
+                    <div key={vendor.vendorId} data-testid={`impact-vendor-${vendor.vendorId}`}>
+                      <p className="font-medium">{vendor.vendorName}</p>
+                      {vendor.adds.map(path => (
+                        <div key={`add-${path}`} className="text-green-700 pl-3">+ {path}</div>
+                      ))}
+                      {vendor.removes.map(path => (
+                        <div key={`remove-${path}`} className="text-red-700 pl-3">− {path}</div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={onCancel} disabled={isPending} data-testid="button-impact-cancel">
+            Back
+          </Button>
+          <Button size="sm" onClick={onConfirm} disabled={isPending} data-testid="button-impact-confirm">
+            {isPending ? "Applying..." : confirmLabel}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
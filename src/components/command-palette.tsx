@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Building, Briefcase, Package, Search, Settings, Tags, User, Users } from "lucide-react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+type SearchType = "vendor" | "representative" | "proCustomer" | "proContact" | "brand" | "category" | "service";
+
+interface SearchResult {
+  type: SearchType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  parentId: string | null;
+  score: number;
+}
+
+const RESULT_TYPES: Record<SearchType, { label: string; icon: typeof Building; href: (result: SearchResult) => string }> = {
+  vendor: { label: "Vendor", icon: Building, href: (r) => `/vendors?id=${r.id}` },
+  representative: { label: "Sales Rep", icon: Users, href: (r) => `/representatives?id=${r.id}` },
+  proCustomer: { label: "Pro Customer", icon: Briefcase, href: (r) => `/pro-customers?id=${r.id}` },
+  proContact: { label: "Pro Contact", icon: User, href: (r) => `/pro-customers?id=${r.parentId}` },
+  brand: { label: "Brand", icon: Package, href: (r) => `/brands?id=${r.id}` },
+  category: { label: "Category", icon: Tags, href: (r) => `/categories?id=${r.id}` },
+  service: { label: "Service", icon: Settings, href: (r) => `/services?id=${r.id}` },
+};
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const [, setLocation] = useLocation();
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // Ctrl+K / Cmd+K toggles the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), 200);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  useEffect(() => {
+    if (!open) {
+      setQuery("");
+      setDebouncedQuery("");
+    }
+  }, [open]);
+
+  const { data: results = [], isFetching } = useQuery<SearchResult[]>({
+    queryKey: ["/api/search", debouncedQuery],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/search?q=${encodeURIComponent(debouncedQuery)}`);
+      return response.json();
+    },
+    enabled: open && debouncedQuery.length >= 2,
+    staleTime: 30_000,
+  });
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [results]);
+
+  const openResult = (result: SearchResult) => {
+    onOpenChange(false);
+    setLocation(RESULT_TYPES[result.type].href(result));
+  };
+
+  const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (results.length === 0) return;
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setActiveIndex((index) => (index + 1) % results.length);
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex((index) => (index - 1 + results.length) % results.length);
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      openResult(results[activeIndex]);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl p-0 gap-0" data-testid="modal-command-palette">
+        <DialogTitle className="sr-only">Search</DialogTitle>
+        <div className="flex items-center border-b px-3">
+          <Search className="h-4 w-4 text-gray-400 mr-2" />
+          <Input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleInputKeyDown}
+            placeholder="Search vendors, reps, customers, brands, phone numbers..."
+            className="border-0 shadow-none focus-visible:ring-0 h-12"
+            data-testid="input-command-palette"
+          />
+        </div>
+
+        <div className="max-h-96 overflow-y-auto p-2">
+          {debouncedQuery.length < 2 ? (
+            <p className="px-3 py-6 text-center text-sm text-gray-500">Type at least two characters to search</p>
+          ) : results.length === 0 ? (
+            <p className="px-3 py-6 text-center text-sm text-gray-500">
+              {isFetching ? "Searching..." : `No results for "${debouncedQuery}"`}
+            </p>
+          ) : (
+            results.map((result, index) => {
+              const { label, icon: Icon } = RESULT_TYPES[result.type];
+              return (
+                <button
+                  key={`${result.type}-${result.id}`}
+                  type="button"
+                  className={cn(
+                    "w-full flex items-center gap-3 rounded-md px-3 py-2 text-left",
+                    index === activeIndex ? "bg-blue-50" : "hover:bg-gray-50",
+                  )}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => openResult(result)}
+                  data-testid={`search-result-${result.type}-${result.id}`}
+                >
+                  <Icon className="h-4 w-4 text-gray-500 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{result.title}</p>
+                    {result.subtitle && <p className="text-xs text-gray-500 truncate">{result.subtitle}</p>}
+                  </div>
+                  <Badge variant="outline" className="text-xs flex-shrink-0">{label}</Badge>
+                </button>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
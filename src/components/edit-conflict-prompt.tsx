@@ -0,0 +1,50 @@
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { fieldLabel } from "@/lib/utils";
+import type { MergedEdits } from "@/lib/edit-conflicts";
+
+interface EditConflictPromptProps {
+  // "vendor", "pro customer"
+  recordLabel: string;
+  merge: MergedEdits<unknown>;
+  onReload: () => void;
+  onMerge: () => void;
+}
+
+// Shown in place of a save that lost a race with someone else's. Nothing has
+// been written; the user picks between their version and a merge.
+export default function EditConflictPrompt({ recordLabel, merge, onReload, onMerge }: EditConflictPromptProps) {
+  return (
+    <Card className="border-amber-200 bg-amber-50" data-testid="card-edit-conflict">
+      <CardHeader>
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+          Someone else saved this {recordLabel} while you were editing
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <p className="text-muted-foreground">Your changes have not been saved yet.</p>
+        {merge.theirs.length > 0 && (
+          <p>
+            <span className="font-medium">They changed:</span> {merge.theirs.map(fieldLabel).join(", ")}
+          </p>
+        )}
+        {merge.conflicts.length > 0 && (
+          <p className="text-amber-800">
+            <span className="font-medium">You both changed:</span> {merge.conflicts.map(fieldLabel).join(", ")}.
+            Merging keeps your values for these.
+          </p>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={onReload} data-testid="button-conflict-reload">
+            Discard Mine and Reload
+          </Button>
+          <Button type="button" size="sm" onClick={onMerge} data-testid="button-conflict-merge">
+            Merge and Review
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
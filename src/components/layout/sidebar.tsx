@@ -1,16 +1,36 @@
 import { useQuery } from "@tanstack/react-query";
 import { Link, useLocation } from "wouter";
-import { HardHat, ChartPie, Building, Users, Tags, User, Settings, Briefcase, Activity, Package } from "lucide-react";
+import { HardHat, ChartPie, Building, Users, Tags, User, Settings, Briefcase, Activity, Package, Search, Trash2, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { type Vendor, type Representative, type Category, type Service, type ProCustomer } from "@shared/schema";
+import { useLogout } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage } from "@/lib/queryClient";
+import { type Vendor, type Representative, type Category, type Service, type ProCustomer, type User as SignedInUser } from "@shared/schema";
 
 interface SidebarProps {
   isMobileMenuOpen: boolean;
   setIsMobileMenuOpen: (open: boolean) => void;
+  onOpenSearch: () => void;
+  user: SignedInUser;
 }
 
-export default function Sidebar({ isMobileMenuOpen, setIsMobileMenuOpen }: SidebarProps) {
+export default function Sidebar({ isMobileMenuOpen, setIsMobileMenuOpen, onOpenSearch, user }: SidebarProps) {
   const [location] = useLocation();
+  const logout = useLogout();
+  const { toast } = useToast();
+
+  const handleLogout = () => {
+    logout.mutate(undefined, {
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: apiErrorMessage(error, "Failed to sign out"),
+          variant: "destructive",
+        });
+      },
+    });
+  };
 
   // Get actual counts from API
   const { data: vendors = [] } = useQuery<Vendor[]>({
@@ -46,6 +66,7 @@ export default function Sidebar({ isMobileMenuOpen, setIsMobileMenuOpen }: Sideb
     { href: "/pro-customers", label: "Pro Customers", icon: Briefcase, badge: proCustomers.length > 0 ? proCustomers.length.toString() : null },
     { href: "/categories", label: "Categories", icon: Tags, badge: categories.length > 0 ? categories.length.toString() : null },
     { href: "/services", label: "Services", icon: Settings, badge: services.length > 0 ? services.length.toString() : null },
+    { href: "/trash", label: "Trash", icon: Trash2, badge: null },
   ];
 
   const isActive = (href: string) => {
@@ -75,6 +96,19 @@ export default function Sidebar({ isMobileMenuOpen, setIsMobileMenuOpen }: Sideb
 
       {/* Navigation Menu */}
       <nav className="flex-1 p-4 space-y-2">
+        <button
+          type="button"
+          className="w-full flex items-center space-x-3 px-4 py-3 rounded-lg font-medium text-gray-500 border border-gray-200 hover:bg-gray-100 transition-colors"
+          onClick={() => {
+            setIsMobileMenuOpen(false);
+            onOpenSearch();
+          }}
+          data-testid="button-open-search"
+        >
+          <Search className="h-5 w-5" />
+          <span>Search</span>
+          <kbd className="ml-auto text-xs px-2 py-1 rounded bg-gray-100 text-gray-500 hidden md:inline">Ctrl K</kbd>
+        </button>
         {menuItems.map((item) => {
           const Icon = item.icon;
           return (
@@ -117,10 +151,20 @@ export default function Sidebar({ isMobileMenuOpen, setIsMobileMenuOpen }: Sideb
           <div className="w-10 h-10 bg-gray-300 rounded-full flex items-center justify-center">
             <User className="h-5 w-5 text-gray-600" />
           </div>
-          <div>
-            <p className="text-sm font-medium text-gray-900">Admin User</p>
-            <p className="text-xs text-gray-500">System Administrator</p>
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-medium text-gray-900 truncate">{user.name}</p>
+            <p className="text-xs text-gray-500 truncate">{user.email}</p>
           </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleLogout}
+            disabled={logout.isPending}
+            title="Sign out"
+            data-testid="button-logout"
+          >
+            <LogOut className="h-4 w-4 text-gray-600" />
+          </Button>
         </div>
       </div>
     </div>
@@ -0,0 +1,43 @@
+import { Button } from "@/components/ui/button";
+
+interface ListPaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+  noun: string;
+}
+
+export function ListPagination({ page, pageSize, total, pageCount, onPageChange, noun }: ListPaginationProps) {
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, total);
+
+  return (
+    <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+      <div className="flex items-center text-sm text-gray-500">
+        <span>Showing {first} to {last} of {total} {noun}</span>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={page <= 1}
+          onClick={() => onPageChange(page - 1)}
+          data-testid="button-previous-page"
+        >
+          Previous
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={page >= pageCount}
+          onClick={() => onPageChange(page + 1)}
+          data-testid="button-next-page"
+        >
+          Next
+        </Button>
+      </div>
+    </div>
+  );
+}
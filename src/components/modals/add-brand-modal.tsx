@@ -84,13 +84,25 @@ export default function AddBrandModal({ open, onOpenChange }: AddBrandModalProps
   const createBrandMutation = useMutation({
     mutationFn: async (data: AddBrandForm) => {
       const response = await apiRequest("POST", "/api/brands", data);
-      return response.json();
+      const brand = await response.json();
+      // Generate the brand's categories from the selected template
+      if (data.templateId) {
+        const applyResponse = await apiRequest("POST", "/api/brand-templates/apply", {
+          templateId: data.templateId,
+          brandId: brand.id,
+        });
+        const applied = await applyResponse.json();
+        return { ...applied.brand, generatedCategories: applied.created.length };
+      }
+      return brand;
     },
-    onSuccess: () => {
+    onSuccess: (brand) => {
       queryClient.invalidateQueries({ queryKey: ["/api/brands"] });
       toast({
         title: "Success",
-        description: "Brand created successfully!",
+        description: brand.generatedCategories
+          ? `Brand created with ${brand.generatedCategories} template categories!`
+          : "Brand created successfully!",
       });
       onOpenChange(false);
       form.reset();
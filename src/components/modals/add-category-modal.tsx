@@ -8,7 +8,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { insertCategorySchema, type InsertCategory, type Category, type Brand } from "@shared/schema";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 interface AddCategoryModalProps {
@@ -38,7 +38,6 @@ export default function AddCategoryModal({ isOpen, onClose }: AddCategoryModalPr
       parentId: null,
       path: "",
       subcategories: [],
-      vendorCount: "0",
     }
   });
 
@@ -56,10 +55,10 @@ export default function AddCategoryModal({ isOpen, onClose }: AddCategoryModalPr
       form.reset();
       onClose();
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to create category",
+        description: apiErrorMessage(error, "Failed to create category"),
         variant: "destructive",
       });
     },
@@ -33,7 +33,6 @@ export default function AddServiceModal({ isOpen, onClose }: AddServiceModalProp
       parentId: null,
       path: "",
       subservices: [],
-      vendorCount: "0",
     }
   });
 
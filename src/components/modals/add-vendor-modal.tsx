@@ -15,6 +15,7 @@ import { useToast } from "@/hooks/use-toast";
 import { PhoneInput } from "@/components/ui/phone-input";
 import { MultiPhoneField, MultiEmailField } from "@/components/ui/multi-contact-field";
 import BrandSelection from "@/components/brand-selection";
+import { categoryPaths, splitCategoryPaths } from "@/lib/vendor-categories";
 
 interface AddVendorModalProps {
   isOpen: boolean;
@@ -45,6 +46,7 @@ export default function AddVendorModal({ isOpen, onClose }: AddVendorModalProps)
       fax: "",
       phones: [],
       emails: [],
+      categoryIds: [],
       categories: [],
       brands: [],
       services: [],
@@ -61,6 +63,9 @@ export default function AddVendorModal({ isOpen, onClose }: AddVendorModalProps)
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
       queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/brands"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/brands/vendors"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
       toast({
         title: "Success",
         description: "Vendor created successfully",
@@ -211,7 +216,7 @@ export default function AddVendorModal({ isOpen, onClose }: AddVendorModalProps)
 
             <FormField
               control={form.control}
-              name="categories"
+              name="categoryIds"
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Categories</FormLabel>
@@ -254,13 +259,13 @@ export default function AddVendorModal({ isOpen, onClose }: AddVendorModalProps)
                             
                             <FormControl>
                               <Checkbox
-                                checked={field.value?.includes(category.name)}
+                                checked={field.value?.includes(category.id)}
                                 onCheckedChange={(checked) => {
                                   const currentValue = field.value || [];
                                   return checked
-                                    ? field.onChange([...currentValue, category.name])
+                                    ? field.onChange([...currentValue, category.id])
                                     : field.onChange(
-                                        currentValue.filter((value) => value !== category.name)
+                                        currentValue.filter((value) => value !== category.id)
                                       )
                                 }}
                               />
@@ -301,13 +306,13 @@ export default function AddVendorModal({ isOpen, onClose }: AddVendorModalProps)
                                       
                                       <FormControl>
                                         <Checkbox
-                                          checked={field.value?.includes(subcat.name)}
+                                          checked={field.value?.includes(subcat.id)}
                                           onCheckedChange={(checked) => {
                                             const currentValue = field.value || [];
                                             return checked
-                                              ? field.onChange([...currentValue, subcat.name])
+                                              ? field.onChange([...currentValue, subcat.id])
                                               : field.onChange(
-                                                  currentValue.filter((value) => value !== subcat.name)
+                                                  currentValue.filter((value) => value !== subcat.id)
                                                 )
                                           }}
                                         />
@@ -326,13 +331,13 @@ export default function AddVendorModal({ isOpen, onClose }: AddVendorModalProps)
                                             <div className="w-5" />
                                             <FormControl>
                                               <Checkbox
-                                                checked={field.value?.includes(subSubcat.name)}
+                                                checked={field.value?.includes(subSubcat.id)}
                                                 onCheckedChange={(checked) => {
                                                   const currentValue = field.value || [];
                                                   return checked
-                                                    ? field.onChange([...currentValue, subSubcat.name])
+                                                    ? field.onChange([...currentValue, subSubcat.id])
                                                     : field.onChange(
-                                                        currentValue.filter((value) => value !== subSubcat.name)
+                                                        currentValue.filter((value) => value !== subSubcat.id)
                                                       )
                                                 }}
                                               />
@@ -365,7 +370,7 @@ export default function AddVendorModal({ isOpen, onClose }: AddVendorModalProps)
               name="brands"
               render={({ field }) => {
                 const brands: string[] = Array.isArray(field.value) ? [...field.value] : [];
-                const currentCategories = form.watch("categories") || [];
+                const currentCategories = categoryPaths(form.watch("categoryIds") || [], (form.watch("categories") as string[] | null) || [], categories);
                 
                 return (
                   <FormItem>
@@ -374,8 +379,10 @@ export default function AddVendorModal({ isOpen, onClose }: AddVendorModalProps)
                         selectedBrands={brands}
                         onBrandsChange={(newBrands: string[]) => field.onChange(newBrands)}
                         onBrandCategoriesChange={(newCategories: string[]) => {
-                          // Update the categories field with the new brand-derived categories
-                          form.setValue("categories", newCategories);
+                          // Brand-derived paths become category ids where a category exists
+                          const { categoryIds, unmatched } = splitCategoryPaths(newCategories, categories);
+                          form.setValue("categoryIds", categoryIds);
+                          form.setValue("categories", unmatched);
                         }}
                         currentCategories={currentCategories}
                       />
@@ -1,7 +1,8 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { z } from "zod";
 import {
   Dialog,
@@ -25,7 +26,8 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiErrorBody, apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import BrandImpactConfirm, { type BrandChangePlan } from "@/components/brand-impact-confirm";
 import { 
   Edit, 
   Globe, 
@@ -33,8 +35,10 @@ import {
   Package,
   Building2,
   Trash2,
-  Settings
+  Settings,
+  ArrowUpCircle
 } from "lucide-react";
+import type { Vendor } from "@shared/schema";
 
 const editBrandSchema = z.object({
   name: z.string().min(1, "Brand name is required"),
@@ -61,6 +65,11 @@ interface Brand {
   updatedAt: Date;
 }
 
+// A change waiting on the impact confirm step
+type PendingChange =
+  | { kind: "rename"; plan: BrandChangePlan; fields: EditBrandForm }
+  | { kind: "upgrade"; plan: BrandChangePlan };
+
 interface BrandDetailModalProps {
   brand: Brand;
   open: boolean;
@@ -69,6 +78,8 @@ interface BrandDetailModalProps {
 
 export default function BrandDetailModal({ brand, open, onOpenChange }: BrandDetailModalProps) {
   const [isEditing, setIsEditing] = useState(false);
+  const [pendingChange, setPendingChange] = useState<PendingChange | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -84,7 +95,7 @@ export default function BrandDetailModal({ brand, open, onOpenChange }: BrandDet
   });
 
   const updateBrandMutation = useMutation({
-    mutationFn: async (data: EditBrandForm) => {
+    mutationFn: async (data: Partial<EditBrandForm>) => {
       const response = await apiRequest("PATCH", `/api/brands?id=${brand.id}`, data);
       return response.json();
     },
@@ -96,18 +107,77 @@ export default function BrandDetailModal({ brand, open, onOpenChange }: BrandDet
       });
       setIsEditing(false);
     },
-    onError: (error: any) => {
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to update brand"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // A rename rewrites every "<brand> > ..." path, so it is previewed first
+  const previewRenameMutation = useMutation({
+    mutationFn: async (data: EditBrandForm) => {
+      const response = await apiRequest("POST", "/api/brands/impact", { brandId: brand.id, name: data.name.trim() });
+      return response.json() as Promise<BrandChangePlan>;
+    },
+    onSuccess: (plan, data) => {
+      setPendingChange({ kind: "rename", plan, fields: data });
+    },
+    onError: (error) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to update brand",
+        description: apiErrorMessage(error, "Failed to preview the rename"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // A stale preview is refused with 409 and the plan as it stands now, which
+  // replaces the one being confirmed
+  const showCurrentPlan = (error: unknown) => {
+    const failed = apiErrorBody(error);
+    if (failed?.status === 409 && failed.body.plan) {
+      setPendingChange(current => current && { ...current, plan: failed.body.plan as BrandChangePlan });
+    }
+  };
+
+  // The server carries the new name into category paths and vendors, as
+  // long as that is still the previewed plan
+  const renameBrandMutation = useMutation({
+    mutationFn: async ({ fields, plan }: { fields: EditBrandForm; plan: BrandChangePlan }) => {
+      const response = await apiRequest("PATCH", `/api/brands?id=${brand.id}`, {
+        ...fields,
+        name: fields.name.trim(),
+        planVersion: plan.planVersion,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/brands"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+      toast({
+        title: "Success",
+        description: "Brand renamed and vendor categories updated",
+      });
+      setPendingChange(null);
+      setIsEditing(false);
+    },
+    onError: (error) => {
+      showCurrentPlan(error);
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to rename brand"),
         variant: "destructive",
       });
     },
   });
 
   const deleteBrandMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest("DELETE", `/api/brands?id=${brand.id}`);
+    mutationFn: async (mode: "remove" | "generic") => {
+      const response = await apiRequest("DELETE", `/api/brands?id=${brand.id}&mode=${mode}`);
       if (response.status === 204) {
         return null; // 204 responses have no content
       }
@@ -115,31 +185,94 @@ export default function BrandDetailModal({ brand, open, onOpenChange }: BrandDet
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/brands"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+      setIsConfirmingDelete(false);
       toast({
         title: "Success",
         description: "Brand deleted successfully!",
       });
       onOpenChange(false);
     },
-    onError: (error: any) => {
+    onError: (error) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to delete brand",
+        description: apiErrorMessage(error, "Failed to delete brand"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { data: upgradePlans = [] } = useQuery<BrandChangePlan[]>({
+    queryKey: ["/api/brand-templates/upgrade", brand.templateId, brand.id],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/brand-templates/upgrade?templateId=${brand.templateId}&brandId=${brand.id}`);
+      return response.json();
+    },
+    enabled: open && !!brand.templateId,
+  });
+  const upgradePlan = upgradePlans.find(plan => plan.fromVersion !== plan.toVersion);
+
+  const { data: brandVendors = [], isLoading: isLoadingVendors } = useQuery<Vendor[]>({
+    queryKey: ["/api/brands/vendors", brand.id],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/brands/vendors?brandId=${brand.id}`);
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  const upgradeTemplateMutation = useMutation({
+    mutationFn: async (plan: BrandChangePlan) => {
+      const response = await apiRequest("POST", "/api/brand-templates/upgrade", {
+        templateId: brand.templateId,
+        brandIds: [brand.id],
+        planVersions: { [brand.id]: plan.planVersion },
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/brands"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/brand-templates/upgrade"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      toast({
+        title: "Success",
+        description: `Brand upgraded to template v${upgradePlan?.toVersion}`,
+      });
+      setPendingChange(null);
+    },
+    onError: (error) => {
+      showCurrentPlan(error);
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to upgrade brand template"),
         variant: "destructive",
       });
     },
   });
 
   const onSubmit = (data: EditBrandForm) => {
-    updateBrandMutation.mutate(data);
+    if (data.name.trim() !== brand.name) {
+      previewRenameMutation.mutate(data);
+    } else {
+      updateBrandMutation.mutate(data);
+    }
   };
 
-  const handleDelete = () => {
-    if (confirm("Are you sure you want to delete this brand? This action cannot be undone.")) {
-      deleteBrandMutation.mutate();
+  const confirmPendingChange = () => {
+    if (pendingChange?.kind === "rename") {
+      renameBrandMutation.mutate({ fields: pendingChange.fields, plan: pendingChange.plan });
+    } else if (pendingChange?.kind === "upgrade") {
+      upgradeTemplateMutation.mutate(pendingChange.plan);
     }
   };
 
+  const handleDelete = () => {
+    setPendingChange(null);
+    setIsConfirmingDelete(true);
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto" data-testid="modal-brand-detail">
@@ -184,7 +317,67 @@ export default function BrandDetailModal({ brand, open, onOpenChange }: BrandDet
           </TabsList>
 
           <TabsContent value="details" className="space-y-6">
-            {isEditing ? (
+            {isConfirmingDelete && (
+              <Card className="border-red-200 bg-red-50" data-testid="card-confirm-delete">
+                <CardHeader>
+                  <CardTitle className="text-sm font-medium flex items-center gap-2">
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                    Delete "{brand.name}"?
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4 text-sm">
+                  <p className="text-muted-foreground">
+                    {brand.vendorCount ?? 0} vendor{brand.vendorCount === 1 ? " uses" : "s use"} this brand. Choose what happens to its
+                    categories and the vendors assigned to them. This cannot be undone.
+                  </p>
+                  <ul className="list-disc pl-5 space-y-1 text-muted-foreground">
+                    <li><span className="font-medium text-foreground">Remove everywhere</span>: delete its categories and take them off every vendor.</li>
+                    <li><span className="font-medium text-foreground">Convert to generic</span>: keep its categories as generic ones without the brand name; vendors keep them.</li>
+                  </ul>
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setIsConfirmingDelete(false)}
+                      disabled={deleteBrandMutation.isPending}
+                      data-testid="button-cancel-delete"
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteBrandMutation.mutate("generic")}
+                      disabled={deleteBrandMutation.isPending}
+                      data-testid="button-delete-generic"
+                    >
+                      Convert to Generic
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => deleteBrandMutation.mutate("remove")}
+                      disabled={deleteBrandMutation.isPending}
+                      data-testid="button-delete-everywhere"
+                    >
+                      {deleteBrandMutation.isPending ? "Deleting..." : "Remove Everywhere"}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+            {pendingChange ? (
+              <BrandImpactConfirm
+                title={pendingChange.kind === "rename"
+                  ? `Rename "${brand.name}" to "${pendingChange.plan.newName}"`
+                  : `Upgrade to template v${pendingChange.plan.toVersion}`}
+                plan={pendingChange.plan}
+                confirmLabel={pendingChange.kind === "rename" ? "Rename Brand" : "Upgrade Brand"}
+                isPending={renameBrandMutation.isPending || upgradeTemplateMutation.isPending}
+                onConfirm={confirmPendingChange}
+                onCancel={() => setPendingChange(null)}
+              />
+            ) : isEditing ? (
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
                   <FormField
@@ -276,10 +469,10 @@ export default function BrandDetailModal({ brand, open, onOpenChange }: BrandDet
                     </Button>
                     <Button 
                       type="submit" 
-                      disabled={updateBrandMutation.isPending}
+                      disabled={updateBrandMutation.isPending || previewRenameMutation.isPending}
                       data-testid="button-save"
                     >
-                      {updateBrandMutation.isPending ? "Saving..." : "Save Changes"}
+                      {updateBrandMutation.isPending || previewRenameMutation.isPending ? "Saving..." : "Save Changes"}
                     </Button>
                   </div>
                 </form>
@@ -355,6 +548,43 @@ export default function BrandDetailModal({ brand, open, onOpenChange }: BrandDet
                   )}
                 </div>
 
+                {upgradePlan && (
+                  <Card className="border-blue-200 bg-blue-50" data-testid="card-template-upgrade">
+                    <CardHeader>
+                      <CardTitle className="text-sm font-medium flex items-center gap-2">
+                        <ArrowUpCircle className="h-4 w-4" />
+                        Template update available: v{upgradePlan.fromVersion ?? "?"} → v{upgradePlan.toVersion}
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {upgradePlan.adds.length === 0 && upgradePlan.removes.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No category changes for this brand.</p>
+                      ) : (
+                        <div className="space-y-1 text-sm">
+                          {upgradePlan.adds.map(path => (
+                            <div key={`add-${path}`} className="text-green-700">+ {path}</div>
+                          ))}
+                          {upgradePlan.removes.map(path => (
+                            <div key={`remove-${path}`} className="text-red-700">− {path}</div>
+                          ))}
+                        </div>
+                      )}
+                      {upgradePlan.vendors.length > 0 && (
+                        <p className="text-sm text-muted-foreground">
+                          {upgradePlan.vendors.length} vendor{upgradePlan.vendors.length === 1 ? "" : "s"} will have their categories updated
+                        </p>
+                      )}
+                      <Button
+                        size="sm"
+                        onClick={() => setPendingChange({ kind: "upgrade", plan: upgradePlan })}
+                        data-testid="button-upgrade-template"
+                      >
+                        Review Upgrade
+                      </Button>
+                    </CardContent>
+                  </Card>
+                )}
+
                 {brand.description && (
                   <Card>
                     <CardHeader>
@@ -407,18 +637,43 @@ export default function BrandDetailModal({ brand, open, onOpenChange }: BrandDet
           </TabsContent>
 
           <TabsContent value="vendors" className="space-y-4">
-            <Card>
-              <CardContent className="text-center py-12">
-                <Building2 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                <h3 className="text-lg font-semibold mb-2">Associated Vendors</h3>
-                <p className="text-muted-foreground mb-4">
-                  View vendors that work with this brand
-                </p>
-                <p className="text-sm text-muted-foreground">
-                  Currently {brand.vendorCount} vendors are associated with this brand
-                </p>
-              </CardContent>
-            </Card>
+            {isLoadingVendors ? (
+              <p className="text-sm text-muted-foreground text-center py-12">Loading vendors...</p>
+            ) : brandVendors.length === 0 ? (
+              <Card>
+                <CardContent className="text-center py-12">
+                  <Building2 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">Associated Vendors</h3>
+                  <p className="text-muted-foreground">
+                    No vendors are associated with this brand yet
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">
+                    {brandVendors.length} vendor{brandVendors.length === 1 ? "" : "s"}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="divide-y">
+                  {brandVendors.map((vendor) => (
+                    <Link
+                      key={vendor.id}
+                      href={`/vendors?id=${vendor.id}`}
+                      className="flex items-center justify-between py-2 hover:text-blue-600"
+                      onClick={() => onOpenChange(false)}
+                      data-testid={`brand-vendor-${vendor.id}`}
+                    >
+                      <span className="font-medium">{vendor.companyName}</span>
+                      {vendor.vendorNumber && (
+                        <Badge variant="outline" className="text-xs">{vendor.vendorNumber}</Badge>
+                      )}
+                    </Link>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
         </Tabs>
       </DialogContent>
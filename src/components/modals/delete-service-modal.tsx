@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { type Service } from "@shared/schema";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface DeleteServiceModalProps {
+  service: Service | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const NO_TARGET = "__none__";
+
+type DeleteChoice = { strategy: "cascade" } | { strategy: "reassign"; targetId: string | null };
+
+export default function DeleteServiceModal({ service, isOpen, onClose }: DeleteServiceModalProps) {
+  const { toast } = useToast();
+  const [targetId, setTargetId] = useState<string>(NO_TARGET);
+
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+  });
+
+  useEffect(() => {
+    setTargetId(service?.parentId || NO_TARGET);
+  }, [service]);
+
+  const deleteServiceMutation = useMutation({
+    mutationFn: async (choice: DeleteChoice) => {
+      if (!service) return;
+      const params = new URLSearchParams({ id: service.id, strategy: choice.strategy });
+      if (choice.strategy === "reassign" && choice.targetId) {
+        params.set("targetId", choice.targetId);
+      }
+      await apiRequest("DELETE", `/api/services?${params}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+      toast({
+        title: "Success",
+        description: "Service deleted successfully",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to delete service"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!service) return null;
+
+  // The service and everything below it; none of them can take over
+  const subtreeIds = new Set<string>([service.id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const s of services) {
+      if (s.parentId && subtreeIds.has(s.parentId) && !subtreeIds.has(s.id)) {
+        subtreeIds.add(s.id);
+        grew = true;
+      }
+    }
+  }
+  const subserviceCount = subtreeIds.size - 1;
+  const targets = services
+    .filter(s => !subtreeIds.has(s.id))
+    .sort((a, b) => (a.path || a.name).localeCompare(b.path || b.name));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Delete "{service.name}"</DialogTitle>
+          <DialogDescription>
+            {subserviceCount > 0
+              ? `This service has ${subserviceCount} subservice${subserviceCount === 1 ? "" : "s"}. `
+              : ""}
+            Vendors offering it can be moved to another service, or lose it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Reassign {subserviceCount > 0 ? "subservices and vendors" : "vendors"} to</Label>
+          <Select value={targetId} onValueChange={setTargetId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TARGET}>
+                {subserviceCount > 0 ? "None (subservices move up a level, vendors lose this service)" : "None (vendors lose this service)"}
+              </SelectItem>
+              {targets.map((target) => (
+                <SelectItem key={target.id} value={target.id}>
+                  {target.path || target.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-6 border-t border-gray-200">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          {subserviceCount > 0 && (
+            <Button
+              variant="destructive"
+              disabled={deleteServiceMutation.isPending}
+              onClick={() => deleteServiceMutation.mutate({ strategy: "cascade" })}
+            >
+              Delete All {subserviceCount + 1}
+            </Button>
+          )}
+          <Button
+            className="bg-red-600 hover:bg-red-700"
+            disabled={deleteServiceMutation.isPending}
+            onClick={() => deleteServiceMutation.mutate({
+              strategy: "reassign",
+              targetId: targetId === NO_TARGET ? null : targetId,
+            })}
+          >
+            {deleteServiceMutation.isPending ? "Deleting..." : "Reassign and Delete"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
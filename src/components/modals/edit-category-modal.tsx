@@ -9,7 +9,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { insertCategorySchema, type InsertCategory, type Category, type Brand } from "@shared/schema";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Save, X } from "lucide-react";
 
@@ -41,7 +41,6 @@ export default function EditCategoryModal({ category, isOpen, onClose }: EditCat
       parentId: null,
       path: "",
       subcategories: [],
-      vendorCount: "0",
     }
   });
 
@@ -57,7 +56,6 @@ export default function EditCategoryModal({ category, isOpen, onClose }: EditCat
         parentId: category.parentId,
         path: category.path || "",
         subcategories: category.subcategories || [],
-        vendorCount: category.vendorCount || "0",
       });
     }
   }, [category, form]);
@@ -69,17 +67,19 @@ export default function EditCategoryModal({ category, isOpen, onClose }: EditCat
       return response.json();
     },
     onSuccess: () => {
+      // Renames and moves rewrite the paths shown on vendors too
       queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
       toast({
         title: "Success",
         description: "Category updated successfully",
       });
       onClose();
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to update category",
+        description: apiErrorMessage(error, "Failed to update category"),
         variant: "destructive",
       });
     },
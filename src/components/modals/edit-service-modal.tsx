@@ -9,7 +9,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { insertServiceSchema, type InsertService, type Service } from "@shared/schema";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 interface EditServiceModalProps {
@@ -34,7 +34,6 @@ export default function EditServiceModal({ service, isOpen, onClose }: EditServi
       parentId: null,
       path: "",
       subservices: [],
-      vendorCount: "0",
     }
   });
 
@@ -48,7 +47,6 @@ export default function EditServiceModal({ service, isOpen, onClose }: EditServi
         parentId: service.parentId,
         path: service.path || "",
         subservices: service.subservices || [],
-        vendorCount: service.vendorCount || "0",
       });
     }
   }, [service, form]);
@@ -61,34 +59,28 @@ export default function EditServiceModal({ service, isOpen, onClose }: EditServi
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+      // A rename is carried into the vendors offering the service
+      queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
       toast({
         title: "Success",
         description: "Service updated successfully",
       });
       onClose();
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to update service",
+        description: apiErrorMessage(error, "Failed to update service"),
         variant: "destructive",
       });
     },
   });
 
+  // The server derives path and level from the parent and moves the subtree along
   const onSubmit = (data: InsertService) => {
-    // Build the path based on parent selection
-    let servicePath = data.name;
-    if (data.parentId) {
-      const parent = services.find(s => s.id === data.parentId);
-      if (parent) {
-        servicePath = `${parent.path} > ${data.name}`;
-      }
-    }
-
     updateServiceMutation.mutate({
       ...data,
-      path: servicePath,
+      parentId: data.level === "1" ? null : data.parentId,
     });
   };
 
@@ -97,11 +89,23 @@ export default function EditServiceModal({ service, isOpen, onClose }: EditServi
     onClose();
   };
 
+  // Collect the service and everything below it; none of them can become its parent
+  const subtreeIds = new Set<string>(service ? [service.id] : []);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const s of services) {
+      if (s.parentId && subtreeIds.has(s.parentId) && !subtreeIds.has(s.id)) {
+        subtreeIds.add(s.id);
+        grew = true;
+      }
+    }
+  }
+
   // Get available parent services (level 1 and 2 only), excluding current service and its children
   const availableParents = services.filter(s => 
     (s.level === "1" || s.level === "2") && 
-    s.id !== service?.id && 
-    !s.path?.includes(service?.name || "")
+    !subtreeIds.has(s.id)
   );
 
   const selectedLevel = form.watch("level");
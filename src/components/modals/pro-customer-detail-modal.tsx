@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useMutation } from "@tanstack/react-query";
-import { useForm } from "react-hook-form";
+import { useForm, type DefaultValues } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -12,17 +12,20 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Building, Edit, Save, X, Phone, Mail, User, Hash, Briefcase, Calendar, FileText, Download, Copy, MessageCircle, ExternalLink, Clock, Star, CreditCard, Check, Users, Home, Plus, Trash2 } from "lucide-react";
+import { Building, Edit, Save, X, Phone, Mail, User, Hash, Briefcase, Calendar, FileText, Download, Copy, MessageCircle, ExternalLink, Clock, Star, CreditCard, Check, Users, Home, Plus, Trash2, History } from "lucide-react";
 import { insertProCustomerSchema, type ProCustomer, type InsertProCustomer, type PhoneContact, type EmailContact } from "@shared/schema";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { mergeEdits, staleVersion, type MergedEdits } from "@/lib/edit-conflicts";
 import { useToast } from "@/hooks/use-toast";
 import { useTrades, useCreateTrade } from "@/hooks/use-trades";
 import { useBusinessTypes, useCreateBusinessType } from "@/hooks/use-business-types";
 import { useProContacts, useCreateProContact, useUpdateProContact, useDeleteProContact } from "@/hooks/use-pro-contacts";
-import { useManagedProperties, useCreateManagedProperty, useUpdateManagedProperty, useDeleteManagedProperty } from "@/hooks/use-managed-properties";
+import { useManagedProperties, useManagedPropertyTotals, useCreateManagedProperty, useUpdateManagedProperty, useDeleteManagedProperty } from "@/hooks/use-managed-properties";
 import { PhoneInput } from "@/components/ui/phone-input";
 import { MultiPhoneField, MultiEmailField } from "@/components/ui/multi-contact-field";
+import RecordHistory from "@/components/record-history";
+import EditConflictPrompt from "@/components/edit-conflict-prompt";
 
 interface ProCustomerDetailModalProps {
   customer: ProCustomer | null;
@@ -31,6 +34,57 @@ interface ProCustomerDetailModalProps {
   startInEditMode?: boolean;
 }
 
+// The edit form's values for a saved pro customer
+function customerFormValues(customer: ProCustomer): DefaultValues<InsertProCustomer> {
+  return {
+    businessName: customer.businessName,
+    businessTypes: customer.businessTypes || [],
+    primaryContactName: customer.primaryContactName || "",
+    primaryContactRole: customer.primaryContactRole || "",
+    primaryContactMobile: customer.primaryContactMobile || "",
+    primaryContactEmail: customer.primaryContactEmail || "",
+    lowesProAccountNumber: customer.lowesProAccountNumber || "",
+    taxExemptNumber: customer.taxExemptNumber || "",
+    preferredContactMethod: customer.preferredContactMethod || "",
+    paymentPreference: customer.paymentPreference || "",
+    mvpRewardsProgram: customer.mvpRewardsProgram || false,
+    trades: customer.trades || [],
+    secondarySpecialties: customer.secondarySpecialties || [],
+    typicalProjectType: customer.typicalProjectType || "",
+    currentMajorProjects: customer.currentMajorProjects || "",
+    powerToolPlatform: customer.powerToolPlatform || "",
+    paintBrand: customer.paintBrand || "",
+    paintSheen: customer.paintSheen || "",
+    goToColors: customer.goToColors || [],
+    lumberGrade: customer.lumberGrade || "",
+    subflooring: customer.subflooring || "",
+    drywall: customer.drywall || "",
+    insulation: customer.insulation || "",
+    screws: customer.screws || "",
+    caulkSealant: customer.caulkSealant || "",
+    adhesive: customer.adhesive || "",
+    sawBlades: customer.sawBlades || "",
+    plumbingPipe: customer.plumbingPipe || "",
+    plumbingFittings: customer.plumbingFittings || "",
+    fixtureBrands: customer.fixtureBrands || "",
+    breakerBoxBrand: customer.breakerBoxBrand || "",
+    deviceBrands: customer.deviceBrands || "",
+    goToItems: customer.goToItems || [],
+    typicalOrderMethod: customer.typicalOrderMethod || "",
+    fulfillmentPreference: customer.fulfillmentPreference || "",
+    frequentDeliveryAddresses: customer.frequentDeliveryAddresses || [],
+    purchasingInfluencers: customer.purchasingInfluencers || "",
+    orderFrequency: customer.orderFrequency || "",
+    painPoints: customer.painPoints || "",
+    theUsual: customer.theUsual || "",
+    communicationStyle: customer.communicationStyle || "",
+    lastMajorQuoteIssue: customer.lastMajorQuoteIssue || "",
+    notes: customer.notes || "",
+    phones: customer.phones || [],
+    emails: customer.emails || [],
+  };
+}
+
 export default function ProCustomerDetailModal({ customer, isOpen, onClose, startInEditMode = false }: ProCustomerDetailModalProps) {
   const [isEditing, setIsEditing] = useState(startInEditMode);
   const [lastActivity, setLastActivity] = useState<string | null>(null);
@@ -38,6 +92,9 @@ export default function ProCustomerDetailModal({ customer, isOpen, onClose, star
   const [customTrade, setCustomTrade] = useState("");
   const [showCustomBusinessType, setShowCustomBusinessType] = useState(false);
   const [customBusinessType, setCustomBusinessType] = useState("");
+  // The saved version the edit started from, and the newer one if a save lost a race
+  const [baseVersion, setBaseVersion] = useState<ProCustomer | null>(customer);
+  const [conflict, setConflict] = useState<{ current: ProCustomer; merge: MergedEdits<DefaultValues<InsertProCustomer>> } | null>(null);
   const { toast } = useToast();
   const { data: trades = [], isLoading: tradesLoading } = useTrades();
   const createTradeMutation = useCreateTrade();
@@ -178,61 +235,20 @@ Trade: ${customer?.primaryTrade || 'N/A'}
   // Reset form when customer changes and set edit mode
   useEffect(() => {
     if (customer) {
-      form.reset({
-        businessName: customer.businessName,
-        businessTypes: customer.businessTypes || [],
-        primaryContactName: customer.primaryContactName || "",
-        primaryContactRole: customer.primaryContactRole || "",
-        primaryContactMobile: customer.primaryContactMobile || "",
-        primaryContactEmail: customer.primaryContactEmail || "",
-        lowesProAccountNumber: customer.lowesProAccountNumber || "",
-        taxExemptNumber: customer.taxExemptNumber || "",
-        preferredContactMethod: customer.preferredContactMethod || "",
-        paymentPreference: customer.paymentPreference || "",
-        mvpRewardsProgram: customer.mvpRewardsProgram || false,
-        trades: customer.trades || [],
-        secondarySpecialties: customer.secondarySpecialties || [],
-        typicalProjectType: customer.typicalProjectType || "",
-        currentMajorProjects: customer.currentMajorProjects || "",
-        powerToolPlatform: customer.powerToolPlatform || "",
-        paintBrand: customer.paintBrand || "",
-        paintSheen: customer.paintSheen || "",
-        goToColors: customer.goToColors || [],
-        lumberGrade: customer.lumberGrade || "",
-        subflooring: customer.subflooring || "",
-        drywall: customer.drywall || "",
-        insulation: customer.insulation || "",
-        screws: customer.screws || "",
-        caulkSealant: customer.caulkSealant || "",
-        adhesive: customer.adhesive || "",
-        sawBlades: customer.sawBlades || "",
-        plumbingPipe: customer.plumbingPipe || "",
-        plumbingFittings: customer.plumbingFittings || "",
-        fixtureBrands: customer.fixtureBrands || "",
-        breakerBoxBrand: customer.breakerBoxBrand || "",
-        deviceBrands: customer.deviceBrands || "",
-        goToItems: customer.goToItems || [],
-        typicalOrderMethod: customer.typicalOrderMethod || "",
-        fulfillmentPreference: customer.fulfillmentPreference || "",
-        frequentDeliveryAddresses: customer.frequentDeliveryAddresses || [],
-        purchasingInfluencers: customer.purchasingInfluencers || "",
-        orderFrequency: customer.orderFrequency || "",
-        painPoints: customer.painPoints || "",
-        theUsual: customer.theUsual || "",
-        communicationStyle: customer.communicationStyle || "",
-        lastMajorQuoteIssue: customer.lastMajorQuoteIssue || "",
-        notes: customer.notes || "",
-        phones: customer.phones || [],
-        emails: customer.emails || [],
-      });
+      form.reset(customerFormValues(customer));
     }
+    setBaseVersion(customer);
+    setConflict(null);
     setIsEditing(startInEditMode);
   }, [customer, form, startInEditMode]);
 
   const updateCustomerMutation = useMutation({
     mutationFn: async (data: InsertProCustomer) => {
       if (!customer) return;
-      const response = await apiRequest("PUT", `/api/pro-customers?id=${customer.id}`, data);
+      const response = await apiRequest("PUT", `/api/pro-customers?id=${customer.id}`, {
+        ...data,
+        updatedAt: (baseVersion ?? customer).updatedAt,
+      });
       return response.json();
     },
     onSuccess: () => {
@@ -247,7 +263,15 @@ Trade: ${customer?.primaryTrade || 'N/A'}
         handleClose();
       }, 500); // Small delay to show success message
     },
-    onError: () => {
+    onError: (error, data) => {
+      const current = staleVersion<ProCustomer>(error);
+      if (current && customer) {
+        setConflict({
+          current,
+          merge: mergeEdits(customerFormValues(baseVersion ?? customer), data, customerFormValues(current)),
+        });
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to update pro customer",
@@ -315,8 +339,29 @@ Trade: ${customer?.primaryTrade || 'N/A'}
     updateCustomerMutation.mutate(finalData);
   };
 
+  const handleReloadConflict = () => {
+    if (!conflict) return;
+    form.reset(customerFormValues(conflict.current));
+    setBaseVersion(conflict.current);
+    setConflict(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/pro-customers"] });
+  };
+
+  const handleMergeConflict = () => {
+    if (!conflict) return;
+    form.reset(conflict.merge.values);
+    setBaseVersion(conflict.current);
+    setConflict(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/pro-customers"] });
+    toast({
+      title: "Changes merged",
+      description: "Review the merged pro customer and save again",
+    });
+  };
+
   const handleClose = () => {
     setIsEditing(false);
+    setConflict(null);
     form.reset();
     onClose();
   };
@@ -438,6 +483,14 @@ Trade: ${customer?.primaryTrade || 'N/A'}
         {isEditing ? (
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              {conflict && (
+                <EditConflictPrompt
+                  recordLabel="pro customer"
+                  merge={conflict.merge}
+                  onReload={handleReloadConflict}
+                  onMerge={handleMergeConflict}
+                />
+              )}
               {/* Edit form fields - simplified version for space */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <FormField
@@ -1300,7 +1353,7 @@ Trade: ${customer?.primaryTrade || 'N/A'}
           </Form>
         ) : (
           <Tabs defaultValue="overview" className="w-full">
-            <TabsList className="grid w-full grid-cols-3 mb-6">
+            <TabsList className={`grid w-full ${customer.trades?.includes("property-manager") ? "grid-cols-4" : "grid-cols-3"} mb-6`}>
               <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
               <TabsTrigger value="contacts" data-testid="tab-contacts">
                 <Users className="h-4 w-4 mr-2" />
@@ -1312,6 +1365,10 @@ Trade: ${customer?.primaryTrade || 'N/A'}
                   Properties
                 </TabsTrigger>
               )}
+              <TabsTrigger value="history" data-testid="tab-history">
+                <History className="h-4 w-4 mr-2" />
+                History
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="overview" className="space-y-6">
@@ -1753,6 +1810,10 @@ Trade: ${customer?.primaryTrade || 'N/A'}
                 <PropertiesTab customerId={customer.id} />
               </TabsContent>
             )}
+
+            <TabsContent value="history">
+              <RecordHistory entityType="proCustomer" entityId={customer.id} endpoint="/api/pro-customers" onRestored={handleClose} />
+            </TabsContent>
           </Tabs>
         )}
       </DialogContent>
@@ -2025,6 +2086,7 @@ function PropertiesTab({ customerId }: { customerId: string }) {
   const [isAddingProperty, setIsAddingProperty] = useState(false);
   const [editingProperty, setEditingProperty] = useState<any | null>(null);
   const { data: properties = [], isLoading } = useManagedProperties(customerId);
+  const { data: totals } = useManagedPropertyTotals(customerId);
   const createProperty = useCreateManagedProperty();
   const updateProperty = useUpdateManagedProperty();
   const deleteProperty = useDeleteManagedProperty();
@@ -2099,7 +2161,14 @@ function PropertiesTab({ customerId }: { customerId: string }) {
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
-        <h3 className="text-lg font-semibold text-gray-900">Managed Properties</h3>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Managed Properties</h3>
+          {totals && totals.propertyCount > 0 && (
+            <p className="text-sm text-gray-500" data-testid="text-property-totals">
+              {totals.propertyCount} {totals.propertyCount === 1 ? "property" : "properties"} · {totals.totalUnits} total units
+            </p>
+          )}
+        </div>
         <Button 
           onClick={() => {
             setIsAddingProperty(true);
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { useForm } from "react-hook-form";
+import { useForm, type DefaultValues } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -10,13 +10,17 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Building, Edit, Save, X, Phone, Mail, Calendar, Hash, User, Users, ChevronDown, ChevronRight, Search, Trash2, Plus, UserPlus } from "lucide-react";
+import { Building, Edit, Save, X, Phone, Mail, Calendar, Hash, User, Users, ChevronDown, ChevronRight, Search, Trash2, Plus, UserPlus, History } from "lucide-react";
 import { insertVendorSchema, insertRepresentativeSchema, type Vendor, type InsertVendor, type Representative, type InsertRepresentative, type Category, type Service, type PhoneContact, type EmailContact } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { mergeEdits, staleVersion, type MergedEdits } from "@/lib/edit-conflicts";
 import { useToast } from "@/hooks/use-toast";
 import { PhoneInput } from "@/components/ui/phone-input";
 import BrandSelection from "@/components/brand-selection";
+import { categoryPaths, splitCategoryPaths } from "@/lib/vendor-categories";
 import { MultiPhoneField, MultiEmailField } from "@/components/ui/multi-contact-field";
+import RecordHistory from "@/components/record-history";
+import EditConflictPrompt from "@/components/edit-conflict-prompt";
 import { z } from "zod";
 
 interface VendorDetailModalProps {
@@ -26,11 +30,33 @@ interface VendorDetailModalProps {
   startInEditMode?: boolean;
 }
 
+// The edit form's values for a saved vendor
+function vendorFormValues(vendor: Vendor): DefaultValues<InsertVendor> {
+  return {
+    companyName: vendor.companyName,
+    phone: vendor.phone || "",
+    email: vendor.email || "",
+    fax: vendor.fax || "",
+    categoryIds: vendor.categoryIds || [],
+    categories: vendor.unmatchedCategories || [],
+    brands: vendor.brands || [],
+    services: vendor.services || [],
+    notes: vendor.notes || "",
+    vendorNumber: vendor.vendorNumber,
+    phones: vendor.phones || [],
+    emails: vendor.emails || [],
+  };
+}
+
 export default function VendorDetailModal({ vendor, isOpen, onClose, startInEditMode = false }: VendorDetailModalProps) {
   const [isEditing, setIsEditing] = useState(startInEditMode);
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
   const [categorySearchQuery, setCategorySearchQuery] = useState("");
   const [showAddRepForm, setShowAddRepForm] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  // The saved version the edit started from, and the newer one if a save lost a race
+  const [baseVersion, setBaseVersion] = useState<Vendor | null>(vendor);
+  const [conflict, setConflict] = useState<{ current: Vendor; merge: MergedEdits<DefaultValues<InsertVendor>> } | null>(null);
   const { toast } = useToast();
 
   // Get sales representatives for this vendor
@@ -132,9 +158,10 @@ export default function VendorDetailModal({ vendor, isOpen, onClose, startInEdit
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/representatives"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       toast({
         title: "Success",
-        description: "Sales representative removed",
+        description: "Sales representative moved to the trash",
       });
     },
     onError: () => {
@@ -155,7 +182,7 @@ export default function VendorDetailModal({ vendor, isOpen, onClose, startInEdit
   };
 
   const handleDeleteRep = (repId: string, repName: string) => {
-    if (confirm(`Are you sure you want to remove ${repName}?`)) {
+    if (confirm(`Move ${repName} to the trash? It can be restored from the Trash page.`)) {
       deleteRepMutation.mutate(repId);
     }
   };
@@ -167,7 +194,8 @@ export default function VendorDetailModal({ vendor, isOpen, onClose, startInEdit
       phone: vendor?.phone || "",
       email: vendor?.email || "",
       fax: vendor?.fax || "",
-      categories: vendor?.categories || [],
+      categoryIds: vendor?.categoryIds || [],
+      categories: vendor?.unmatchedCategories || [],
       brands: vendor?.brands || [],
       services: vendor?.services || [],
       notes: vendor?.notes || "",
@@ -180,32 +208,28 @@ export default function VendorDetailModal({ vendor, isOpen, onClose, startInEdit
   // Reset form when vendor changes and set edit mode
   useEffect(() => {
     if (vendor) {
-      form.reset({
-        companyName: vendor.companyName,
-        phone: vendor.phone || "",
-        email: vendor.email || "",
-        fax: vendor.fax || "",
-        categories: vendor.categories || [],
-        brands: vendor.brands || [],
-        services: vendor.services || [],
-        notes: vendor.notes || "",
-        vendorNumber: vendor.vendorNumber,
-        phones: vendor.phones || [],
-        emails: vendor.emails || [],
-      });
+      form.reset(vendorFormValues(vendor));
     }
+    setBaseVersion(vendor);
+    setConflict(null);
     setIsEditing(startInEditMode);
   }, [vendor, form, startInEditMode]);
 
   const updateVendorMutation = useMutation({
     mutationFn: async (data: InsertVendor) => {
       if (!vendor) return;
-      const response = await apiRequest("PUT", `/api/vendors?id=${vendor.id}`, data);
+      const response = await apiRequest("PUT", `/api/vendors?id=${vendor.id}`, {
+        ...data,
+        updatedAt: (baseVersion ?? vendor).updatedAt,
+      });
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
       queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/brands"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/brands/vendors"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
       toast({
         title: "Success",
         description: "Vendor updated successfully",
@@ -216,7 +240,15 @@ export default function VendorDetailModal({ vendor, isOpen, onClose, startInEdit
         handleClose();
       }, 500); // Small delay to show success message
     },
-    onError: () => {
+    onError: (error, data) => {
+      const current = staleVersion<Vendor>(error);
+      if (current && vendor) {
+        setConflict({
+          current,
+          merge: mergeEdits(vendorFormValues(baseVersion ?? vendor), data, vendorFormValues(current)),
+        });
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to update vendor",
@@ -232,10 +264,15 @@ export default function VendorDetailModal({ vendor, isOpen, onClose, startInEdit
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/representatives"] });
       queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/brands"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/brands/vendors"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       toast({
         title: "Success",
-        description: "Vendor deleted successfully",
+        description: "Vendor moved to the trash",
       });
       handleClose();
     },
@@ -252,15 +289,45 @@ export default function VendorDetailModal({ vendor, isOpen, onClose, startInEdit
     updateVendorMutation.mutate(data);
   };
 
+  const handleReloadConflict = () => {
+    if (!conflict) return;
+    form.reset(vendorFormValues(conflict.current));
+    setBaseVersion(conflict.current);
+    setConflict(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+  };
+
+  const handleMergeConflict = () => {
+    if (!conflict) return;
+    form.reset(conflict.merge.values);
+    setBaseVersion(conflict.current);
+    setConflict(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+    toast({
+      title: "Changes merged",
+      description: "Review the merged vendor and save again",
+    });
+  };
+
   const handleDelete = () => {
-    if (confirm(`Are you sure you want to delete ${vendor?.companyName}? This action cannot be undone.`)) {
+    if (confirm(`Move ${vendor?.companyName} to the trash? It can be restored from the Trash page.`)) {
       deleteVendorMutation.mutate();
     }
   };
 
+  // A restore can change the vendor's categories and brands, and their counts
+  const handleRestored = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/brands"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/brands/vendors"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+    handleClose();
+  };
+
   const handleClose = () => {
     setIsEditing(false);
     setShowAddRepForm(false);
+    setShowHistory(false);
+    setConflict(null);
     form.reset();
     repForm.reset();
     onClose();
@@ -394,6 +461,14 @@ export default function VendorDetailModal({ vendor, isOpen, onClose, startInEdit
         {isEditing ? (
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              {conflict && (
+                <EditConflictPrompt
+                  recordLabel="vendor"
+                  merge={conflict.merge}
+                  onReload={handleReloadConflict}
+                  onMerge={handleMergeConflict}
+                />
+              )}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <FormField
                   control={form.control}
@@ -504,7 +579,7 @@ export default function VendorDetailModal({ vendor, isOpen, onClose, startInEdit
 
               <FormField
                 control={form.control}
-                name="categories"
+                name="categoryIds"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Categories</FormLabel>
@@ -547,13 +622,13 @@ export default function VendorDetailModal({ vendor, isOpen, onClose, startInEdit
                               
                               <FormControl>
                                 <Checkbox
-                                  checked={field.value?.includes(category.name)}
+                                  checked={field.value?.includes(category.id)}
                                   onCheckedChange={(checked) => {
                                     const currentValue = field.value || [];
                                     return checked
-                                      ? field.onChange([...currentValue, category.name])
+                                      ? field.onChange([...currentValue, category.id])
                                       : field.onChange(
-                                          currentValue.filter((value) => value !== category.name)
+                                          currentValue.filter((value) => value !== category.id)
                                         )
                                   }}
                                 />
@@ -594,13 +669,13 @@ export default function VendorDetailModal({ vendor, isOpen, onClose, startInEdit
                                         
                                         <FormControl>
                                           <Checkbox
-                                            checked={field.value?.includes(subcat.name)}
+                                            checked={field.value?.includes(subcat.id)}
                                             onCheckedChange={(checked) => {
                                               const currentValue = field.value || [];
                                               return checked
-                                                ? field.onChange([...currentValue, subcat.name])
+                                                ? field.onChange([...currentValue, subcat.id])
                                                 : field.onChange(
-                                                    currentValue.filter((value) => value !== subcat.name)
+                                                    currentValue.filter((value) => value !== subcat.id)
                                                   )
                                             }}
                                           />
@@ -619,13 +694,13 @@ export default function VendorDetailModal({ vendor, isOpen, onClose, startInEdit
                                               <div className="w-5" />
                                               <FormControl>
                                                 <Checkbox
-                                                  checked={field.value?.includes(subSubcat.name)}
+                                                  checked={field.value?.includes(subSubcat.id)}
                                                   onCheckedChange={(checked) => {
                                                     const currentValue = field.value || [];
                                                     return checked
-                                                      ? field.onChange([...currentValue, subSubcat.name])
+                                                      ? field.onChange([...currentValue, subSubcat.id])
                                                       : field.onChange(
-                                                          currentValue.filter((value) => value !== subSubcat.name)
+                                                          currentValue.filter((value) => value !== subSubcat.id)
                                                         )
                                                   }}
                                                 />
@@ -657,7 +732,7 @@ export default function VendorDetailModal({ vendor, isOpen, onClose, startInEdit
                 control={form.control}
                 name="brands"
                 render={({ field }) => {
-                  const currentCategories = form.watch("categories") || [];
+                  const currentCategories = categoryPaths(form.watch("categoryIds") || [], (form.watch("categories") as string[] | null) || [], categories);
                   
                   return (
                     <FormItem>
@@ -666,8 +741,10 @@ export default function VendorDetailModal({ vendor, isOpen, onClose, startInEdit
                           selectedBrands={field.value || []}
                           onBrandsChange={field.onChange}
                           onBrandCategoriesChange={(newCategories: string[]) => {
-                            // Update the categories field with the new brand-derived categories
-                            form.setValue("categories", newCategories);
+                            // Brand-derived paths become category ids where a category exists
+                            const { categoryIds, unmatched } = splitCategoryPaths(newCategories, categories);
+                            form.setValue("categoryIds", categoryIds);
+                            form.setValue("categories", unmatched);
                           }}
                           currentCategories={currentCategories}
                         />
@@ -1178,6 +1255,28 @@ export default function VendorDetailModal({ vendor, isOpen, onClose, startInEdit
                 </div>
               </div>
             </div>
+
+            <Separator />
+
+            {/* History */}
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">History</h3>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowHistory(!showHistory)}
+                  className="flex items-center space-x-2"
+                  data-testid="button-toggle-history"
+                >
+                  <History className="h-4 w-4" />
+                  <span>{showHistory ? "Hide History" : "Show History"}</span>
+                </Button>
+              </div>
+              {showHistory && (
+                <RecordHistory entityType="vendor" entityId={vendor.id} endpoint="/api/vendors" onRestored={handleRestored} />
+              )}
+            </div>
           </div>
         )}
       </DialogContent>
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { History, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { fieldLabel } from "@/lib/utils";
+import type { AuditLogEntry } from "@shared/schema";
+
+// What /api/activity returns for each audit log entry
+type HistoryEntry = Omit<AuditLogEntry, "snapshot">;
+
+interface RecordHistoryProps {
+  entityType: "vendor" | "proCustomer";
+  entityId: string;
+  // The record's resource endpoint, e.g. "/api/vendors"
+  endpoint: string;
+  onRestored: () => void;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  restore: "Restored",
+  undelete: "Restored from trash",
+  purge: "Permanently deleted",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "—";
+    return value.map(item => typeof item === "object" ? Object.values(item ?? {}).filter(Boolean).join(" ") : String(item)).join(", ");
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+// Earlier versions of a vendor or pro customer, newest first, with the fields
+// each change touched. Any version but the current one can be restored.
+export default function RecordHistory({ entityType, entityId, endpoint, onRestored }: RecordHistoryProps) {
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: entries = [], isLoading } = useQuery<HistoryEntry[]>({
+    queryKey: ["/api/activity", entityType, entityId],
+    queryFn: async () => {
+      const params = new URLSearchParams({ entityType, entityId, limit: "100" });
+      const response = await apiRequest("GET", `/api/activity?${params}`);
+      return response.json();
+    },
+    staleTime: 0,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      const response = await apiRequest("POST", `${endpoint}?id=${entityId}&restore=${entryId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activity"] });
+      setConfirmingId(null);
+      toast({
+        title: "Success",
+        description: "Earlier version restored",
+      });
+      onRestored();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to restore version"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <History className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+        <p className="text-sm">No changes recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid="record-history">
+      {entries.map((entry, index) => {
+        const changes = Object.entries(entry.changes ?? {});
+        const restoredEntry = entry.restoredFrom ? entries.find(other => other.id === entry.restoredFrom) : undefined;
+        // The newest entry is the current version; a delete has nothing to put back
+        const canRestore = index > 0 && entry.action !== "delete";
+
+        return (
+          <div key={entry.id} className="rounded-lg border p-4 space-y-2" data-testid={`history-entry-${entry.id}`}>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Badge variant={index === 0 ? "default" : "secondary"}>{ACTION_LABELS[entry.action] ?? entry.action}</Badge>
+                {index === 0 && <span className="text-xs text-gray-500">Current version</span>}
+                <span className="text-xs text-gray-500">
+                  {entry.createdAt ? formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true }) : ""}
+                </span>
+              </div>
+              {canRestore && confirmingId !== entry.id && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setConfirmingId(entry.id)}
+                  disabled={restoreMutation.isPending}
+                  data-testid={`button-restore-${entry.id}`}
+                >
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Restore
+                </Button>
+              )}
+              {confirmingId === entry.id && (
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setConfirmingId(null)}
+                    disabled={restoreMutation.isPending}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(entry.id)}
+                    disabled={restoreMutation.isPending}
+                    data-testid={`button-confirm-restore-${entry.id}`}
+                  >
+                    {restoreMutation.isPending ? "Restoring..." : "Restore This Version"}
+                  </Button>
+                </div>
+              )}
+            </div>
+            {entry.action === "restore" && (
+              <p className="text-xs text-gray-500">
+                Restored the version from {restoredEntry?.createdAt ? new Date(restoredEntry.createdAt).toLocaleString() : "an earlier change"}
+              </p>
+            )}
+            {entry.action !== "create" && changes.length > 0 && (
+              <div className="space-y-1 text-sm">
+                {changes.map(([field, change]) => (
+                  <div key={field} className="grid grid-cols-[10rem_1fr] gap-2">
+                    <span className="text-gray-500 capitalize">{fieldLabel(field)}</span>
+                    <span className="break-words">
+                      <span className="text-red-700 line-through">{formatValue(change.from)}</span>
+                      {" → "}
+                      <span className="text-green-700">{formatValue(change.to)}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
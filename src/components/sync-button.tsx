@@ -4,18 +4,27 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import { queryClient } from '@/lib/queryClient';
+import { buildResolvedExport, diffExports, type ResolutionChoice, type SyncDiff, type SyncExport } from '@/lib/sync-diff';
+import { SyncConflictReview } from '@/components/sync-conflict-review';
 import { Cloud, Download, Upload, RefreshCw } from 'lucide-react';
 
 export function SyncButton() {
   const [isOpen, setIsOpen] = useState(false);
   const [serverUrl, setServerUrl] = useState('');
+  const [syncToken, setSyncToken] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [review, setReview] = useState<{ remote: SyncExport; diff: SyncDiff } | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
   const { toast } = useToast();
 
   const handleExport = async () => {
     setIsLoading(true);
     try {
       const response = await fetch('/api/sync/export');
+      if (!response.ok) {
+        throw new Error('Failed to read local data');
+      }
       const data = await response.json();
       
       // Download as JSON file
@@ -36,7 +45,7 @@ export function SyncButton() {
     } catch (error) {
       toast({
         title: "Export Failed", 
-        description: "Could not export data. Please try again.",
+        description: error instanceof Error ? error.message : "Could not export data. Please try again.",
         variant: "destructive"
       });
     } finally {
@@ -56,18 +65,60 @@ export function SyncButton() {
 
     setIsLoading(true);
     try {
-      // First, get remote data
-      const remoteResponse = await fetch(`${serverUrl}/api/sync/export`);
+      // Fetch both sides so the user can review what differs before importing.
+      // The live server is another origin, so it takes its SYNC_TOKEN rather
+      // than this app's session.
+      const [remoteResponse, localResponse] = await Promise.all([
+        fetch(`${serverUrl.trim().replace(/\/+$/, '')}/api/sync/export`, {
+          headers: { Authorization: `Bearer ${syncToken.trim()}` },
+        }),
+        fetch('/api/sync/export'),
+      ]);
+      if (remoteResponse.status === 401) {
+        throw new Error('The live server did not accept the sync token');
+      }
       if (!remoteResponse.ok) {
         throw new Error('Failed to connect to remote server');
       }
-      const remoteData = await remoteResponse.json();
+      if (!localResponse.ok) {
+        throw new Error('Failed to read local data');
+      }
+      const remote: SyncExport = await remoteResponse.json();
+      const local: SyncExport = await localResponse.json();
 
-      // Import remote data locally
-      const importResponse = await fetch('/api/sync/import', {
+      const diff = diffExports(local, remote);
+      if (diff.additionCount === 0 && diff.records.length === 0) {
+        toast({
+          title: "Already in Sync",
+          description: "This app already has everything from the live server.",
+        });
+        return;
+      }
+
+      setIsOpen(false);
+      setReview({ remote, diff });
+    } catch (error) {
+      toast({
+        title: "Sync Failed",
+        description: error instanceof Error ? error.message : "Could not sync with remote server.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleApplyResolutions = async (resolutions: Record<string, ResolutionChoice>) => {
+    if (!review) return;
+
+    setIsApplying(true);
+    try {
+      // The set has been reviewed, so every row in it should win locally
+      const payload = buildResolvedExport(review.remote, review.diff, resolutions);
+      const importResponse = await fetch('/api/sync/import?strategy=incoming', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(remoteData)
+        body: JSON.stringify(payload)
       });
 
       if (!importResponse.ok) {
@@ -81,77 +132,101 @@ export function SyncButton() {
         description: `Imported ${results.results.imported} new records, updated ${results.results.updated} existing records.`,
       });
       
-      setIsOpen(false);
-      window.location.reload(); // Refresh to show synced data
-      
+      setReview(null);
+      queryClient.invalidateQueries();
     } catch (error) {
       toast({
         title: "Sync Failed",
-        description: error.message || "Could not sync with remote server.",
+        description: error instanceof Error ? error.message : "Could not import the resolved changes.",
         variant: "destructive"
       });
     } finally {
-      setIsLoading(false);
+      setIsApplying(false);
     }
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={setIsOpen}>
-      <DialogTrigger asChild>
-        <Button variant="outline" size="sm">
-          <Cloud className="w-4 h-4 mr-2" />
-          Sync
-        </Button>
-      </DialogTrigger>
+    <>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Cloud className="w-4 h-4 mr-2" />
+            Sync
+          </Button>
+        </DialogTrigger>
       
-      <DialogContent className="sm:max-w-md">
-        <DialogHeader>
-          <DialogTitle>Data Sync & Backup</DialogTitle>
-        </DialogHeader>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Data Sync & Backup</DialogTitle>
+          </DialogHeader>
         
-        <div className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="server-url">Live Server URL</Label>
-            <Input
-              id="server-url"
-              value={serverUrl}
-              onChange={(e) => setServerUrl(e.target.value)}
-              placeholder="https://your-app.replit.app"
-              className="w-full"
-            />
-            <p className="text-sm text-muted-foreground">
-              Enter your deployed app URL to sync data
-            </p>
-          </div>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="server-url">Live Server URL</Label>
+              <Input
+                id="server-url"
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+                placeholder="https://your-app.replit.app"
+                className="w-full"
+              />
+              <p className="text-sm text-muted-foreground">
+                Enter your deployed app URL to sync data
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="sync-token">Sync Token</Label>
+              <Input
+                id="sync-token"
+                type="password"
+                value={syncToken}
+                onChange={(e) => setSyncToken(e.target.value)}
+                placeholder="The live server's SYNC_TOKEN"
+                className="w-full"
+              />
+            </div>
           
-          <div className="flex flex-col gap-2">
-            <Button 
-              onClick={handleSync} 
-              disabled={isLoading || !serverUrl.trim()}
-              className="w-full"
-            >
-              <RefreshCw className="w-4 h-4 mr-2" />
-              {isLoading ? 'Syncing...' : 'Sync with Live Server'}
-            </Button>
+            <div className="flex flex-col gap-2">
+              <Button 
+                onClick={handleSync} 
+                disabled={isLoading || !serverUrl.trim() || !syncToken.trim()}
+                className="w-full"
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                {isLoading ? 'Syncing...' : 'Sync with Live Server'}
+              </Button>
             
-            <Button 
-              onClick={handleExport} 
-              variant="outline"
-              disabled={isLoading}
-              className="w-full"
-            >
-              <Download className="w-4 h-4 mr-2" />
-              {isLoading ? 'Exporting...' : 'Export Backup File'}
-            </Button>
-          </div>
+              <Button 
+                onClick={handleExport} 
+                variant="outline"
+                disabled={isLoading}
+                className="w-full"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                {isLoading ? 'Exporting...' : 'Export Backup File'}
+              </Button>
+            </div>
           
-          <div className="text-xs text-muted-foreground space-y-1">
-            <p>• Sync downloads data from your live server</p>
-            <p>• Export creates a local backup file</p>
-            <p>• All your existing data will be preserved</p>
+            <div className="text-xs text-muted-foreground space-y-1">
+              <p>• Sync downloads data from your live server</p>
+              <p>• Records that differ are shown for review before import</p>
+              <p>• Export creates a local backup file</p>
+              <p>• All your existing data will be preserved</p>
+            </div>
           </div>
-        </div>
-      </DialogContent>
-    </Dialog>
+        </DialogContent>
+      </Dialog>
+
+      {review && (
+        <SyncConflictReview
+          open={!!review}
+          onOpenChange={(open) => !open && setReview(null)}
+          diff={review.diff}
+          isApplying={isApplying}
+          onConfirm={handleApplyResolutions}
+        />
+      )}
+    </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import {
+  SYNC_TABLE_LABELS,
+  defaultResolutions,
+  formatSyncValue,
+  type FieldSide,
+  type RecordDiff,
+  type RecordResolution,
+  type ResolutionChoice,
+  type SyncDiff,
+} from '@/lib/sync-diff';
+
+interface SyncConflictReviewProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  diff: SyncDiff;
+  isApplying: boolean;
+  onConfirm: (resolutions: Record<string, ResolutionChoice>) => void;
+}
+
+const RESOLUTION_LABELS: Record<RecordResolution, string> = {
+  local: 'Keep local',
+  remote: 'Take remote',
+  merge: 'Merge',
+};
+
+export function SyncConflictReview({ open, onOpenChange, diff, isApplying, onConfirm }: SyncConflictReviewProps) {
+  const [resolutions, setResolutions] = useState<Record<string, ResolutionChoice>>({});
+
+  useEffect(() => {
+    setResolutions(defaultResolutions(diff.records));
+  }, [diff]);
+
+  const setChoice = (record: RecordDiff, choice: RecordResolution) => {
+    setResolutions((current) => {
+      const previous = current[record.key];
+      // Switching to a whole-record choice also lines up the per-field picks,
+      // so flipping to Merge afterwards starts from that side.
+      const fields = choice === 'merge'
+        ? previous.fields
+        : Object.fromEntries(record.fields.map((field) => [field.field, choice]));
+      return { ...current, [record.key]: { choice, fields } };
+    });
+  };
+
+  const setFieldSide = (record: RecordDiff, field: string, side: FieldSide) => {
+    setResolutions((current) => ({
+      ...current,
+      [record.key]: {
+        choice: 'merge',
+        fields: { ...current[record.key].fields, [field]: side },
+      },
+    }));
+  };
+
+  const takingRemote = diff.records.filter((record) => resolutions[record.key]?.choice !== 'local').length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl" data-testid="modal-sync-review">
+        <DialogHeader>
+          <DialogTitle>Review Sync Changes</DialogTitle>
+          <DialogDescription>
+            {diff.additionCount} new record{diff.additionCount === 1 ? '' : 's'} will be added.
+            {' '}{diff.records.length} record{diff.records.length === 1 ? '' : 's'} differ between this app and the live server.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-4">
+          <div className="space-y-4">
+            {diff.records.map((record) => {
+              const resolution = resolutions[record.key];
+              if (!resolution) return null;
+
+              return (
+                <div key={record.key} className="border rounded-lg" data-testid={`sync-record-${record.id}`}>
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 border-b bg-gray-50">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{SYNC_TABLE_LABELS[record.table] ?? record.table}</Badge>
+                      <span className="font-medium text-gray-900">{record.label}</span>
+                      {record.newer && (
+                        <span className="text-xs text-muted-foreground">
+                          {record.newer === 'remote' ? 'Remote' : 'Local'} is newer
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      {(Object.keys(RESOLUTION_LABELS) as RecordResolution[]).map((choice) => (
+                        <Button
+                          key={choice}
+                          size="sm"
+                          variant={resolution.choice === choice ? 'default' : 'outline'}
+                          onClick={() => setChoice(record, choice)}
+                          data-testid={`button-resolve-${choice}-${record.id}`}
+                        >
+                          {RESOLUTION_LABELS[choice]}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-[minmax(0,1fr)_minmax(0,2fr)_minmax(0,2fr)] text-sm">
+                    <div className="px-3 py-2 font-medium text-muted-foreground">Field</div>
+                    <div className="px-3 py-2 font-medium text-muted-foreground">Local</div>
+                    <div className="px-3 py-2 font-medium text-muted-foreground">Remote</div>
+                    {record.fields.map((field) => {
+                      const side = resolution.fields[field.field];
+                      const cellClass = (cellSide: FieldSide) => cn(
+                        'px-3 py-2 border-t text-left break-words',
+                        resolution.choice === 'merge' && 'hover:bg-blue-50 cursor-pointer',
+                        side === cellSide && 'bg-green-50 font-medium text-gray-900',
+                        side !== cellSide && 'text-gray-500',
+                      );
+                      return (
+                        <div key={field.field} className="contents">
+                          <div className="px-3 py-2 border-t text-gray-700">{field.field}</div>
+                          <button
+                            type="button"
+                            className={cellClass('local')}
+                            onClick={() => setFieldSide(record, field.field, 'local')}
+                          >
+                            {formatSyncValue(field.local)}
+                          </button>
+                          <button
+                            type="button"
+                            className={cellClass('remote')}
+                            onClick={() => setFieldSide(record, field.field, 'remote')}
+                          >
+                            {formatSyncValue(field.remote)}
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        <div className="flex items-center justify-between pt-2">
+          <p className="text-sm text-muted-foreground">
+            Importing {diff.additionCount} new and {takingRemote} changed record{takingRemote === 1 ? '' : 's'}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isApplying}>
+              Cancel
+            </Button>
+            <Button onClick={() => onConfirm(resolutions)} disabled={isApplying} data-testid="button-apply-sync">
+              {isApplying ? 'Importing...' : 'Import Resolved Changes'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,57 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import type { InsertUser, LoginCredentials, User } from "@shared/schema";
+
+// The signed-in user, or null when there is no session
+export function useAuth() {
+  return useQuery<User | null>({
+    queryKey: ["/api/auth"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+}
+
+// Whether the first account still has to be created
+export function useAuthSetup() {
+  return useQuery<{ required: boolean }>({
+    queryKey: ["/api/auth/setup"],
+    staleTime: 0,
+  });
+}
+
+// Anything cached belongs to the previous session
+function signedIn(user: User) {
+  queryClient.clear();
+  queryClient.setQueryData(["/api/auth"], user);
+}
+
+export function useLogin() {
+  return useMutation({
+    mutationFn: async (credentials: LoginCredentials) => {
+      const response = await apiRequest("POST", "/api/auth", credentials);
+      return response.json() as Promise<User>;
+    },
+    onSuccess: signedIn,
+  });
+}
+
+export function useSetupAccount() {
+  return useMutation({
+    mutationFn: async (data: InsertUser) => {
+      const response = await apiRequest("POST", "/api/auth/setup", data);
+      return response.json() as Promise<User>;
+    },
+    onSuccess: signedIn,
+  });
+}
+
+export function useLogout() {
+  return useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/auth");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth"], null);
+    },
+  });
+}
@@ -2,16 +2,19 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { BusinessType, InsertBusinessType } from "@shared/schema";
 
+export type BusinessTypeWithUsage = BusinessType & { usageCount: number };
+
 export function useBusinessTypes() {
-  return useQuery<BusinessType[]>({
+  return useQuery<BusinessTypeWithUsage[]>({
     queryKey: ["/api/business-types"],
   });
 }
 
 export function useCreateBusinessType() {
   return useMutation({
-    mutationFn: async (businessType: InsertBusinessType) => {
-      return apiRequest("POST", "/api/business-types", businessType);
+    mutationFn: async (businessType: InsertBusinessType): Promise<BusinessType> => {
+      const response = await apiRequest("POST", "/api/business-types", businessType);
+      return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/business-types"] });
@@ -28,4 +31,4 @@ export function useDeleteBusinessType() {
       queryClient.invalidateQueries({ queryKey: ["/api/business-types"] });
     },
   });
-}
\ No newline at end of file
+}
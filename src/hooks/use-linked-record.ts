@@ -0,0 +1,23 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+
+// Opens the record named by ?id= once it has loaded, then drops the param so
+// closing the modal doesn't reopen it. Used by the command palette's links.
+export function useLinkedRecord<T>(endpoint: string, onOpen: (record: T) => void) {
+  const search = useSearch();
+  const [location, setLocation] = useLocation();
+  const id = new URLSearchParams(search).get("id");
+
+  const { data, isError } = useQuery<T>({
+    queryKey: [endpoint, id],
+    enabled: !!id,
+  });
+
+  // onOpen is usually an inline closure; only a new id or record should fire it
+  useEffect(() => {
+    if (!id || (!data && !isError)) return;
+    if (data) onOpen(data);
+    setLocation(location, { replace: true });
+  }, [id, data, isError]);
+}
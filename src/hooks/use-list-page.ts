@@ -0,0 +1,57 @@
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+// Paginated list responses from the api/ resource handlers
+export interface Page<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+}
+
+export type SortOrder = "asc" | "desc";
+
+export interface ListParams {
+  page?: number;
+  pageSize?: number;
+  sort?: string;
+  order?: SortOrder;
+  search?: string;
+  // Filters; arrays are sent as repeated params and match any value
+  [filter: string]: string | string[] | number | undefined;
+}
+
+export const DEFAULT_PAGE_SIZE = 25;
+
+export function buildListUrl(path: string, params: ListParams): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === "") continue;
+    const values = Array.isArray(value) ? value : [String(value)];
+    values.filter(Boolean).forEach((item) => search.append(key, item));
+  }
+  const query = search.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+// The query key starts with the endpoint path, so invalidating ["/api/vendors"]
+// after a mutation refreshes every page too.
+export function useListPage<T>(path: string, params: ListParams) {
+  const pageParams = { page: 1, pageSize: DEFAULT_PAGE_SIZE, ...params };
+  return useQuery<Page<T>>({
+    queryKey: [path, pageParams],
+    queryFn: async () => {
+      const response = await apiRequest("GET", buildListUrl(path, pageParams));
+      return response.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+}
+
+// Every row matching the filters, for exports that cover more than one page
+export async function fetchAll<T>(path: string, params: ListParams): Promise<T[]> {
+  const { page, pageSize, ...filters } = params;
+  const response = await apiRequest("GET", buildListUrl(path, filters));
+  return response.json();
+}
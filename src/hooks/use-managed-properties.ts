@@ -6,6 +6,27 @@ import { insertManagedPropertySchema, type ManagedProperty, type InsertManagedPr
 export function useManagedProperties(proCustomerId: string | undefined) {
   return useQuery<ManagedProperty[]>({
     queryKey: ["/api/managed-properties", proCustomerId],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/managed-properties?proCustomerId=${proCustomerId}`);
+      return response.json();
+    },
+    enabled: !!proCustomerId,
+  });
+}
+
+export interface ManagedPropertyTotals {
+  proCustomerId: string;
+  propertyCount: number;
+  totalUnits: number;
+}
+
+export function useManagedPropertyTotals(proCustomerId: string | undefined) {
+  return useQuery<ManagedPropertyTotals>({
+    queryKey: ["/api/managed-properties", proCustomerId, "totals"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/managed-properties?totals=true&proCustomerId=${proCustomerId}`);
+      return response.json();
+    },
     enabled: !!proCustomerId,
   });
 }
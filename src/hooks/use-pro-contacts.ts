@@ -6,6 +6,10 @@ import { insertProContactSchema, type ProContact, type InsertProContact } from "
 export function useProContacts(proCustomerId: string | undefined) {
   return useQuery<ProContact[]>({
     queryKey: ["/api/pro-contacts", proCustomerId],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/pro-contacts?proCustomerId=${proCustomerId}`);
+      return response.json();
+    },
     enabled: !!proCustomerId,
   });
 }
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { mergeEdits } from "@/lib/edit-conflicts";
+
+const base = { companyName: "Beacon", email: "sales@beacon.com", phone: "555-0100", notes: "" };
+
+describe("mergeEdits", () => {
+  it("takes fields only they changed and keeps fields only I changed", () => {
+    const mine = { ...base, notes: "Call before noon" };
+    const theirs = { ...base, phone: "555-0199" };
+    expect(mergeEdits(base, mine, theirs)).toEqual({
+      values: { ...base, notes: "Call before noon", phone: "555-0199" },
+      theirs: ["phone"],
+      conflicts: [],
+    });
+  });
+
+  it("keeps mine and reports a conflict when both changed a field differently", () => {
+    const mine = { ...base, email: "orders@beacon.com" };
+    const theirs = { ...base, email: "info@beacon.com" };
+    expect(mergeEdits(base, mine, theirs)).toEqual({
+      values: mine,
+      theirs: ["email"],
+      conflicts: ["email"],
+    });
+  });
+
+  it("does not count the same change on both sides as a conflict", () => {
+    const both = { ...base, companyName: "Beacon Supply" };
+    expect(mergeEdits(base, both, { ...both }).conflicts).toEqual([]);
+  });
+
+  it("compares lists by value and treats a missing field as null", () => {
+    type Form = { phones: { label: string; number: string }[]; fax?: string | null };
+    const mine: Form = { phones: [{ label: "Office", number: "555-0100" }], fax: null };
+    const theirs: Form = { phones: [{ label: "Office", number: "555-0100" }] };
+    expect(mergeEdits(mine, mine, theirs).theirs).toEqual([]);
+  });
+});
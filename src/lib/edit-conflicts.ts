@@ -0,0 +1,43 @@
+import { apiErrorBody } from "@/lib/queryClient";
+
+// Vendor and pro customer saves carry the updatedAt they were made against.
+// When someone else saved first, the API answers 409 with its current copy,
+// which the form can reload or merge with.
+
+// The server's current record from a stale-version 409, or null for any other error
+export function staleVersion<T>(error: unknown): T | null {
+  const failure = apiErrorBody(error);
+  return failure?.status === 409 && failure.body.current ? failure.body.current as T : null;
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export interface MergedEdits<T> {
+  values: T;
+  // Fields the other save changed
+  theirs: string[];
+  // Fields both sides changed to different values; the merge keeps mine
+  conflicts: string[];
+}
+
+// Three-way merge of form values against the version the edit started from:
+// fields only they changed take their value, fields I changed keep mine.
+export function mergeEdits<T extends object>(base: T, mine: T, theirs: T): MergedEdits<T> {
+  const baseValues = base as Record<string, unknown>;
+  const theirValues = theirs as Record<string, unknown>;
+  const values = { ...mine } as Record<string, unknown>;
+  const changed: string[] = [];
+  const conflicts: string[] = [];
+
+  for (const field of Object.keys(values)) {
+    if (same(theirValues[field], baseValues[field])) continue;
+    changed.push(field);
+    if (same(values[field], baseValues[field])) {
+      values[field] = theirValues[field];
+    } else if (!same(values[field], theirValues[field])) {
+      conflicts.push(field);
+    }
+  }
+
+  return { values: values as T, theirs: changed, conflicts };
+}
@@ -27,6 +27,8 @@ export function exportVendorsToPDF(
 
   // Apply sorting to match webpage
   const sortedVendors = [...vendors].sort((a, b) => {
+    // Search results arrive best match first; keep that order
+    if (sortField === 'relevance') return 0;
     let aValue = '', bValue = '';
     
     switch (sortField) {
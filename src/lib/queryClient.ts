@@ -1,6 +1,10 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
+  // The session ended; with no signed-in user the app shows the login page
+  if (res.status === 401) {
+    queryClient.setQueryData(["/api/auth"], null);
+  }
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
     throw new Error(`${res.status}: ${text}`);
@@ -23,6 +27,24 @@ export async function apiRequest(
   return res;
 }
 
+// The status and parsed JSON body of a failed apiRequest, when it had one
+export function apiErrorBody(error: unknown): { status: number; body: Record<string, any> } | null {
+  if (!(error instanceof Error)) return null;
+  const match = error.message.match(/^(\d+): ([\s\S]*)$/);
+  if (!match) return null;
+  try {
+    const body = JSON.parse(match[2]);
+    return body && typeof body === "object" ? { status: Number(match[1]), body } : null;
+  } catch {
+    return null;
+  }
+}
+
+// The API's `{ error }` message from a failed apiRequest, for toasts
+export function apiErrorMessage(error: unknown, fallback: string): string {
+  return apiErrorBody(error)?.body.error || fallback;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildResolvedExport,
+  defaultResolutions,
+  diffExports,
+  type SyncExport,
+  type SyncRow,
+} from "@/lib/sync-diff";
+
+function payload(tables: Record<string, SyncRow[]>): SyncExport {
+  return { version: 1, exportedAt: "2026-01-01T00:00:00.000Z", tables };
+}
+
+const brands = [
+  { id: "gaf", name: "GAF" },
+  { id: "oc", name: "Owens Corning" },
+];
+
+const vendor = (updatedAt: string, extra: Record<string, unknown> = {}): SyncRow =>
+  ({ id: "v1", companyName: "Beacon", email: "sales@beacon.com", updatedAt, ...extra });
+
+// Each server gives link rows its own ids
+const link = (id: string, brandId: string): SyncRow => ({ id, vendorId: "v1", brandId });
+
+describe("diffExports", () => {
+  it("lists rows only the remote has as additions", () => {
+    const diff = diffExports(payload({ brands: [brands[0]] }), payload({ brands }));
+    expect(diff.additions).toEqual({ brands: [brands[1]] });
+    expect(diff.additionCount).toBe(1);
+    expect(diff.records).toEqual([]);
+  });
+
+  it("compares shared rows field by field, ignoring timestamps", () => {
+    const local = payload({ vendors: [vendor("2026-01-01T00:00:00.000Z")] });
+    const remote = payload({ vendors: [vendor("2026-02-01T00:00:00.000Z", { email: "orders@beacon.com" })] });
+    const [record] = diffExports(local, remote).records;
+    expect(record.key).toBe("vendors:v1");
+    expect(record.label).toBe("Beacon");
+    expect(record.newer).toBe("remote");
+    expect(record.fields).toEqual([{ field: "email", local: "sales@beacon.com", remote: "orders@beacon.com" }]);
+  });
+
+  it("matches keyed rows on their key rather than their id", () => {
+    const local = payload({ brandTemplateVersions: [{ id: "a", templateId: "t1", version: "1.0", notes: "Initial" }] });
+    const remote = payload({
+      brandTemplateVersions: [
+        { id: "b", templateId: "t1", version: "1.0", notes: "First release" },
+        { id: "c", templateId: "t1", version: "1.1" },
+      ],
+    });
+    const diff = diffExports(local, remote);
+    expect(diff.records).toEqual([]);
+    expect(diff.additions.brandTemplateVersions?.map((row) => row.version)).toEqual(["1.1"]);
+  });
+
+  it("compares a vendor's links by what they point at", () => {
+    const time = "2026-01-01T00:00:00.000Z";
+    const local = payload({ brands, vendors: [vendor(time)], vendorBrands: [link("l1", "gaf")] });
+    const sameLinks = payload({ brands, vendors: [vendor(time)], vendorBrands: [link("r1", "gaf")] });
+    expect(diffExports(local, sameLinks).records).toEqual([]);
+
+    const moreLinks = payload({ brands, vendors: [vendor(time)], vendorBrands: [link("r1", "gaf"), link("r2", "oc")] });
+    const [record] = diffExports(local, moreLinks).records;
+    expect(record.fields).toEqual([{ field: "linkedBrands", local: ["GAF"], remote: ["GAF", "Owens Corning"] }]);
+    expect(diffExports(local, moreLinks).additions).toEqual({});
+  });
+
+  it("brings a new vendor's links along without counting them", () => {
+    const remote = payload({ brands, vendors: [vendor("2026-01-01T00:00:00.000Z")], vendorBrands: [link("r1", "oc")] });
+    const diff = diffExports(payload({ brands }), remote);
+    expect(diff.additions.vendors).toEqual(remote.tables.vendors);
+    expect(diff.additions.vendorBrands).toEqual([link("r1", "oc")]);
+    expect(diff.additionCount).toBe(1);
+  });
+});
+
+describe("buildResolvedExport", () => {
+  const local = payload({
+    brands,
+    vendors: [vendor("2026-01-01T00:00:00.000Z")],
+    vendorBrands: [link("l1", "gaf")],
+  });
+  const remote = payload({
+    brands,
+    vendors: [vendor("2026-02-01T00:00:00.000Z", { email: "orders@beacon.com", companyName: "Beacon Supply" })],
+    vendorBrands: [link("r1", "oc")],
+  });
+  const diff = diffExports(local, remote);
+  const [record] = diff.records;
+
+  it("starts each record on the side edited last", () => {
+    expect(defaultResolutions(diff.records)[record.key]).toEqual({
+      choice: "remote",
+      fields: { companyName: "remote", email: "remote", linkedBrands: "remote" },
+    });
+  });
+
+  it("leaves out records kept local", () => {
+    const resolved = buildResolvedExport(remote, diff, { [record.key]: { choice: "local", fields: {} } });
+    expect(resolved.tables).toEqual({});
+  });
+
+  it("sends the remote record and its whole link set", () => {
+    const resolved = buildResolvedExport(remote, diff, defaultResolutions(diff.records));
+    expect(resolved.tables.vendors).toEqual(remote.tables.vendors);
+    expect(resolved.tables.vendorBrands).toEqual([link("r1", "oc")]);
+  });
+
+  it("merges field by field and takes links from the chosen side", () => {
+    const resolved = buildResolvedExport(remote, diff, {
+      [record.key]: { choice: "merge", fields: { companyName: "remote", email: "local", linkedBrands: "local" } },
+    });
+    const [row] = resolved.tables.vendors;
+    expect(row).toMatchObject({ id: "v1", companyName: "Beacon Supply", email: "sales@beacon.com" });
+    expect(row.linkedBrands).toBeUndefined();
+    expect(resolved.tables.vendorBrands).toEqual([link("l1", "gaf")]);
+  });
+});
@@ -0,0 +1,289 @@
+// Client-side comparison of two /api/sync/export payloads, used to let the
+// user review records that differ before anything is imported.
+
+export type SyncRow = Record<string, unknown> & { id: string };
+
+export interface SyncExport {
+  version: number;
+  exportedAt: string;
+  tables: Record<string, SyncRow[]>;
+}
+
+export type RecordResolution = "local" | "remote" | "merge";
+export type FieldSide = "local" | "remote";
+
+export interface FieldDiff {
+  field: string;
+  local: unknown;
+  remote: unknown;
+}
+
+export interface RecordDiff {
+  key: string;
+  table: string;
+  id: string;
+  label: string;
+  local: SyncRow;
+  remote: SyncRow;
+  fields: FieldDiff[];
+  newer: FieldSide | null;
+  // A vendor's link rows on each side, by link table
+  links?: Record<string, Record<FieldSide, SyncRow[]>>;
+}
+
+export interface SyncDiff {
+  additions: Record<string, SyncRow[]>;
+  additionCount: number;
+  records: RecordDiff[];
+}
+
+export interface ResolutionChoice {
+  choice: RecordResolution;
+  fields: Record<string, FieldSide>;
+}
+
+const TIMESTAMP_FIELDS = new Set(["createdAt", "updatedAt"]);
+
+// Rows identified by what they link rather than by id, since each server
+// gives them its own ids. Same keys as SYNC_ROW_KEYS in api/_lib/sync.ts.
+const ROW_KEYS: Record<string, string[]> = {
+  brandTemplateVersions: ["templateId", "version"],
+  vendorBrands: ["vendorId", "brandId"],
+  vendorCategories: ["vendorId", "categoryId"],
+};
+
+interface VendorLink {
+  table: string;
+  // How the links show up on the vendor's record
+  field: string;
+  targetId: string;
+  targetTable: string;
+  targetLabel: (row: SyncRow) => unknown;
+}
+
+// A vendor's links are reviewed as one field of the vendor. Whichever side
+// that field is taken from sends its whole link set, which the import puts in
+// place of the other.
+const VENDOR_LINKS: VendorLink[] = [
+  {
+    table: "vendorBrands",
+    field: "linkedBrands",
+    targetId: "brandId",
+    targetTable: "brands",
+    targetLabel: (row) => row.name,
+  },
+  {
+    table: "vendorCategories",
+    field: "linkedCategories",
+    targetId: "categoryId",
+    targetTable: "categories",
+    targetLabel: (row) => row.path ?? row.name,
+  },
+];
+
+export const SYNC_TABLE_LABELS: Record<string, string> = {
+  brandTemplates: "Brand Templates",
+  brandTemplateVersions: "Template Versions",
+  brands: "Brands",
+  brandCategories: "Brand Categories",
+  vendors: "Vendors",
+  vendorBrands: "Vendor Brands",
+  representatives: "Representatives",
+  categories: "Categories",
+  vendorCategories: "Vendor Categories",
+  services: "Services",
+  businessTypes: "Business Types",
+  trades: "Trades",
+  proCustomers: "Pro Customers",
+  proContacts: "Pro Contacts",
+  managedProperties: "Managed Properties",
+  auditLog: "Activity History",
+};
+
+function recordLabel(row: SyncRow): string {
+  const label = row.companyName ?? row.businessName ?? row.displayName ?? row.name ?? row.path;
+  return typeof label === "string" && label ? label : row.id;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function newerSide(local: SyncRow, remote: SyncRow): FieldSide | null {
+  const localTime = local.updatedAt ? new Date(local.updatedAt as string).getTime() : 0;
+  const remoteTime = remote.updatedAt ? new Date(remote.updatedAt as string).getTime() : 0;
+  if (localTime === remoteTime) return null;
+  return remoteTime > localTime ? "remote" : "local";
+}
+
+export function formatSyncValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "—";
+    return value
+      .map((item) => (typeof item === "object" && item !== null ? Object.values(item).filter(Boolean).join(" ") : String(item)))
+      .join(", ");
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function rowKey(table: string, row: SyncRow): string {
+  const keys = ROW_KEYS[table];
+  return keys ? JSON.stringify(keys.map((key) => row[key] ?? null)) : row.id;
+}
+
+// Each vendor's link rows in one export, for one link table
+function linksByVendor(data: SyncExport, link: VendorLink): Map<string, SyncRow[]> {
+  const byVendor = new Map<string, SyncRow[]>();
+  for (const row of data.tables[link.table] ?? []) {
+    const vendorId = row.vendorId as string;
+    byVendor.set(vendorId, [...(byVendor.get(vendorId) ?? []), row]);
+  }
+  return byVendor;
+}
+
+// What a vendor's links point at, by name, as the export itself names them
+function linkLabels(data: SyncExport, link: VendorLink, rows: SyncRow[]): string[] {
+  const targets = new Map((data.tables[link.targetTable] ?? []).map((row) => [row.id, row]));
+  return rows
+    .map((row) => {
+      const target = targets.get(row[link.targetId] as string);
+      const label = target ? link.targetLabel(target) : null;
+      return typeof label === "string" && label ? label : String(row[link.targetId]);
+    })
+    .sort((a, b) => a.localeCompare(b));
+}
+
+// Rows only the remote has are plain additions. Rows both sides have are
+// compared field by field, ignoring timestamps. Keyed rows are matched by key
+// and never differ; vendor links are compared as fields of their vendor.
+export function diffExports(local: SyncExport, remote: SyncExport): SyncDiff {
+  const additions: Record<string, SyncRow[]> = {};
+  const records: RecordDiff[] = [];
+  let additionCount = 0;
+
+  const linkTables = new Set(VENDOR_LINKS.map((link) => link.table));
+  const links = VENDOR_LINKS.map((link) => ({
+    link,
+    local: linksByVendor(local, link),
+    remote: linksByVendor(remote, link),
+  }));
+
+  for (const [table, remoteRows] of Object.entries(remote.tables)) {
+    if (linkTables.has(table)) continue;
+    const localByKey = new Map((local.tables[table] ?? []).map((row) => [rowKey(table, row), row]));
+
+    for (const remoteRow of remoteRows) {
+      const localRow = localByKey.get(rowKey(table, remoteRow));
+      if (!localRow) {
+        (additions[table] ??= []).push(remoteRow);
+        additionCount++;
+        // A new vendor brings its links along
+        if (table === "vendors") {
+          for (const { link, remote: remoteLinks } of links) {
+            (additions[link.table] ??= []).push(...(remoteLinks.get(remoteRow.id) ?? []));
+          }
+        }
+        continue;
+      }
+      if (ROW_KEYS[table]) continue;
+
+      const fieldNames = Array.from(new Set([...Object.keys(localRow), ...Object.keys(remoteRow)]));
+      const fields: FieldDiff[] = fieldNames
+        .filter((field) => field !== "id" && !TIMESTAMP_FIELDS.has(field))
+        .filter((field) => !sameValue(localRow[field], remoteRow[field]))
+        .map((field) => ({ field, local: localRow[field], remote: remoteRow[field] }));
+
+      let recordLinks: RecordDiff["links"];
+      if (table === "vendors") {
+        recordLinks = {};
+        for (const { link, local: localLinks, remote: remoteLinks } of links) {
+          const sides = { local: localLinks.get(localRow.id) ?? [], remote: remoteLinks.get(remoteRow.id) ?? [] };
+          recordLinks[link.table] = sides;
+          const localLabels = linkLabels(local, link, sides.local);
+          const remoteLabels = linkLabels(remote, link, sides.remote);
+          if (!sameValue(localLabels, remoteLabels)) {
+            fields.push({ field: link.field, local: localLabels, remote: remoteLabels });
+          }
+        }
+      }
+
+      if (fields.length > 0) {
+        records.push({
+          key: `${table}:${remoteRow.id}`,
+          table,
+          id: remoteRow.id,
+          label: recordLabel(remoteRow),
+          local: localRow,
+          remote: remoteRow,
+          fields,
+          newer: newerSide(localRow, remoteRow),
+          links: recordLinks,
+        });
+      }
+    }
+  }
+
+  return { additions, additionCount, records };
+}
+
+// Starts every record on whichever side was edited most recently.
+export function defaultResolutions(records: RecordDiff[]): Record<string, ResolutionChoice> {
+  return Object.fromEntries(
+    records.map((record) => {
+      const side: FieldSide = record.newer === "remote" ? "remote" : "local";
+      return [
+        record.key,
+        {
+          choice: side,
+          fields: Object.fromEntries(record.fields.map((field) => [field.field, side])),
+        },
+      ];
+    }),
+  );
+}
+
+// The payload to import: remote-only rows plus every record the user chose to
+// take from the remote or merge. Records kept local are left out entirely.
+export function buildResolvedExport(
+  remote: SyncExport,
+  diff: SyncDiff,
+  resolutions: Record<string, ResolutionChoice>,
+): SyncExport {
+  const tables: Record<string, SyncRow[]> = {};
+  for (const [table, rows] of Object.entries(diff.additions)) {
+    tables[table] = [...rows];
+  }
+
+  const now = new Date().toISOString();
+  const linkFields = new Set(VENDOR_LINKS.map((link) => link.field));
+  for (const record of diff.records) {
+    const resolution = resolutions[record.key];
+    if (!resolution || resolution.choice === "local") continue;
+
+    let row: SyncRow;
+    if (resolution.choice === "remote") {
+      row = record.remote;
+    } else {
+      row = { ...record.local, updatedAt: now };
+      for (const field of record.fields) {
+        if (resolution.fields[field.field] === "remote" && !linkFields.has(field.field)) {
+          row[field.field] = field.remote;
+        }
+      }
+    }
+    (tables[record.table] ??= []).push(row);
+
+    // The import replaces the vendor's links with the ones sent, so send the
+    // whole set from the chosen side
+    for (const link of VENDOR_LINKS) {
+      const sides = record.links?.[link.table];
+      if (!sides) continue;
+      const side = resolution.choice === "merge" ? resolution.fields[link.field] ?? "remote" : resolution.choice;
+      (tables[link.table] ??= []).push(...sides[side]);
+    }
+  }
+
+  return { version: remote.version, exportedAt: now, tables };
+}
@@ -95,3 +95,8 @@ export function mergeCategoriesUniquely(existingCategories: string[], newCategor
 export function removeBrandCategories(allCategories: string[], brandName: string): string[] {
   return allCategories.filter(category => !category.startsWith(`${brandName} >`));
 }
+
+// A camelCase field name for display: "primaryContactName" -> "primary contact name"
+export function fieldLabel(field: string): string {
+  return field.replace(/([A-Z])/g, " $1").toLowerCase();
+}
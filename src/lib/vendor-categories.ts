@@ -0,0 +1,30 @@
+import type { Category } from "@shared/schema";
+
+// Vendor forms pick categories by id, but brand selection works in category
+// path strings ("GAF > Roofing"). These convert between the two.
+
+const pathOf = (category: Category) => category.path ?? category.name;
+
+// Paths of the selected categories, followed by unmatched legacy strings
+export function categoryPaths(categoryIds: string[], unmatched: string[], categories: Category[]): string[] {
+  const paths = categoryIds
+    .map((id) => categories.find((category) => category.id === id))
+    .filter((category): category is Category => !!category)
+    .map(pathOf);
+  return [...paths, ...unmatched];
+}
+
+// Splits paths back into category ids and strings no category matches
+export function splitCategoryPaths(paths: string[], categories: Category[]): { categoryIds: string[]; unmatched: string[] } {
+  const categoryIds: string[] = [];
+  const unmatched: string[] = [];
+  for (const path of paths) {
+    const category = categories.find((candidate) => pathOf(candidate) === path);
+    if (category) {
+      if (!categoryIds.includes(category.id)) categoryIds.push(category.id);
+    } else if (!unmatched.includes(path)) {
+      unmatched.push(path);
+    }
+  }
+  return { categoryIds, unmatched };
+}
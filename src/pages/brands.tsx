@@ -16,6 +16,7 @@ import {
 } from "lucide-react";
 import AddBrandModal from "@/components/modals/add-brand-modal";
 import BrandDetailModal from "@/components/modals/brand-detail-modal";
+import { useLinkedRecord } from "@/hooks/use-linked-record";
 
 interface Brand {
   id: string;
@@ -38,6 +39,8 @@ export function Brands() {
   const [selectedBrand, setSelectedBrand] = useState<Brand | null>(null);
   const [showHowToModal, setShowHowToModal] = useState(false);
 
+  useLinkedRecord<Brand>("/api/brands", setSelectedBrand);
+
   const { data: brands = [], isLoading } = useQuery<Brand[]>({
     queryKey: ["/api/brands"],
   });
@@ -3,12 +3,13 @@ import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { FileText, Plus, ChevronDown, ChevronRight, Edit, Box, Home, TreePine, Layers, Expand, Minimize2, Trash2 } from "lucide-react";
-import { type Category } from "@shared/schema";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { FileText, Plus, ChevronDown, ChevronRight, Edit, Box, Home, TreePine, Layers, Expand, Minimize2, Trash2, GripVertical } from "lucide-react";
+import { type Category, type Vendor } from "@shared/schema";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import AddCategoryModal from "@/components/modals/add-category-modal";
 import EditCategoryModal from "@/components/modals/edit-category-modal";
+import { useLinkedRecord } from "@/hooks/use-linked-record";
 
 export default function Categories() {
   const [showAddModal, setShowAddModal] = useState(false);
@@ -16,12 +17,19 @@ export default function Categories() {
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
   const [expandAll, setExpandAll] = useState(false);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  // Category id being hovered as a drop target, or "root" for the top level
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
   const { toast } = useToast();
 
   const { data: categories, isLoading } = useQuery<Category[]>({
     queryKey: ["/api/categories"],
   });
 
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ["/api/vendors"],
+  });
+
   const deleteCategoryMutation = useMutation({
     mutationFn: async (id: string) => {
       await apiRequest("DELETE", `/api/categories?id=${id}`);
@@ -33,10 +41,36 @@ export default function Categories() {
         description: "Category deleted successfully",
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to delete category",
+        description: apiErrorMessage(error, "Failed to delete category"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Re-parents a category; the server rewrites the paths of its whole subtree
+  const moveCategoryMutation = useMutation({
+    mutationFn: async ({ id, parentId }: { id: string; parentId: string | null }) => {
+      const response = await apiRequest("POST", "/api/categories/move", { id, parentId });
+      return response.json();
+    },
+    onSuccess: (result: { category: Category; updated: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+      if (result.category.parentId) {
+        setExpandedCategories((expanded) => new Set(expanded).add(result.category.parentId as string));
+      }
+      toast({
+        title: "Category moved",
+        description: `${result.category.path} (${result.updated} ${result.updated === 1 ? "category" : "categories"} updated)`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Cannot move category",
+        description: apiErrorMessage(error, "Failed to move category"),
         variant: "destructive",
       });
     },
@@ -152,6 +186,30 @@ export default function Categories() {
     setShowEditModal(true);
   };
 
+  useLinkedRecord<Category>("/api/categories", handleEditCategory);
+
+  // Mirrors the server's parent rules so invalid targets don't light up
+  const canDropOn = (target: Category | null) => {
+    const dragged = categories?.find((cat) => cat.id === draggingId);
+    if (!dragged || !categories) return false;
+    if (!target) return dragged.parentId !== null;
+    if (target.id === dragged.parentId) return false;
+    for (let ancestor: Category | undefined = target; ancestor; ancestor = categories.find((cat) => cat.id === ancestor?.parentId)) {
+      if (ancestor.id === dragged.id) return false;
+    }
+    return dragged.categoryType === "generic"
+      ? target.categoryType === "generic"
+      : target.categoryType === "branded" && target.brandId === dragged.brandId;
+  };
+
+  const handleDrop = (target: Category | null) => {
+    if (draggingId && canDropOn(target)) {
+      moveCategoryMutation.mutate({ id: draggingId, parentId: target?.id ?? null });
+    }
+    setDraggingId(null);
+    setDropTargetId(null);
+  };
+
   const handleDeleteCategory = (category: Category) => {
     // Prevent deletion while another deletion is pending
     if (deleteCategoryMutation.isPending) {
@@ -179,14 +237,9 @@ export default function Categories() {
     }
   };
 
-  // Recursive component to render category tree
-  const CategoryTreeNode = ({ 
-    category, 
-    level = 0 
-  }: { 
-    category: Category & { children: Category[] }, 
-    level?: number 
-  }) => {
+  // Renders the category tree recursively. A plain function rather than a
+  // component, so drag state changes don't remount the row being dragged.
+  const renderCategoryNode = (category: Category & { children: Category[] }, level = 0) => {
     const isExpanded = expandedCategories.has(category.id);
     const Icon = getCategoryIcon(category.name);
     const hasChildren = category.children.length > 0;
@@ -199,11 +252,38 @@ export default function Categories() {
             level === 0 ? 'border-blue-500 bg-blue-50' : 
             level === 1 ? 'border-green-400 bg-green-50' : 
             'border-yellow-400 bg-yellow-50'
-          }`}
+          } ${dropTargetId === category.id ? 'ring-2 ring-blue-500 ring-inset' : ''} ${draggingId === category.id ? 'opacity-50' : ''}`}
           style={{ marginLeft: `${indentSize}px` }}
           onClick={() => hasChildren && toggleCategory(category.id)}
+          draggable={!moveCategoryMutation.isPending}
+          onDragStart={(e) => {
+            e.stopPropagation();
+            e.dataTransfer.effectAllowed = "move";
+            e.dataTransfer.setData("text/plain", category.id);
+            setDraggingId(category.id);
+          }}
+          onDragEnd={() => {
+            setDraggingId(null);
+            setDropTargetId(null);
+          }}
+          onDragOver={(e) => {
+            if (!canDropOn(category)) return;
+            e.preventDefault();
+            e.stopPropagation();
+            if (dropTargetId !== category.id) setDropTargetId(category.id);
+          }}
+          onDragLeave={() => {
+            if (dropTargetId === category.id) setDropTargetId(null);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            handleDrop(category);
+          }}
+          data-testid={`category-row-${category.id}`}
         >
           <div className="flex items-center space-x-3">
+            <GripVertical className="h-4 w-4 text-gray-300 cursor-grab" />
             {hasChildren ? (
               isExpanded ? (
                 <ChevronDown className="h-4 w-4 text-gray-400" />
@@ -233,10 +313,10 @@ export default function Categories() {
           </div>
           <div className="flex items-center space-x-2">
             <Badge 
-              variant={parseInt(category.vendorCount || "0") > 0 ? "default" : "secondary"}
-              className={`text-xs ${parseInt(category.vendorCount || "0") > 0 ? "bg-blue-100 text-blue-800" : "bg-gray-100 text-gray-500"}`}
+              variant={(category.vendorCount ?? 0) > 0 ? "default" : "secondary"}
+              className={`text-xs ${(category.vendorCount ?? 0) > 0 ? "bg-blue-100 text-blue-800" : "bg-gray-100 text-gray-500"}`}
             >
-              {category.vendorCount || "0"}
+              {category.vendorCount ?? 0}
             </Badge>
             <Button 
               variant="ghost" 
@@ -266,9 +346,7 @@ export default function Categories() {
         
         {isExpanded && hasChildren && (
           <div>
-            {category.children.map((child) => (
-              <CategoryTreeNode key={child.id} category={child as Category & { children: Category[] }} level={level + 1} />
-            ))}
+            {category.children.map((child) => renderCategoryNode(child as Category & { children: Category[] }, level + 1))}
           </div>
         )}
       </div>
@@ -280,7 +358,11 @@ export default function Categories() {
   }
 
   const categoryTree = categories ? buildCategoryTree(categories) : [];
-  const topCategories = categories?.filter(cat => parseInt(cat.vendorCount || "0") > 0).slice(0, 4) || [];
+  // Counts roll up from subcategories, so only top-level ones are compared
+  const topCategories = (categories ?? [])
+    .filter(cat => !cat.parentId && (cat.vendorCount ?? 0) > 0)
+    .sort((a, b) => (b.vendorCount ?? 0) - (a.vendorCount ?? 0))
+    .slice(0, 4);
 
   return (
     <div className="flex-1 p-6 space-y-6">
@@ -311,7 +393,7 @@ export default function Categories() {
           <div className="mb-6 flex items-center justify-between">
             <div>
               <h3 className="text-lg font-semibold text-gray-900 mb-2">Category Structure</h3>
-              <p className="text-gray-600">Hierarchical organization of construction materials and subcategories (up to 3+ levels deep)</p>
+              <p className="text-gray-600">Hierarchical organization of construction materials and subcategories (up to 3+ levels deep). Drag a category onto another to move it.</p>
             </div>
             <Button 
               variant="outline" 
@@ -326,9 +408,29 @@ export default function Categories() {
 
           {/* Category Tree Structure */}
           <div className="space-y-1 border border-gray-200 rounded-lg bg-white">
-            {categoryTree.map((category) => (
-              <CategoryTreeNode key={category.id} category={category as Category & { children: Category[] }} level={0} />
-            ))}
+            {draggingId && (
+              <div
+                className={`p-3 text-center text-sm border-2 border-dashed rounded-lg ${
+                  dropTargetId === "root" ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-500'
+                }`}
+                onDragOver={(e) => {
+                  if (!canDropOn(null)) return;
+                  e.preventDefault();
+                  if (dropTargetId !== "root") setDropTargetId("root");
+                }}
+                onDragLeave={() => {
+                  if (dropTargetId === "root") setDropTargetId(null);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(null);
+                }}
+                data-testid="category-drop-root"
+              >
+                Drop here to make it a top-level category
+              </div>
+            )}
+            {categoryTree.map((category) => renderCategoryNode(category as Category & { children: Category[] }, 0))}
           </div>
         </CardContent>
       </Card>
@@ -356,7 +458,7 @@ export default function Categories() {
             <div className="space-y-4">
               {topCategories.map((category) => {
                 const Icon = getCategoryIcon(category.name);
-                const percentage = (parseInt(category.vendorCount || "0") / 8) * 100; // 8 is total vendors
+                const percentage = vendors.length > 0 ? ((category.vendorCount ?? 0) / vendors.length) * 100 : 0;
                 
                 return (
                   <div key={category.id} className="flex items-center justify-between">
@@ -373,7 +475,7 @@ export default function Categories() {
                           style={{ width: `${percentage}%` }}
                         ></div>
                       </div>
-                      <span className="text-sm font-medium text-gray-600">{category.vendorCount || "0"}</span>
+                      <span className="text-sm font-medium text-gray-600">{category.vendorCount ?? 0}</span>
                     </div>
                   </div>
                 );
@@ -2,10 +2,41 @@ import { useQuery } from "@tanstack/react-query";
 import { Link, useLocation } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Building, Tags, Users, BarChart3, RefreshCw, FileText, Plus, UserPlus, Table, TrendingUp, ArrowUp, AlertTriangle } from "lucide-react";
+import { Building, Tags, Users, BarChart3, RefreshCw, FileText, Plus, UserPlus, Table, TrendingUp, ArrowUp, AlertTriangle, Pencil, Trash2, RotateCcw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
 import { SyncButton } from "@/components/sync-button";
+import { fieldLabel } from "@/lib/utils";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
-import { type Vendor, type Representative, type Category } from "@shared/schema";
+import { type Vendor, type Representative, type Category, type AuditLogEntry } from "@shared/schema";
+
+// What /api/activity returns for each audit log entry
+type ActivityEntry = Omit<AuditLogEntry, "snapshot">;
+
+const ACTIVITY_ENTITIES: Record<string, { label: string; path: string }> = {
+  vendor: { label: "Vendor", path: "/vendors" },
+  representative: { label: "Sales rep", path: "/representatives" },
+  category: { label: "Category", path: "/categories" },
+  brand: { label: "Brand", path: "/brands" },
+  service: { label: "Service", path: "/services" },
+  proCustomer: { label: "Pro customer", path: "/pro-customers" },
+};
+
+const ACTIVITY_ACTIONS: Record<string, { verb: string; icon: typeof Plus; color: string }> = {
+  create: { verb: "added", icon: Plus, color: "bg-green-100 text-green-600" },
+  update: { verb: "updated", icon: Pencil, color: "bg-blue-100 text-blue-600" },
+  delete: { verb: "deleted", icon: Trash2, color: "bg-red-100 text-red-600" },
+  restore: { verb: "restored", icon: RotateCcw, color: "bg-orange-100 text-orange-600" },
+  undelete: { verb: "restored from trash", icon: RotateCcw, color: "bg-green-100 text-green-600" },
+  purge: { verb: "permanently deleted", icon: Trash2, color: "bg-red-100 text-red-600" },
+};
+
+function describeChanges(entry: ActivityEntry): string | null {
+  if (entry.action !== "update" && entry.action !== "restore") return null;
+  const fields = Object.keys(entry.changes ?? {}).map(fieldLabel);
+  if (fields.length === 0) return null;
+  const shown = fields.slice(0, 3).join(", ");
+  return fields.length > 3 ? `Changed ${shown} and ${fields.length - 3} more` : `Changed ${shown}`;
+}
 
 export default function Dashboard() {
   const [, setLocation] = useLocation();
@@ -22,6 +53,12 @@ export default function Dashboard() {
     queryKey: ["/api/categories"],
   });
 
+  // Every save anywhere adds to the feed, so refetch whenever the dashboard opens
+  const { data: activity } = useQuery<ActivityEntry[]>({
+    queryKey: ["/api/activity"],
+    staleTime: 0,
+  });
+
   const isLoading = vendorsLoading || repsLoading || categoriesLoading;
 
   const metrics = {
@@ -60,27 +97,6 @@ export default function Dashboard() {
     };
   }).sort((a, b) => b.vendors - a.vendors) || [];
 
-  const recentActivity = [
-    {
-      type: "success",
-      icon: Plus,
-      title: "New vendor added",
-      description: "ABC Supply Co - 2 hours ago",
-    },
-    {
-      type: "info",
-      icon: UserPlus,
-      title: "Vendor updated",
-      description: "Beacon materials - 5 hours ago",
-    },
-    {
-      type: "warning",
-      icon: Tags,
-      title: "Category restructured",
-      description: "Roofing subcategories - 1 day ago",
-    },
-  ];
-
   const generateDashboardReport = () => {
     const reportData = {
       title: "LowesPro Dashboard Report",
@@ -107,7 +123,7 @@ ${reportData.vendors.map(v => `• ${v.companyName} (${v.vendorNumber}) - ${v.ca
 
 CATEGORIES
 ===========
-${reportData.categories.map(c => `• ${c.name} (Level ${c.level}) - ${c.vendorCount} vendors`).join('\n')}
+${reportData.categories.map(c => `• ${c.name} (Level ${c.level}) - ${c.vendorCount ?? 0} vendors`).join('\n')}
 
 Report generated by LowesPro Vendor Management System
     `.trim();
@@ -303,25 +319,43 @@ Report generated by LowesPro Vendor Management System
           <CardContent className="p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-6">Recent Activity</h3>
             <div className="space-y-4">
-              {recentActivity.map((activity, index) => {
-                const Icon = activity.icon;
-                const colorClasses = {
-                  success: "bg-green-100 text-green-600",
-                  info: "bg-blue-100 text-blue-600",
-                  warning: "bg-orange-100 text-orange-600",
-                };
-                
-                return (
-                  <div key={index} className="flex items-start space-x-3">
-                    <div className={`w-8 h-8 rounded-full flex items-center justify-center ${colorClasses[activity.type as keyof typeof colorClasses]}`}>
+              {activity?.length === 0 && (
+                <p className="text-sm text-gray-500">No changes recorded yet</p>
+              )}
+              {activity?.map((entry) => {
+                const entity = ACTIVITY_ENTITIES[entry.entityType] ?? { label: entry.entityType, path: "" };
+                const action = ACTIVITY_ACTIONS[entry.action] ?? ACTIVITY_ACTIONS.update;
+                const Icon = action.icon;
+                const changes = describeChanges(entry);
+                const when = entry.createdAt ? formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true }) : "";
+
+                const content = (
+                  <div className="flex items-start space-x-3">
+                    <div className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 ${action.color}`}>
                       <Icon className="h-4 w-4" />
                     </div>
-                    <div className="flex-1">
-                      <p className="text-sm font-medium text-gray-900">{activity.title}</p>
-                      <p className="text-xs text-gray-500">{activity.description}</p>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{entity.label} {action.verb}</p>
+                      <p className="text-xs text-gray-700 truncate">{entry.entityName}</p>
+                      {changes && <p className="text-xs text-gray-500 truncate">{changes}</p>}
+                      <p className="text-xs text-gray-400">{when}</p>
                     </div>
                   </div>
                 );
+
+                // A deleted record has nothing left to open
+                return entry.action === "delete" || entry.action === "purge" || !entity.path ? (
+                  <div key={entry.id} data-testid={`activity-${entry.id}`}>{content}</div>
+                ) : (
+                  <Link
+                    key={entry.id}
+                    href={`${entity.path}?id=${entry.entityId}`}
+                    className="block rounded-md -m-1 p-1 hover:bg-gray-50"
+                    data-testid={`activity-${entry.id}`}
+                  >
+                    {content}
+                  </Link>
+                );
               })}
             </div>
           </CardContent>
@@ -0,0 +1,152 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { HardHat } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiErrorMessage } from "@/lib/queryClient";
+import { useAuthSetup, useLogin, useSetupAccount } from "@/hooks/use-auth";
+import { insertUserSchema, loginSchema, type InsertUser, type LoginCredentials } from "@shared/schema";
+
+function LoginForm() {
+  const login = useLogin();
+  const form = useForm<LoginCredentials>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { email: "", password: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(data => login.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" autoComplete="username" autoFocus {...field} data-testid="input-login-email" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} data-testid="input-login-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {login.isError && (
+          <p className="text-sm text-red-600">{apiErrorMessage(login.error, "Failed to sign in")}</p>
+        )}
+        <Button type="submit" className="w-full" disabled={login.isPending} data-testid="button-login">
+          {login.isPending ? "Signing in..." : "Sign In"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+// Shown until the first account exists
+function SetupForm() {
+  const setup = useSetupAccount();
+  const form = useForm<InsertUser>({
+    resolver: zodResolver(insertUserSchema),
+    defaultValues: { name: "", email: "", password: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(data => setup.mutate(data))} className="space-y-4">
+        <p className="text-sm text-gray-600">No accounts exist yet. Create the first one to get started.</p>
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input autoComplete="name" autoFocus {...field} data-testid="input-setup-name" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" autoComplete="username" {...field} data-testid="input-setup-email" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} data-testid="input-setup-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {setup.isError && (
+          <p className="text-sm text-red-600">{apiErrorMessage(setup.error, "Failed to create account")}</p>
+        )}
+        <Button type="submit" className="w-full" disabled={setup.isPending} data-testid="button-setup">
+          {setup.isPending ? "Creating account..." : "Create Account"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function Login() {
+  const { data: setup, isLoading } = useAuthSetup();
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-sm mx-4 construction-shadow">
+        <CardContent className="pt-6 space-y-6">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-blue-600 rounded-lg flex items-center justify-center">
+              <HardHat className="text-white h-5 w-5" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-gray-900">LowesPro</h1>
+              <p className="text-sm text-gray-500">Sign in to continue</p>
+            </div>
+          </div>
+          {isLoading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : setup?.required ? (
+            <SetupForm />
+          ) : (
+            <LoginForm />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Users, Plus, Search, Building, Edit, Trash2, ArrowUpDown, Download, Phone, Mail, Send } from "lucide-react";
 import { type ProCustomer } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -13,19 +14,44 @@ import { useToast } from "@/hooks/use-toast";
 import AddProCustomerModal from "@/components/modals/add-pro-customer-modal";
 import ProCustomerDetailModal from "@/components/modals/pro-customer-detail-modal";
 import { formatPhoneNumber } from "@/lib/phone-utils";
+import { useListPage } from "@/hooks/use-list-page";
+import { ListPagination } from "@/components/list-pagination";
+import { useLinkedRecord } from "@/hooks/use-linked-record";
+
+type MailingListFormat = "text" | "csv" | "vcard";
+
+const MAILING_LIST_EXTENSIONS: Record<MailingListFormat, string> = {
+  text: "txt",
+  csv: "csv",
+  vcard: "vcf",
+};
 
 export default function ProCustomers() {
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [showAddModal, setShowAddModal] = useState(false);
   const [selectedCustomer, setSelectedCustomer] = useState<ProCustomer | null>(null);
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [startInEditMode, setStartInEditMode] = useState(false);
-  const [sortField, setSortField] = useState<string>('businessName');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const [chosenSortField, setSortField] = useState<string | null>(null);
+  const [chosenSortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const [page, setPage] = useState(1);
   const { toast } = useToast();
 
+  // The list query follows the search box after a pause in typing
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 200);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Best matches first while searching, until a column sort is picked
+  const isSearching = debouncedSearch !== "";
+  const sortField = chosenSortField ?? (isSearching ? 'relevance' : 'businessName');
+  const sortOrder = chosenSortField ? chosenSortOrder : (isSearching ? 'desc' : 'asc');
+
   const handleSort = (field: string) => {
     if (sortField === field) {
+      setSortField(field);
       setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
     } else {
       setSortField(field);
@@ -33,9 +59,19 @@ export default function ProCustomers() {
     }
   };
 
-  const { data: customers, isLoading } = useQuery<ProCustomer[]>({
-    queryKey: ["/api/pro-customers"],
+  // Search and sort run server-side; search covers business name, contact,
+  // account number, phones and trades, and tolerates typos in names
+  const { data: customerPage, isLoading } = useListPage<ProCustomer>("/api/pro-customers", {
+    search: debouncedSearch,
+    sort: sortField,
+    order: sortOrder,
+    page,
   });
+  const sortedCustomers = customerPage?.items ?? [];
+
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, sortField, sortOrder]);
 
   const deleteCustomerMutation = useMutation({
     mutationFn: async (id: string) => {
@@ -44,9 +80,10 @@ export default function ProCustomers() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/pro-customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       toast({
         title: "Success",
-        description: "Pro customer deleted successfully",
+        description: "Pro customer moved to the trash",
       });
     },
     onError: () => {
@@ -59,8 +96,11 @@ export default function ProCustomers() {
   });
 
   const exportMailingListMutation = useMutation({
-    mutationFn: async () => {
-      const response = await fetch("/api/pro-customers/mailing-list");
+    mutationFn: async (format: MailingListFormat) => {
+      const params = new URLSearchParams({ format });
+      // Export the same customers the search has narrowed the list to
+      if (searchQuery.trim()) params.append("search", searchQuery.trim());
+      const response = await fetch(`/api/pro-customers/mailing-list?${params}`);
       if (!response.ok) {
         throw new Error("Failed to generate mailing list");
       }
@@ -68,7 +108,7 @@ export default function ProCustomers() {
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = 'pro-customers-mailing-list.txt';
+      link.download = `pro-customers-mailing-list.${MAILING_LIST_EXTENSIONS[format]}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -89,44 +129,6 @@ export default function ProCustomers() {
     },
   });
 
-  // Filter customers based on search query
-  const filteredCustomers = customers?.filter(customer => {
-    if (!searchQuery) return true;
-    const query = searchQuery.toLowerCase();
-    return (
-      customer.businessName?.toLowerCase().includes(query) ||
-      customer.primaryContactName?.toLowerCase().includes(query) ||
-      customer.trades?.some(trade => trade.toLowerCase().includes(query)) ||
-      customer.lowesProAccountNumber?.toLowerCase().includes(query)
-    );
-  }) || [];
-
-  // Sort customers
-  const sortedCustomers = [...filteredCustomers].sort((a, b) => {
-    let aValue = '', bValue = '';
-    
-    switch (sortField) {
-      case 'businessName':
-        aValue = a.businessName || '';
-        bValue = b.businessName || '';
-        break;
-      case 'primaryContactName':
-        aValue = a.primaryContactName || '';
-        bValue = b.primaryContactName || '';
-        break;
-      case 'lowesProAccountNumber':
-        aValue = a.lowesProAccountNumber || '';
-        bValue = b.lowesProAccountNumber || '';
-        break;
-      default:
-        aValue = a.businessName || '';
-        bValue = b.businessName || '';
-    }
-    
-    const comparison = aValue.localeCompare(bValue);
-    return sortOrder === 'asc' ? comparison : -comparison;
-  });
-
   const handleCustomerClick = (customer: ProCustomer) => {
     setSelectedCustomer(customer);
     setStartInEditMode(false);
@@ -145,13 +147,16 @@ export default function ProCustomers() {
     setShowDetailModal(true);
   };
 
+  useLinkedRecord<ProCustomer>("/api/pro-customers", handleCustomerClick);
+
   const handleDeleteCustomer = (customer: ProCustomer) => {
-    if (window.confirm(`Are you sure you want to delete ${customer.businessName}?`)) {
+    if (window.confirm(`Move ${customer.businessName} to the trash? It can be restored from the Trash page.`)) {
       deleteCustomerMutation.mutate(customer.id);
     }
   };
 
   const toggleSortOrder = () => {
+    setSortField(sortField);
     setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
   };
 
@@ -205,16 +210,24 @@ export default function ProCustomers() {
           <p className="text-gray-600 mt-1 text-sm sm:text-base">Manage your professional construction customers</p>
         </div>
         <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3 w-full lg:w-auto">
-          <Button 
-            variant="outline"
-            onClick={() => exportMailingListMutation.mutate()}
-            disabled={exportMailingListMutation.isPending}
-            data-testid="button-export-mailing-list"
-            className="w-full sm:w-auto"
-          >
-            <Send className="mr-2 h-4 w-4" />
-            {exportMailingListMutation.isPending ? "Exporting..." : "Export Mailing List"}
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                disabled={exportMailingListMutation.isPending}
+                data-testid="button-export-mailing-list"
+                className="w-full sm:w-auto"
+              >
+                <Send className="mr-2 h-4 w-4" />
+                {exportMailingListMutation.isPending ? "Exporting..." : "Export Mailing List"}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => exportMailingListMutation.mutate("text")}>Plain text (.txt)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportMailingListMutation.mutate("csv")}>Outlook contacts (.csv)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportMailingListMutation.mutate("vcard")}>vCard (.vcf)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Button 
             className="bg-blue-600 hover:bg-blue-700 font-medium w-full sm:w-auto"
             onClick={() => setShowAddModal(true)}
@@ -327,12 +340,25 @@ export default function ProCustomers() {
         ))}
       </div>
 
+      {customerPage && customerPage.pageCount > 1 && (
+        <Card className="construction-shadow block md:hidden">
+          <ListPagination
+            page={customerPage.page}
+            pageSize={customerPage.pageSize}
+            total={customerPage.total}
+            pageCount={customerPage.pageCount}
+            onPageChange={setPage}
+            noun="customers"
+          />
+        </Card>
+      )}
+
       {/* Desktop Table Layout */}
       <Card className="construction-shadow overflow-hidden hidden md:block">
         <div className="px-6 py-4 border-b border-gray-200">
           <div className="flex items-center justify-between">
             <h3 className="text-lg font-semibold text-gray-900">Pro Customer Directory</h3>
-            <span className="text-sm text-gray-500">{sortedCustomers.length} customers</span>
+            <span className="text-sm text-gray-500">{customerPage?.total ?? 0} customers</span>
           </div>
         </div>
 
@@ -508,6 +534,17 @@ export default function ProCustomers() {
             </div>
           )}
         </div>
+
+        {customerPage && customerPage.total > 0 && (
+          <ListPagination
+            page={customerPage.page}
+            pageSize={customerPage.pageSize}
+            total={customerPage.total}
+            pageCount={customerPage.pageCount}
+            onPageChange={setPage}
+            noun="customers"
+          />
+        )}
       </Card>
 
       {/* Modals */}
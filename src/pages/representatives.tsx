@@ -1,5 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -14,6 +14,9 @@ import EditRepresentativeModal from "@/components/modals/edit-representative-mod
 import { exportRepresentativesToPDF } from "@/lib/pdf-export";
 import { useToast } from "@/hooks/use-toast";
 import { formatPhoneNumber } from "@/lib/phone-utils";
+import { useListPage, fetchAll } from "@/hooks/use-list-page";
+import { ListPagination } from "@/components/list-pagination";
+import { useLinkedRecord } from "@/hooks/use-linked-record";
 
 export default function Representatives() {
   const [showAddModal, setShowAddModal] = useState(false);
@@ -24,10 +27,24 @@ export default function Representatives() {
   const [sortField, setSortField] = useState<string>('name');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
 
-  const { data: representatives, isLoading } = useQuery<Representative[]>({
-    queryKey: ["/api/representatives"],
+  useLinkedRecord<Representative>("/api/representatives", (representative) => {
+    setSelectedRepresentative(representative);
+    setShowEditModal(true);
   });
 
+  const [page, setPage] = useState(1);
+
+  const { data: representativePage, isLoading } = useListPage<Representative>("/api/representatives", {
+    sort: sortField,
+    order: sortOrder,
+    page,
+  });
+  const representatives = representativePage?.items;
+
+  useEffect(() => {
+    setPage(1);
+  }, [sortField, sortOrder]);
+
   const { data: vendors = [] } = useQuery<Vendor[]>({
     queryKey: ["/api/vendors"],
   });
@@ -43,35 +60,12 @@ export default function Representatives() {
     }
   };
 
-  // Apply sorting to representatives
-  const sortedRepresentatives = representatives?.sort((a, b) => {
-    let aValue = '', bValue = '';
-    
-    switch (sortField) {
-      case 'name':
-        aValue = a.name;
-        bValue = b.name;
-        break;
-      case 'vendorName':
-        aValue = a.vendorName || '';
-        bValue = b.vendorName || '';
-        break;
-      case 'position':
-        aValue = a.position || '';
-        bValue = b.position || '';
-        break;
-      default:
-        aValue = a.name;
-        bValue = b.name;
-    }
-    
-    const comparison = aValue.localeCompare(bValue);
-    return sortOrder === 'asc' ? comparison : -comparison;
-  }) || [];
+  const sortedRepresentatives = representatives ?? [];
 
-  const handleExportPDF = () => {
+  const handleExportPDF = async () => {
     try {
-      const pdf = exportRepresentativesToPDF(sortedRepresentatives, vendors, sortField, sortOrder);
+      const allRepresentatives = await fetchAll<Representative>("/api/representatives", { sort: sortField, order: sortOrder });
+      const pdf = exportRepresentativesToPDF(allRepresentatives, vendors, sortField, sortOrder);
       const fileName = `lowespro-representatives-${new Date().toISOString().split('T')[0]}.pdf`;
       pdf.save(fileName);
       
@@ -111,7 +105,7 @@ export default function Representatives() {
     }
   };
 
-  const exportMailingList = () => {
+  const exportMailingList = async () => {
     if (selectedReps.size === 0) {
       toast({
         title: "No Selection",
@@ -121,7 +115,9 @@ export default function Representatives() {
       return;
     }
 
-    const selectedRepresentatives = (representatives || []).filter(rep => 
+    // Selections can span pages, so resolve them against the full list
+    const allRepresentatives = await fetchAll<Representative>("/api/representatives", { sort: sortField, order: sortOrder });
+    const selectedRepresentatives = allRepresentatives.filter(rep => 
       selectedReps.has(rep.id)
     );
 
@@ -320,12 +316,25 @@ export default function Representatives() {
             ))}
           </div>
 
+          {representativePage && representativePage.pageCount > 1 && (
+            <Card className="construction-shadow block md:hidden">
+              <ListPagination
+                page={representativePage.page}
+                pageSize={representativePage.pageSize}
+                total={representativePage.total}
+                pageCount={representativePage.pageCount}
+                onPageChange={setPage}
+                noun="representatives"
+              />
+            </Card>
+          )}
+
           {/* Desktop Table Layout */}
           <Card className="construction-shadow overflow-hidden hidden md:block">
             <div className="px-6 py-4 border-b border-gray-200">
               <div className="flex items-center justify-between">
                 <h3 className="text-lg font-semibold text-gray-900">Sales Representatives Directory</h3>
-                <span className="text-sm text-gray-500">{sortedRepresentatives?.length || 0} representatives</span>
+                <span className="text-sm text-gray-500">{representativePage?.total ?? 0} representatives</span>
               </div>
             </div>
 
@@ -453,6 +462,17 @@ export default function Representatives() {
               </TableBody>
             </Table>
           </div>
+
+          {representativePage && (
+            <ListPagination
+              page={representativePage.page}
+              pageSize={representativePage.pageSize}
+              total={representativePage.total}
+              pageCount={representativePage.pageCount}
+              onPageChange={setPage}
+              noun="representatives"
+            />
+          )}
           
           {/* Mailing List Submit Button */}
           {mailingListMode && (
@@ -1,4 +1,4 @@
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,43 +6,25 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Plus, ChevronDown, ChevronRight, Edit, Trash2 } from "lucide-react";
 import { type Service } from "@shared/schema";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { useToast } from "@/hooks/use-toast";
 import AddServiceModal from "@/components/modals/add-service-modal";
 import EditServiceModal from "@/components/modals/edit-service-modal";
+import DeleteServiceModal from "@/components/modals/delete-service-modal";
+import { useLinkedRecord } from "@/hooks/use-linked-record";
 
 export default function Services() {
   const [expandedServices, setExpandedServices] = useState<Set<string>>(new Set());
   const [expandAll, setExpandAll] = useState(false);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [editingService, setEditingService] = useState<Service | null>(null);
+  const [deletingService, setDeletingService] = useState<Service | null>(null);
   const [activeFilter, setActiveFilter] = useState<string>('all');
-  const { toast } = useToast();
+
+  useLinkedRecord<Service>("/api/services", setEditingService);
 
   const { data: services, isLoading } = useQuery<Service[]>({
     queryKey: ["/api/services"],
   });
 
-  const deleteServiceMutation = useMutation({
-    mutationFn: async (id: string) => {
-      await apiRequest("DELETE", `/api/services?id=${id}`);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/services"] });
-      toast({
-        title: "Success",
-        description: "Service deleted successfully",
-      });
-    },
-    onError: () => {
-      toast({
-        title: "Error",
-        description: "Failed to delete service",
-        variant: "destructive",
-      });
-    },
-  });
-
   // Filter services based on active filter
   const getFilteredServices = () => {
     if (!services) return [];
@@ -99,12 +81,6 @@ export default function Services() {
     setExpandAll(!expandAll);
   };
 
-  const handleDeleteService = (service: Service) => {
-    if (window.confirm(`Are you sure you want to delete "${service.name}"?`)) {
-      deleteServiceMutation.mutate(service.id);
-    }
-  };
-
   interface ServiceTreeNodeProps {
     service: Service & { children: Service[] };
     level: number;
@@ -151,7 +127,7 @@ export default function Services() {
                 )}
                 <div className="flex items-center space-x-2 mt-2">
                   <Badge variant="secondary" className="text-xs">
-                    {service.vendorCount} vendors
+                    {service.vendorCount ?? 0} vendors
                   </Badge>
                   <Badge variant="outline" className="text-xs">
                     Level {service.level}
@@ -173,7 +149,7 @@ export default function Services() {
                 variant="ghost" 
                 size="sm" 
                 className="text-red-600 hover:text-red-800"
-                onClick={() => handleDeleteService(service)}
+                onClick={() => setDeletingService(service)}
               >
                 <Trash2 className="h-4 w-4" />
               </Button>
@@ -364,6 +340,11 @@ export default function Services() {
         isOpen={!!editingService} 
         onClose={() => setEditingService(null)} 
       />
+      <DeleteServiceModal
+        service={deletingService}
+        isOpen={!!deletingService}
+        onClose={() => setDeletingService(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Building, Briefcase, RotateCcw, Trash2, Users } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type TrashEntityType = "vendor" | "representative" | "proCustomer";
+
+// What /api/trash returns for each deleted record
+interface TrashItem {
+  entityType: TrashEntityType;
+  id: string;
+  name: string;
+  deletedAt: string;
+  dependents: Record<string, number>;
+}
+
+const TRASH_GROUPS: { type: TrashEntityType; label: string; icon: typeof Building; queryKeys: string[] }[] = [
+  // Vendors also feed the category, brand and service counts, and bring their reps back with them
+  { type: "vendor", label: "Vendors", icon: Building, queryKeys: ["/api/vendors", "/api/representatives", "/api/categories", "/api/brands", "/api/brands/vendors", "/api/services"] },
+  { type: "representative", label: "Sales Reps", icon: Users, queryKeys: ["/api/representatives"] },
+  { type: "proCustomer", label: "Pro Customers", icon: Briefcase, queryKeys: ["/api/pro-customers"] },
+];
+
+// What a purge also removes, e.g. "2 representatives"; zero counts are left out
+function describeDependents(dependents: Record<string, number>): string | null {
+  const parts = Object.entries(dependents)
+    .filter(([, count]) => count > 0)
+    .map(([name, count]) => `${count} ${name}`);
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+export default function Trash() {
+  const [confirmingPurge, setConfirmingPurge] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: items = [], isLoading } = useQuery<TrashItem[]>({
+    queryKey: ["/api/trash"],
+    staleTime: 0,
+  });
+
+  const invalidate = (item: TrashItem) => {
+    const group = TRASH_GROUPS.find(candidate => candidate.type === item.entityType);
+    group?.queryKeys.forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+    queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/activity"] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (item: TrashItem) => {
+      const response = await apiRequest("POST", "/api/trash", { entityType: item.entityType, id: item.id });
+      return response.json();
+    },
+    onSuccess: (_, item) => {
+      invalidate(item);
+      toast({
+        title: "Success",
+        description: `${item.name} restored`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to restore"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (item: TrashItem) => {
+      await apiRequest("DELETE", `/api/trash?entityType=${item.entityType}&id=${item.id}`);
+    },
+    onSuccess: (_, item) => {
+      invalidate(item);
+      setConfirmingPurge(null);
+      toast({
+        title: "Success",
+        description: `${item.name} permanently deleted`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to delete permanently"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isPending = restoreMutation.isPending || purgeMutation.isPending;
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 p-6 space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <Card className="construction-shadow">
+          <CardContent className="p-6 space-y-4">
+            {[...Array(3)].map((_, index) => (
+              <Skeleton key={index} className="h-16 w-full" />
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Trash</h1>
+        <p className="text-gray-600 mt-1">Deleted vendors, sales reps and pro customers. Restore them, or delete them permanently.</p>
+      </div>
+
+      {items.length === 0 && (
+        <Card className="construction-shadow">
+          <CardContent className="p-12 text-center text-gray-500">
+            <Trash2 className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+            <p className="font-medium">The trash is empty</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {TRASH_GROUPS.map(group => {
+        const groupItems = items.filter(item => item.entityType === group.type);
+        if (groupItems.length === 0) return null;
+        const Icon = group.icon;
+
+        return (
+          <Card key={group.type} className="construction-shadow" data-testid={`trash-group-${group.type}`}>
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <Icon className="h-5 w-5 text-gray-500" />
+                {group.label} ({groupItems.length})
+              </h3>
+              <div className="divide-y">
+                {groupItems.map(item => {
+                  const dependents = describeDependents(item.dependents);
+                  const key = `${item.entityType}-${item.id}`;
+
+                  return (
+                    <div key={key} className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2" data-testid={`trash-item-${item.id}`}>
+                      <div>
+                        <p className="font-medium text-gray-900">{item.name}</p>
+                        <p className="text-xs text-gray-500">
+                          Deleted {formatDistanceToNow(new Date(item.deletedAt), { addSuffix: true })}
+                        </p>
+                        {confirmingPurge === key && dependents && (
+                          <p className="text-xs text-red-600 mt-1">Also permanently deletes {dependents}</p>
+                        )}
+                      </div>
+                      {confirmingPurge === key ? (
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setConfirmingPurge(null)} disabled={isPending}>
+                            Cancel
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => purgeMutation.mutate(item)}
+                            disabled={isPending}
+                            data-testid={`button-confirm-purge-${item.id}`}
+                          >
+                            {purgeMutation.isPending ? "Deleting..." : "Delete Permanently"}
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => restoreMutation.mutate(item)}
+                            disabled={isPending}
+                            data-testid={`button-restore-${item.id}`}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Restore
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-red-600 hover:text-red-700"
+                            onClick={() => setConfirmingPurge(key)}
+                            disabled={isPending}
+                            data-testid={`button-purge-${item.id}`}
+                          >
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            Delete Permanently
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
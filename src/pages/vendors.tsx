@@ -1,5 +1,5 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,6 +7,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { FileText, Plus, Search, Filter, Building, Edit, Trash2, ChevronDown, ChevronRight, ArrowUpDown, Download, Send } from "lucide-react";
 import { type Vendor, type Representative, type Category } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -16,9 +17,21 @@ import AddVendorModal from "@/components/modals/add-vendor-modal";
 import VendorDetailModal from "@/components/modals/vendor-detail-modal";
 import EditRepresentativeModal from "@/components/modals/edit-representative-modal";
 import { exportVendorsToPDF } from "@/lib/pdf-export";
+import { useListPage, fetchAll, type ListParams } from "@/hooks/use-list-page";
+import { ListPagination } from "@/components/list-pagination";
+import { useLinkedRecord } from "@/hooks/use-linked-record";
+
+type MailingListFormat = "text" | "csv" | "vcard";
+
+const MAILING_LIST_EXTENSIONS: Record<MailingListFormat, string> = {
+  text: "txt",
+  csv: "csv",
+  vcard: "vcf",
+};
 
 export default function Vendors() {
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("");
   const [brandFilter, setBrandFilter] = useState("");
   const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
@@ -28,14 +41,38 @@ export default function Vendors() {
   const [startInEditMode, setStartInEditMode] = useState(false);
   const [selectedRepresentative, setSelectedRepresentative] = useState<Representative | null>(null);
   const [showEditRepModal, setShowEditRepModal] = useState(false);
-  const [sortField, setSortField] = useState<string>('companyName');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const [chosenSortField, setSortField] = useState<string | null>(null);
+  const [chosenSortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
   const [expandedBrands, setExpandedBrands] = useState<Record<string, boolean>>({});
+  const [page, setPage] = useState(1);
   const { toast } = useToast();
 
-  const { data: vendors, isLoading } = useQuery<Vendor[]>({
-    queryKey: ["/api/vendors"],
-  });
+  // The list query follows the search box after a pause in typing
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 200);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Best matches first while searching, until a column sort is picked
+  const isSearching = debouncedSearch !== "";
+  const sortField = chosenSortField ?? (isSearching ? 'relevance' : 'companyName');
+  const sortOrder = chosenSortField ? chosenSortOrder : (isSearching ? 'desc' : 'asc');
+
+  // Search, category hierarchy, brand and sort are all applied server-side
+  const listParams: ListParams = {
+    search: debouncedSearch,
+    category: categoryFilter && categoryFilter !== "all-categories" ? categoryFilter : undefined,
+    brand: brandFilter && brandFilter !== "all-brands" ? brandFilter : undefined,
+    sort: sortField,
+    order: sortOrder,
+  };
+
+  const { data: vendorPage, isLoading } = useListPage<Vendor>("/api/vendors", { ...listParams, page });
+  const sortedVendors = vendorPage?.items ?? [];
+
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, categoryFilter, brandFilter, sortField, sortOrder]);
 
   const { data: representatives = [] } = useQuery<Representative[]>({
     queryKey: ["/api/representatives"],
@@ -94,61 +131,17 @@ export default function Vendors() {
     }));
   };
 
-  // Helper function to get all subcategories recursively for a given category
-  const getAllSubcategories = (categoryName: string): string[] => {
-    const category = categories.find(cat => cat.name.toLowerCase() === categoryName.toLowerCase());
-    if (!category) return [];
-    
-    const subcategories = categories.filter(cat => cat.parentId === category.id);
-    const allSubs = [categoryName]; // Include the parent category itself
-    
-    subcategories.forEach(subcat => {
-      allSubs.push(subcat.name);
-      // Recursively get sub-subcategories
-      const subSubcategories = getAllSubcategories(subcat.name);
-      allSubs.push(...subSubcategories.filter(name => name !== subcat.name));
-    });
-    
-    return allSubs;
-  };
-
-  // Helper function to check if a search term matches any category in a hierarchy
-  const matchesAnyInHierarchy = (vendorCategories: string[], searchTerm: string): boolean => {
-    const searchLower = searchTerm.toLowerCase();
-    
-    // Get all possible category matches including subcategories
-    const allPossibleMatches = new Set<string>();
-    
-    // For each category in the database, get its full hierarchy
-    categories.forEach(category => {
-      const categoryLower = category.name.toLowerCase();
-      if (categoryLower.includes(searchLower)) {
-        // If search matches this category, add all its subcategories
-        const hierarchy = getAllSubcategories(category.name);
-        hierarchy.forEach(h => allPossibleMatches.add(h.toLowerCase()));
-      }
-    });
-    
-    // Also check if the search term is a parent category that should include its children
-    const hierarchyMatches = getAllSubcategories(searchTerm);
-    hierarchyMatches.forEach(h => allPossibleMatches.add(h.toLowerCase()));
-    
-    // Check if any vendor category matches any possible category in the hierarchy
-    return vendorCategories.some(vendorCat => 
-      allPossibleMatches.has(vendorCat.toLowerCase()) || 
-      vendorCat.toLowerCase().includes(searchLower)
-    );
-  };
-
   const deleteVendorMutation = useMutation({
     mutationFn: async (id: string) => {
       await apiRequest("DELETE", `/api/vendors?id=${id}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/representatives"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       toast({
         title: "Success",
-        description: "Vendor deleted successfully",
+        description: "Vendor moved to the trash",
       });
     },
     onError: () => {
@@ -160,86 +153,20 @@ export default function Vendors() {
     },
   });
 
-  const filteredVendors = vendors?.filter(vendor => {
-    const searchLower = searchQuery.toLowerCase().trim();
-    
-    // If no search query, show all vendors (filtered by category and brand only)
-    if (!searchQuery) {
-      const matchesCategory = !categoryFilter || categoryFilter === "all-categories" ||
-        (vendor.categories && matchesAnyInHierarchy(vendor.categories, categoryFilter));
-      const matchesBrand = !brandFilter || brandFilter === "all-brands" ||
-        (vendor.brands && getBrandNames(vendor.brands).some(brandName => 
-          brandName.toLowerCase().includes(brandFilter.toLowerCase())
-        ));
-      return matchesCategory && matchesBrand;
-    }
-    
-    // Enhanced search logic with hierarchical category support
-    const matchesSearch = 
-      // Exact company name match
-      vendor.companyName.toLowerCase().includes(searchLower) ||
-
-      // Vendor number match
-      vendor.vendorNumber?.toLowerCase().includes(searchLower) ||
-      // Phone match
-      vendor.phone?.toLowerCase().includes(searchLower) ||
-      // Hierarchical category matching - includes subcategories
-      (vendor.categories && matchesAnyInHierarchy(vendor.categories, searchLower)) ||
-      // Brand matching using vendor.brands field
-      (vendor.brands && getBrandNames(vendor.brands).some(brandName => 
-        brandName.toLowerCase().includes(searchLower)
-      ));
-    
-    const matchesCategory = !categoryFilter || categoryFilter === "all-categories" ||
-      (vendor.categories && matchesAnyInHierarchy(vendor.categories, categoryFilter));
-    
-    const matchesBrand = !brandFilter || brandFilter === "all-brands" ||
-      (vendor.brands && getBrandNames(vendor.brands).some(brandName => 
-        brandName.toLowerCase().includes(brandFilter.toLowerCase())
-      ));
-    
-    return matchesSearch && matchesCategory && matchesBrand;
-  }) || [];
-
-  // Apply sorting
-  const sortedVendors = [...filteredVendors].sort((a, b) => {
-    let aValue = '', bValue = '';
-    
-    switch (sortField) {
-      case 'vendorNumber':
-        aValue = a.vendorNumber || '';
-        bValue = b.vendorNumber || '';
-        break;
-      case 'companyName':
-        aValue = a.companyName;
-        bValue = b.companyName;
-        break;
-      case 'phone':
-        aValue = a.phone || '';
-        bValue = b.phone || '';
-        break;
-      case 'email':
-        aValue = a.email || '';
-        bValue = b.email || '';
-        break;
-      default:
-        aValue = a.companyName;
-        bValue = b.companyName;
-    }
-    
-    const comparison = aValue.localeCompare(bValue);
-    return sortOrder === 'asc' ? comparison : -comparison;
-  });
-
   const handleDeleteVendor = (id: string, companyName: string) => {
-    if (window.confirm(`Are you sure you want to delete ${companyName}?`)) {
+    if (window.confirm(`Move ${companyName} to the trash? It can be restored from the Trash page.`)) {
       deleteVendorMutation.mutate(id);
     }
   };
 
   const exportMailingListMutation = useMutation({
-    mutationFn: async () => {
-      const response = await fetch("/api/vendors/mailing-list");
+    mutationFn: async (format: MailingListFormat) => {
+      const params = new URLSearchParams({ format });
+      // Export the same slice of vendors the page is currently filtered to
+      if (searchQuery.trim()) params.append("search", searchQuery.trim());
+      if (categoryFilter && categoryFilter !== "all-categories") params.append("category", categoryFilter);
+      if (brandFilter && brandFilter !== "all-brands") params.append("brand", brandFilter);
+      const response = await fetch(`/api/vendors/mailing-list?${params}`);
       if (!response.ok) {
         throw new Error("Failed to generate mailing list");
       }
@@ -247,7 +174,7 @@ export default function Vendors() {
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = 'vendors-mailing-list.txt';
+      link.download = `vendors-mailing-list.${MAILING_LIST_EXTENSIONS[format]}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -268,9 +195,11 @@ export default function Vendors() {
     },
   });
 
-  const handleExportPDF = () => {
+  const handleExportPDF = async () => {
     try {
-      const pdf = exportVendorsToPDF(sortedVendors, representatives, {
+      // The PDF covers every vendor matching the filters, not just this page
+      const allVendors = await fetchAll<Vendor>("/api/vendors", listParams);
+      const pdf = exportVendorsToPDF(allVendors, representatives, {
         title: searchQuery ? `LowesPro Vendor Directory - "${searchQuery}"` : 'LowesPro Vendor Directory',
         includeContacts: true,
         includeCategories: true,
@@ -313,8 +242,15 @@ export default function Vendors() {
     setShowDetailModal(true);
   };
 
+  useLinkedRecord<Vendor>("/api/vendors", (vendor) => {
+    setSelectedVendor(vendor);
+    setStartInEditMode(false);
+    setShowDetailModal(true);
+  });
+
   const handleSort = (field: string) => {
     if (sortField === field) {
+      setSortField(field);
       setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
     } else {
       setSortField(field);
@@ -379,16 +315,24 @@ export default function Vendors() {
             <p className="text-gray-600 mt-1 text-sm md:text-base">Manage your construction material suppliers</p>
           </div>
           <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3">
-            <Button 
-              variant="outline" 
-              className="font-medium text-sm"
-              onClick={() => exportMailingListMutation.mutate()}
-              disabled={exportMailingListMutation.isPending}
-              data-testid="button-export-mailing-list"
-            >
-              <Send className="mr-2 h-4 w-4" />
-              {exportMailingListMutation.isPending ? "Exporting..." : "Export Mailing List"}
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="font-medium text-sm"
+                  disabled={exportMailingListMutation.isPending}
+                  data-testid="button-export-mailing-list"
+                >
+                  <Send className="mr-2 h-4 w-4" />
+                  {exportMailingListMutation.isPending ? "Exporting..." : "Export Mailing List"}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => exportMailingListMutation.mutate("text")}>Plain text (.txt)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportMailingListMutation.mutate("csv")}>Outlook contacts (.csv)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportMailingListMutation.mutate("vcard")}>vCard (.vcf)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Button variant="outline" className="font-medium text-sm" onClick={handleExportPDF}>
               <Download className="mr-2 h-4 w-4" />
               Export PDF
@@ -444,14 +388,7 @@ export default function Vendors() {
                 <SelectContent>
                   <SelectItem value="all-brands">All Brands</SelectItem>
                   {(() => {
-                    const allBrandNames = new Set<string>();
-                    vendors?.forEach(vendor => {
-                      if (vendor.brands) {
-                        getBrandNames(vendor.brands).forEach(brandName => {
-                          allBrandNames.add(brandName);
-                        });
-                      }
-                    });
+                    const allBrandNames = new Set<string>(brands.map(brand => brand.name));
                     return Array.from(allBrandNames).sort().map(brandName => (
                       <SelectItem key={brandName} value={brandName.toLowerCase()}>
                         {brandName}
@@ -472,6 +409,7 @@ export default function Vendors() {
                     <SelectValue placeholder="Sort by..." />
                   </SelectTrigger>
                   <SelectContent>
+                    {isSearching && <SelectItem value="relevance-desc">Best Match</SelectItem>}
                     <SelectItem value="companyName-asc">Company Name (A-Z)</SelectItem>
                     <SelectItem value="companyName-desc">Company Name (Z-A)</SelectItem>
                     <SelectItem value="vendorNumber-asc">Vendor Number (1-9)</SelectItem>
@@ -703,12 +641,25 @@ export default function Vendors() {
         ))}
       </div>
 
+      {vendorPage && vendorPage.pageCount > 1 && (
+        <Card className="construction-shadow block md:hidden">
+          <ListPagination
+            page={vendorPage.page}
+            pageSize={vendorPage.pageSize}
+            total={vendorPage.total}
+            pageCount={vendorPage.pageCount}
+            onPageChange={setPage}
+            noun="vendors"
+          />
+        </Card>
+      )}
+
       {/* Desktop Table Layout */}
       <Card className="construction-shadow overflow-hidden hidden md:block">
         <div className="px-6 py-4 border-b border-gray-200">
           <div className="flex items-center justify-between">
             <h3 className="text-lg font-semibold text-gray-900">Vendor Directory</h3>
-            <span className="text-sm text-gray-500">{sortedVendors.length} vendors</span>
+            <span className="text-sm text-gray-500">{vendorPage?.total ?? 0} vendors</span>
           </div>
         </div>
 
@@ -953,19 +904,16 @@ export default function Vendors() {
         </div>
 
         {/* Pagination */}
-        <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
-          <div className="flex items-center text-sm text-gray-500">
-            <span>Showing 1 to {filteredVendors.length} of {filteredVendors.length} vendors</span>
-          </div>
-          <div className="flex items-center space-x-2">
-            <Button variant="outline" size="sm" disabled>
-              Previous
-            </Button>
-            <Button variant="outline" size="sm" disabled>
-              Next
-            </Button>
-          </div>
-        </div>
+        {vendorPage && (
+          <ListPagination
+            page={vendorPage.page}
+            pageSize={vendorPage.pageSize}
+            total={vendorPage.total}
+            pageCount={vendorPage.pageCount}
+            onPageChange={setPage}
+            noun="vendors"
+          />
+        )}
       </Card>
 
       <AddVendorModal 